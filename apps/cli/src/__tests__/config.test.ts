@@ -2,8 +2,12 @@
  * Tests for @nlci/cli config module
  */
 
+import { getEmbedder, registerEmbedder } from '@nlci/core';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
-import { loadConfig } from '../config.js';
+import { loadConfig, loadConfigFile } from '../config.js';
 
 describe('config', () => {
   describe('loadConfig', () => {
@@ -75,6 +79,52 @@ describe('config', () => {
       expect(config.lsh).toBeDefined();
     });
 
+    it('should load the embedder plugins listed in the config file', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'nlci-config-'));
+      try {
+        await writeFile(
+          join(dir, 'nlci.config.json'),
+          JSON.stringify({ embedding: { modelType: 'team-model', plugins: ['./embedder.cjs'] } })
+        );
+        await writeFile(
+          join(dir, 'embedder.cjs'),
+          "module.exports = (register) => register('team-model', () => ({ dimension: 8 }));\n"
+        );
+
+        const config = await loadConfig(dir);
+
+        expect(config.embedding?.modelType).toBe('team-model');
+        expect(getEmbedder('team-model')).toBeDefined();
+      } finally {
+        registerEmbedder('team-model', undefined);
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should resolve the grammar directory against the config file', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'nlci-config-'));
+      try {
+        await mkdir(join(dir, 'sub'));
+        await writeFile(
+          join(dir, 'sub', 'nlci.config.json'),
+          JSON.stringify({ parser: { grammars: { dir: 'grammars', baseUrl: false } } })
+        );
+
+        const { config, filepath } = await loadConfigFile(
+          dir,
+          join(dir, 'sub', 'nlci.config.json')
+        );
+
+        expect(filepath).toBe(join(dir, 'sub', 'nlci.config.json'));
+        expect(config.parser?.grammars).toEqual({
+          dir: join(dir, 'sub', 'grammars'),
+          baseUrl: false,
+        });
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
     it('should throw error for invalid explicit config path', async () => {
       // When explicit config path is provided but doesn't exist, cosmiconfig throws
       await expect(loadConfig(process.cwd(), '/nonexistent/config.json')).rejects.toThrow();
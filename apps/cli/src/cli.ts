@@ -7,6 +7,7 @@
 import chalk from 'chalk';
 import { Command } from 'commander';
 
+import { grammarsCommand } from './commands/grammars.js';
 import { initCommand } from './commands/init.js';
 import { queryCommand } from './commands/query.js';
 import { reportCommand } from './commands/report.js';
@@ -41,6 +42,7 @@ program.addCommand(initCommand);
 program.addCommand(serveCommand);
 program.addCommand(reportCommand);
 program.addCommand(statsCommand);
+program.addCommand(grammarsCommand);
 
 // Error handling
 program.exitOverride((err) => {
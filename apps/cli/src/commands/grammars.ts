@@ -0,0 +1,91 @@
+/**
+ * @nlci/cli - Grammars Command
+ *
+ * Vendors tree-sitter grammars into a local directory for offline parsing.
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import path from 'path';
+
+import type { SupportedLanguage } from '@nlci/core';
+import { createGrammarLoader } from '@nlci/core';
+
+import { loadConfigFile } from '../config.js';
+
+interface FetchOptions {
+  out: string;
+  languages?: string[];
+  baseUrl?: string;
+  download?: boolean;
+}
+
+const fetchCommand = new Command('fetch')
+  .description('Copy tree-sitter grammars into a directory for offline use')
+  .option('-o, --out <dir>', 'Directory to write grammars to', '.nlci-grammars')
+  .option('-l, --languages <langs...>', 'Languages to fetch (defaults to all)')
+  .option('--base-url <url>', 'Base URL to download grammars from')
+  .option('--no-download', 'Only copy grammars installed in node_modules')
+  .action(async (options: FetchOptions, command: Command) => {
+    const spinner = ora('Resolving grammars...').start();
+
+    try {
+      const { config: configPath } = command.optsWithGlobals<{ config?: string }>();
+      const { config, filepath } = await loadConfigFile(process.cwd(), configPath);
+      const outDir = path.resolve(options.out);
+      // Grammars are looked up where scans look for them, then downloaded
+      const grammars = config.parser?.grammars;
+      const baseUrl = options.download === false ? false : (options.baseUrl ?? grammars?.baseUrl);
+      const loader = createGrammarLoader({ ...grammars, baseUrl });
+
+      const languages = (options.languages ?? loader.supportedLanguages) as SupportedLanguage[];
+      const unsupported = languages.filter((language) => !loader.isSupported(language));
+      if (unsupported.length > 0) {
+        throw new Error(`No tree-sitter grammar for: ${unsupported.join(', ')}`);
+      }
+
+      const failures: string[] = [];
+
+      for (const language of languages) {
+        spinner.text = `Fetching ${language} grammar...`;
+        try {
+          const [grammar] = await loader.fetchGrammars(outDir, [language]);
+          spinner.stopAndPersist({
+            symbol: chalk.green('✓'),
+            text: `${language} ${chalk.dim(`from ${grammar.source}`)}`,
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          failures.push(message);
+          spinner.stopAndPersist({ symbol: chalk.red('✗'), text: language });
+        }
+        spinner.start();
+      }
+
+      if (failures.length > 0) {
+        spinner.fail(chalk.red(`${failures.length} grammar(s) could not be fetched`));
+        for (const failure of failures) {
+          console.error(chalk.dim(failure));
+        }
+        process.exit(1);
+      }
+
+      // The config resolves parser.grammars.dir against its own directory
+      const configDir = filepath ? path.dirname(filepath) : process.cwd();
+      const grammarDir = path.relative(configDir, outDir) || '.';
+
+      spinner.succeed(chalk.green(`Fetched ${languages.length} grammar(s) into ${outDir}`));
+      console.log(
+        chalk.dim(`\nSet parser.grammars.dir to "${grammarDir}" in your config to use them.`)
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      spinner.fail(chalk.red(`Failed to fetch grammars: ${message}`));
+      process.exit(1);
+    }
+  });
+
+export const grammarsCommand = new Command('grammars')
+  .description('Manage tree-sitter grammars')
+  .addCommand(fetchCommand);
@@ -8,3 +8,4 @@ export { initCommand } from './init.js';
 export { serveCommand } from './serve.js';
 export { reportCommand } from './report.js';
 export { statsCommand } from './stats.js';
+export { grammarsCommand } from './grammars.js';
@@ -37,6 +37,7 @@ export default {
 
   // Parser configuration
   parser: {
+    engine: 'simple',   // 'simple' (regex), 'tree-sitter' or 'auto'
     minBlockSize: 10,   // Minimum tokens per block
     maxBlockSize: 10000, // Maximum tokens per block
     includePatterns: [
@@ -75,6 +76,7 @@ const CONFIG_TEMPLATE_JSON = `{
     "maxLength": 512
   },
   "parser": {
+    "engine": "simple",
     "minBlockSize": 10,
     "maxBlockSize": 10000,
     "includePatterns": [
@@ -11,8 +11,8 @@ import path from 'path';
 import fs from 'fs/promises';
 import { table } from 'table';
 
-import { NLCIEngine } from '@nlci/core';
-import type { CloneResult } from '@nlci/core';
+import { NLCIEngine, getLanguageForFile } from '@nlci/core';
+import type { CloneResult, SupportedLanguage } from '@nlci/core';
 import { formatDuration } from '@nlci/shared';
 
 import { loadConfig } from '../config.js';
@@ -21,6 +21,7 @@ interface QueryOptions {
   index?: string;
   file?: string;
   code?: string;
+  language?: string;
   threshold?: string;
   limit?: string;
   type?: string;
@@ -33,6 +34,7 @@ export const queryCommand = new Command('query')
   .option('-x, --index <path>', 'Path to index file', '.nlci-index')
   .option('-f, --file <path>', 'Query using code from a file')
   .option('-c, --code <code>', 'Query using inline code snippet')
+  .option('-l, --language <language>', 'Language of the query code (detected from --file)')
   .option('-t, --threshold <value>', 'Minimum similarity threshold (0-1)', '0.85')
   .option('-n, --limit <n>', 'Maximum number of results', '10')
   .option('--type <type>', 'Filter by clone type (1, 2, 3, 4)')
@@ -49,9 +51,11 @@ export const queryCommand = new Command('query')
 
       // Get query code
       let queryCode: string;
+      let language = options.language as SupportedLanguage | undefined;
       if (options.file) {
         const filePath = path.resolve(options.file);
         queryCode = await fs.readFile(filePath, 'utf-8');
+        language ??= getLanguageForFile(filePath);
       } else {
         queryCode = options.code!;
       }
@@ -79,6 +83,7 @@ export const queryCommand = new Command('query')
       const result = await engine.query(queryCode, {
         minSimilarity: threshold,
         maxResults: limit,
+        language: language ?? 'unknown',
       });
 
       const duration = performance.now() - startTime;
@@ -94,6 +99,10 @@ export const queryCommand = new Command('query')
         `Found ${filteredClones.length} similar code blocks in ${formatDuration(duration)}`
       );
 
+      if (result.truncated) {
+        console.log(chalk.yellow('Query timed out; results are partial.'));
+      }
+
       // Display results
       if (filteredClones.length === 0) {
         console.log(chalk.yellow('\nNo similar code blocks found.'));
@@ -115,11 +124,13 @@ export const queryCommand = new Command('query')
   });
 
 function displayTable(results: CloneResult[], verbose: boolean): void {
-  const headers = ['#', 'Type', 'Similarity', 'File', 'Lines'];
+  const headers = ['#', 'Type', 'Similarity', 'Shared', 'Edit Dist.', 'File', 'Lines'];
   const rows = results.map((result, index) => [
     String(index + 1),
     formatCloneType(result.cloneType),
     formatSimilarity(result.similarity),
+    `${result.metrics.sharedTokens}/${result.metrics.totalTokens}`,
+    formatEditDistance(result.metrics.editDistance),
     truncatePath(result.target.filePath ?? 'unknown', 40),
     `${result.target.startLine}-${result.target.endLine}`,
   ]);
@@ -131,7 +142,13 @@ function displayTable(results: CloneResult[], verbose: boolean): void {
     for (const result of results) {
       console.log(`\n${chalk.cyan(result.target.filePath ?? 'unknown')}:`);
       console.log(`  Lines ${result.target.startLine}-${result.target.endLine}`);
-      console.log(`  Similarity: ${formatSimilarity(result.similarity)} (${result.cloneType})`);
+      console.log(
+        `  Similarity: ${formatSimilarity(result.similarity)} (${result.cloneType}, ${result.cloneTypeReason})`
+      );
+      console.log(
+        `  Shared tokens: ${result.metrics.sharedTokens} of ${result.metrics.totalTokens}`
+      );
+      console.log(`  Edit distance: ${formatEditDistance(result.metrics.editDistance)}`);
     }
   }
 }
@@ -162,6 +179,10 @@ function formatSimilarity(value: number): string {
   return chalk.green(`${percentage}%`);
 }
 
+function formatEditDistance(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
 function truncatePath(filePath: string, maxLength: number): string {
   if (filePath.length <= maxLength) return filePath;
   const parts = filePath.split(/[/\\]/);
@@ -7,13 +7,12 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { glob } from 'glob';
 import path from 'path';
 import fs from 'fs/promises';
 
 import type { NLCIConfig } from '@nlci/core';
 import { NLCIEngine } from '@nlci/core';
-import { formatBytes, formatDuration } from '@nlci/shared';
+import { formatDuration } from '@nlci/shared';
 
 import { loadConfig } from '../config.js';
 import { getRelativePath } from '../utils/paths.js';
@@ -28,6 +27,7 @@ interface ScanOptions {
   languages?: string[];
   verbose?: boolean;
   force?: boolean;
+  incremental?: boolean;
 }
 
 export const scanCommand = new Command('scan')
@@ -42,6 +42,7 @@ export const scanCommand = new Command('scan')
   .option('-l, --languages <langs...>', 'Languages to include')
   .option('-v, --verbose', 'Show detailed output')
   .option('-f, --force', 'Force rebuild of existing index')
+  .option('--incremental', 'Update the existing index, re-scanning only changed files')
   .action(async (targetPath: string, options: ScanOptions) => {
     const spinner = ora('Initializing...').start();
 
@@ -64,7 +65,7 @@ export const scanCommand = new Command('scan')
 
       // Check for existing index
       const indexPath = path.resolve(options.output ?? '.nlci-index');
-      if (!options.force) {
+      if (!options.force && !options.incremental) {
         try {
           await fs.access(indexPath);
           spinner.warn('Index already exists. Use --force to rebuild.');
@@ -74,51 +75,41 @@ export const scanCommand = new Command('scan')
         }
       }
 
-      // Find files to scan
-      spinner.text = 'Finding files...';
-      const files = await findFiles(absolutePath, mergedConfig);
-
-      if (files.length === 0) {
-        spinner.warn('No files found matching the criteria.');
-        return;
-      }
-
-      spinner.info(`Found ${files.length} files to scan.`);
-
       // Create engine
       spinner.text = 'Creating NLCI engine...';
       const engine = new NLCIEngine(mergedConfig);
 
-      // Scan files
-      const startTime = performance.now();
-      let processedFiles = 0;
-      let totalBlocks = 0;
-      let totalBytes = 0;
-
-      for (const file of files) {
-        const relativePath = getRelativePath(absolutePath, file);
-        spinner.text = `Scanning: ${relativePath}`;
+      if (options.incremental) {
+        spinner.text = 'Loading existing index...';
+        await engine.load();
+      }
 
-        try {
-          const content = await fs.readFile(file, 'utf-8');
-          totalBytes += Buffer.byteLength(content);
+      // Scan files
+      spinner.text = 'Finding files...';
+      let lastBlockCount = 0;
 
-          const indexedBlocks = await engine.indexCode(content, file);
-          totalBlocks += indexedBlocks.length;
-          processedFiles++;
+      const summary = await engine.scanDirectory(absolutePath, {
+        incremental: options.incremental,
+        onProgress: (progress) => {
+          const relativePath = getRelativePath(absolutePath, progress.currentFile);
+          spinner.text = `Scanning (${progress.processedFiles}/${progress.totalFiles}): ${relativePath}`;
 
           if (options.verbose) {
-            spinner.info(`  ${relativePath}: ${indexedBlocks.length} blocks`);
+            spinner.info(`  ${relativePath}: ${progress.blocksIndexed - lastBlockCount} blocks`);
           }
-        } catch (error) {
+          lastBlockCount = progress.blocksIndexed;
+        },
+        onError: (file, error) => {
           if (options.verbose) {
-            const message = error instanceof Error ? error.message : String(error);
-            spinner.warn(`  Skipped ${relativePath}: ${message}`);
+            spinner.warn(`  Skipped ${getRelativePath(absolutePath, file)}: ${error.message}`);
           }
-        }
-      }
+        },
+      });
 
-      const duration = performance.now() - startTime;
+      if (summary.filesScanned === 0 && summary.filesUnchanged === 0) {
+        spinner.warn('No files found matching the criteria.');
+        return;
+      }
 
       // Save index
       spinner.text = 'Saving index...';
@@ -131,11 +122,16 @@ export const scanCommand = new Command('scan')
 
       // Display summary
       console.log('\n' + chalk.bold('Summary:'));
-      console.log(`  Files scanned:  ${processedFiles}`);
-      console.log(`  Code blocks:    ${totalBlocks}`);
+      console.log(`  Files scanned:  ${summary.filesScanned}`);
+      if (options.incremental) {
+        console.log(`  Unchanged:      ${summary.filesUnchanged}`);
+        console.log(`  Removed:        ${summary.filesRemoved}`);
+      }
+      console.log(`  Code blocks:    ${summary.blocksIndexed}`);
       console.log(`  Unique hashes:  ${stats.totalBlocks}`);
-      console.log(`  Data processed: ${formatBytes(totalBytes)}`);
-      console.log(`  Duration:       ${formatDuration(duration)}`);
+      console.log(`  Clone pairs:    ${summary.clonePairsFound}`);
+      console.log(`  Index build:    ${formatDuration(summary.indexBuildTimeMs)}`);
+      console.log(`  Duration:       ${formatDuration(summary.scanTimeMs)}`);
       console.log(`  Index saved to: ${indexPath}`);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -147,7 +143,10 @@ export const scanCommand = new Command('scan')
 function mergeOptions(config: Partial<NLCIConfig>, options: ScanOptions): Partial<NLCIConfig> {
   return {
     ...config,
+    ...(options.incremental && { memory: { ...config.memory, enabled: true } }),
     parser: {
+      engine: config.parser?.engine ?? 'simple',
+      ...(config.parser?.grammars && { grammars: config.parser.grammars }),
       languages: config.parser?.languages ?? [],
       extractFunctions: config.parser?.extractFunctions ?? true,
       extractClasses: config.parser?.extractClasses ?? true,
@@ -163,38 +162,3 @@ function mergeOptions(config: Partial<NLCIConfig>, options: ScanOptions): Partia
     },
   };
 }
-
-async function findFiles(basePath: string, config: Partial<NLCIConfig>): Promise<string[]> {
-  const include = config.parser?.includePatterns ?? [
-    '**/*.ts',
-    '**/*.tsx',
-    '**/*.js',
-    '**/*.jsx',
-    '**/*.py',
-    '**/*.java',
-    '**/*.go',
-    '**/*.rs',
-    '**/*.c',
-    '**/*.cpp',
-    '**/*.h',
-    '**/*.hpp',
-  ];
-
-  const exclude = config.parser?.excludePatterns ?? [
-    '**/node_modules/**',
-    '**/dist/**',
-    '**/build/**',
-    '**/.git/**',
-    '**/vendor/**',
-    '**/__pycache__/**',
-  ];
-
-  const files = await glob(include, {
-    cwd: basePath,
-    absolute: true,
-    ignore: exclude,
-    nodir: true,
-  });
-
-  return files;
-}
@@ -12,6 +12,7 @@ import fs from 'fs/promises';
 import http from 'http';
 
 import { NLCIEngine } from '@nlci/core';
+import type { SupportedLanguage } from '@nlci/core';
 
 import { loadConfig } from '../config.js';
 
@@ -26,6 +27,7 @@ interface QueryRequest {
   file?: string;
   threshold?: number;
   maxResults?: number;
+  language?: SupportedLanguage;
 }
 
 export const serveCommand = new Command('serve')
@@ -86,7 +88,7 @@ export const serveCommand = new Command('serve')
 
             if (req.method === 'POST' && req.url === '/query') {
               const body = await readBody(req);
-              const { code, threshold, maxResults } = JSON.parse(body) as QueryRequest;
+              const { code, threshold, maxResults, language } = JSON.parse(body) as QueryRequest;
 
               if (!code) {
                 res.writeHead(400, { 'Content-Type': 'application/json' });
@@ -97,6 +99,7 @@ export const serveCommand = new Command('serve')
               const results = await engine.query(code, {
                 minSimilarity: threshold ?? 0.85,
                 maxResults: maxResults ?? 10,
+                language: language ?? 'unknown',
               });
 
               res.writeHead(200, { 'Content-Type': 'application/json' });
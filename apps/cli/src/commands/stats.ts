@@ -43,6 +43,7 @@ export const statsCommand = new Command('stats')
       await engine.load();
 
       const stats = engine.getStats();
+      const cache = engine.getEmbeddingCacheStats();
 
       // Get file size
       const fileStat = await fs.stat(indexPath);
@@ -56,6 +57,7 @@ export const statsCommand = new Command('stats')
             {
               ...stats,
               indexSize: fileSize,
+              embeddingCache: cache ?? null,
             },
             null,
             2
@@ -81,6 +83,22 @@ export const statsCommand = new Command('stats')
 
       console.log(table(data));
 
+      // Embedding cache (hit and miss counts accumulate over the runs that saved it)
+      console.log(chalk.bold('\nEmbedding Cache:'));
+      if (cache) {
+        const lookups = cache.hits + cache.misses;
+        const hitRate = lookups > 0 ? `${((cache.hits / lookups) * 100).toFixed(1)}%` : 'N/A';
+        console.log(`  Entries:        ${cache.entries}`);
+        console.log(
+          `  Size:           ${formatBytes(cache.sizeBytes)} of ${formatBytes(cache.maxSizeBytes)}`
+        );
+        console.log(`  Hits:           ${cache.hits}`);
+        console.log(`  Misses:         ${cache.misses}`);
+        console.log(`  Hit rate:       ${hitRate}`);
+      } else {
+        console.log('  Disabled (storage.maxCacheSizeMB is 0)');
+      }
+
       // LSH configuration
       console.log(chalk.bold('\nLSH Configuration:'));
       console.log(`  Tables (L):     ${stats.numTables}`);
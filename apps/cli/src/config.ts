@@ -4,7 +4,7 @@
  * Uses cosmiconfig to load NLCI configuration from various file formats.
  */
 
-import type { NLCIConfig } from '@nlci/core';
+import { loadEmbedderPlugins, type NLCIConfig } from '@nlci/core';
 import { cosmiconfig } from 'cosmiconfig';
 import path from 'path';
 
@@ -46,6 +46,7 @@ const defaultConfig: Partial<NLCIConfig> = {
     normalize: true,
   },
   parser: {
+    engine: 'simple',
     languages: [],
     minBlockSize: 10,
     maxBlockSize: 10000,
@@ -80,7 +81,18 @@ const defaultConfig: Partial<NLCIConfig> = {
 };
 
 /**
- * Load NLCI configuration from the filesystem.
+ * A merged configuration and the file it was loaded from.
+ */
+export interface LoadedConfig {
+  config: Partial<NLCIConfig>;
+
+  /** Path of the config file, or null when no file was found */
+  filepath: string | null;
+}
+
+/**
+ * Load NLCI configuration from the filesystem, and the embedder plugins it
+ * lists so `embedding.modelType` can name their models.
  *
  * @param searchFrom - Directory to start searching from
  * @param configPath - Optional explicit config file path
@@ -90,6 +102,20 @@ export async function loadConfig(
   searchFrom: string,
   configPath?: string
 ): Promise<Partial<NLCIConfig>> {
+  return (await loadConfigFile(searchFrom, configPath)).config;
+}
+
+/**
+ * Like {@link loadConfig}, but also reports which file the configuration
+ * came from, for resolving paths the way the config does.
+ *
+ * @param searchFrom - Directory to start searching from
+ * @param configPath - Optional explicit config file path
+ */
+export async function loadConfigFile(
+  searchFrom: string,
+  configPath?: string
+): Promise<LoadedConfig> {
   let result;
 
   if (configPath) {
@@ -99,10 +125,27 @@ export async function loadConfig(
   }
 
   if (!result || result.isEmpty) {
-    return defaultConfig;
+    return { config: defaultConfig, filepath: null };
+  }
+
+  const config = mergeConfig(defaultConfig, result.config as Partial<NLCIConfig>);
+  const configDir = path.dirname(result.filepath);
+
+  // Plugin and grammar paths are relative to the config file
+  const plugins = config.embedding?.plugins ?? [];
+  if (plugins.length > 0) {
+    await loadEmbedderPlugins(plugins, configDir);
   }
 
-  return mergeConfig(defaultConfig, result.config as Partial<NLCIConfig>);
+  const grammars = config.parser?.grammars;
+  if (config.parser && grammars?.dir) {
+    config.parser = {
+      ...config.parser,
+      grammars: { ...grammars, dir: path.resolve(configDir, grammars.dir) },
+    };
+  }
+
+  return { config, filepath: result.filepath };
 }
 
 /**
@@ -126,6 +169,14 @@ function mergeConfig(
     result.parser = { ...defaults.parser, ...overrides.parser };
   }
 
+  if (overrides.storage) {
+    result.storage = { ...defaults.storage, ...overrides.storage };
+  }
+
+  if (overrides.memory) {
+    result.memory = { ...defaults.memory, ...overrides.memory };
+  }
+
   return result;
 }
 
@@ -9,7 +9,7 @@
  */
 
 import { exec } from 'child_process';
-import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
 import { tmpdir } from 'os';
 import { join } from 'path';
 import { promisify } from 'util';
@@ -164,6 +164,16 @@ function divide(x: number, y: number): number {
 
       expect(result.code).toBe(0);
     }, 30000);
+
+    it('should only re-scan changed files with --incremental', async () => {
+      await runCLI(cliPath, `scan ${tempDir} --incremental`, { cwd: tempDir });
+
+      const result = await runCLI(cliPath, `scan ${tempDir} --incremental`, { cwd: tempDir });
+
+      expect(result.code).toBe(0);
+      expect(result.stdout).toMatch(/Files scanned:\s+0/);
+      expect(result.stdout).toMatch(/Unchanged:\s+3/);
+    }, 30000);
   });
 
   describe('nlci init', () => {
@@ -354,6 +364,60 @@ function add(a: number, b: number): number {
     }, 30000);
   });
 
+  describe('nlci grammars fetch', () => {
+    let grammarsDir: string;
+
+    beforeAll(async () => {
+      grammarsDir = await mkdtemp(join(tmpdir(), 'nlci-grammars-'));
+
+      // A grammar "installed" from the per-language npm package
+      await mkdir(join(grammarsDir, 'node_modules', 'tree-sitter-go'), { recursive: true });
+      await writeFile(
+        join(grammarsDir, 'node_modules', 'tree-sitter-go', 'tree-sitter-go.wasm'),
+        'wasm'
+      );
+    });
+
+    afterAll(async () => {
+      await rm(grammarsDir, { recursive: true, force: true });
+    });
+
+    it('should copy installed grammars into the output directory', async () => {
+      const result = await runCLI(cliPath, 'grammars fetch --out vendor -l go --no-download', {
+        cwd: grammarsDir,
+      });
+
+      expect(result.code).toBe(0);
+      const copied = await readFile(join(grammarsDir, 'vendor', 'tree-sitter-go.wasm'), 'utf-8');
+      expect(copied).toBe('wasm');
+    }, 30000);
+
+    it('should suggest a grammar directory relative to the config file', async () => {
+      await mkdir(join(grammarsDir, 'sub'), { recursive: true });
+      await writeFile(join(grammarsDir, 'sub', 'nlci.config.json'), JSON.stringify({ parser: {} }));
+
+      const result = await runCLI(
+        cliPath,
+        '-c sub/nlci.config.json grammars fetch --out sub/vendor -l go --no-download',
+        { cwd: grammarsDir }
+      );
+
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain('Set parser.grammars.dir to "vendor"');
+    }, 30000);
+
+    it('should list every location tried for missing grammars', async () => {
+      const result = await runCLI(cliPath, 'grammars fetch --out vendor -l rust --no-download', {
+        cwd: grammarsDir,
+      });
+
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain(
+        join(grammarsDir, 'node_modules', 'tree-sitter-rust', 'tree-sitter-rust.wasm')
+      );
+    }, 30000);
+  });
+
   describe('Error handling', () => {
     it('should handle non-existent directory', async () => {
       const result = await runCLI(cliPath, 'scan /nonexistent/path/that/does/not/exist');
@@ -61,7 +61,7 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     // Subscribe to configuration changes
     const configDisposable = vscode.workspace.onDidChangeConfiguration((e) => {
       if (e.affectsConfiguration('nlci')) {
-        nlciService?.reloadConfiguration();
+        void nlciService?.reloadConfiguration();
         codeLensProvider.refresh();
         diagnosticsProvider.refresh();
       }
@@ -92,10 +92,14 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     // Set context for conditional UI
     await vscode.commands.executeCommand('setContext', 'nlci.hasIndex', nlciService.hasIndex());
 
-    // Auto-scan if enabled
     const config = vscode.workspace.getConfiguration('nlci');
-    if (config.get<boolean>('autoScan', false)) {
-      await vscode.commands.executeCommand('nlci.scan');
+
+    // Bring an existing index up to date, or auto-scan if enabled, without
+    // holding up activation
+    if (nlciService.hasIndex()) {
+      void updateIndex(nlciService, treeProvider, logger);
+    } else if (config.get<boolean>('autoScan', false)) {
+      void vscode.commands.executeCommand('nlci.scan');
     }
 
     logger.info('NLCI extension activated successfully');
@@ -105,6 +109,34 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   }
 }
 
+/**
+ * Rescans the files that changed since the index was saved, behind a
+ * progress notification
+ */
+async function updateIndex(
+  service: NlciService,
+  treeProvider: CloneTreeProvider,
+  logger: Logger
+): Promise<void> {
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'NLCI: Updating index',
+      cancellable: false,
+    },
+    async (progress) => {
+      try {
+        await service.scanWorkspace((message, percent) => {
+          progress.report({ message, increment: percent });
+        }, true);
+        treeProvider.refresh();
+      } catch (error) {
+        logger.error('Incremental scan on startup failed', error);
+      }
+    }
+  );
+}
+
 /**
  * Deactivates the NLCI extension
  */
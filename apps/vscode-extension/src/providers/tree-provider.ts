@@ -6,7 +6,7 @@
 
 import * as vscode from 'vscode';
 import * as path from 'path';
-import type { CloneResult } from '@nlci/core';
+import { stableIdOf, type CloneResult } from '@nlci/core';
 import type { NlciService } from '../services/nlci-service';
 
 /**
@@ -140,6 +140,7 @@ export class CloneTreeProvider implements vscode.TreeDataProvider<CloneTreeItem>
           undefined,
           filePath
         );
+        item.id = filePath;
         item.description = path.dirname(filePath);
         item.resourceUri = vscode.Uri.file(filePath);
         items.push(item);
@@ -165,16 +166,26 @@ export class CloneTreeProvider implements vscode.TreeDataProvider<CloneTreeItem>
    */
   private getCloneItems(filePath: string): CloneTreeItem[] {
     const clones = this.clonesByFile.get(filePath) || [];
+    const occurrences = new Map<string, number>();
 
     return clones.map((clone) => {
       const targetFile = path.basename(clone.target.filePath);
-      return new CloneTreeItem(
+      const item = new CloneTreeItem(
         `Line ${clone.source.startLine} → ${targetFile}:${clone.target.startLine}`,
         vscode.TreeItemCollapsibleState.None,
         clone,
         undefined,
         false
       );
+
+      // Keyed by stable block IDs, so the selection survives edits that shift lines;
+      // identical blocks share a stable ID and are told apart by their order
+      const key = `${filePath}|${stableIdOf(clone.source)}|${stableIdOf(clone.target)}`;
+      const occurrence = occurrences.get(key) ?? 0;
+      occurrences.set(key, occurrence + 1);
+      item.id = occurrence === 0 ? key : `${key}#${occurrence}`;
+
+      return item;
     });
   }
 }
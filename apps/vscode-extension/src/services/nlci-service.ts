@@ -6,10 +6,12 @@
 
 import {
   NLCIEngine,
-  type CloneCluster,
+  getLanguageForFile,
+  loadEmbedderPlugins,
   type CloneResult,
   type LSHIndexStats,
   type NLCIConfig,
+  type ParserEngine,
 } from '@nlci/core';
 import * as fs from 'fs/promises';
 import * as path from 'path';
@@ -22,37 +24,12 @@ import { Logger } from '../utils/logger';
 export type { LSHIndexStats };
 
 /**
- * Convert CloneCluster[] to CloneResult[] for backward compatibility.
- * Creates pairs from representative block (or first block) to all other blocks.
+ * Orients a clone pair so that its source block is in the given file.
  */
-function clustersToResults(clusters: CloneCluster[]): CloneResult[] {
-  const results: CloneResult[] = [];
-
-  for (const cluster of clusters) {
-    if (cluster.blocks.length < 2) continue;
-
-    // Use representative block or first block as source
-    const source = cluster.representative ?? cluster.blocks[0];
-
-    // Create pairs from source to all other blocks
-    for (const target of cluster.blocks) {
-      if (target === source) continue;
-
-      results.push({
-        source,
-        target,
-        similarity: cluster.avgSimilarity,
-        cloneType: cluster.cloneType,
-        metrics: {
-          sharedTokens: 0,
-          totalTokens: 0,
-          editDistance: 0,
-        },
-      });
-    }
-  }
-
-  return results;
+function orientToFile(pair: CloneResult, filePath: string): CloneResult {
+  return pair.source.filePath === filePath
+    ? pair
+    : { ...pair, source: pair.target, target: pair.source };
 }
 
 /**
@@ -76,6 +53,7 @@ export class NlciService implements vscode.Disposable {
 
     // Load configuration
     this.config = this.loadConfiguration();
+    await this.loadPlugins();
 
     // Check for existing index
     const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
@@ -124,8 +102,23 @@ export class NlciService implements vscode.Disposable {
    */
   private loadConfiguration(): Partial<NLCIConfig> {
     const config = vscode.workspace.getConfiguration('nlci');
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
 
     return {
+      ...(workspaceFolder && {
+        storage: {
+          type: 'file',
+          path: path.join(workspaceFolder.uri.fsPath, '.nlci-index'),
+          compress: true,
+          maxCacheSizeMB: 256,
+        },
+      }),
+      // Record per-file hashes so startup scans only re-index what changed
+      memory: { enabled: true },
+      embedding: {
+        modelType: config.get<string>('embedding.modelType', 'tfidf'),
+        plugins: config.get<string[]>('embedding.plugins', []),
+      },
       lsh: {
         numTables: config.get<number>('lsh.numTables', 20),
         numBits: config.get<number>('lsh.numBits', 12),
@@ -137,6 +130,7 @@ export class NlciService implements vscode.Disposable {
         useScoredProbes: config.get<boolean>('lsh.useScoredProbes', false),
       },
       parser: {
+        engine: config.get<ParserEngine>('parser.engine', 'simple'),
         minBlockSize: 3,
         maxBlockSize: 500,
         languages: [],
@@ -149,19 +143,39 @@ export class NlciService implements vscode.Disposable {
     };
   }
 
+  /**
+   * Load the embedder plugins listed in the settings, from the workspace folder.
+   * A plugin that fails is logged; engines that need its model then fail to start.
+   */
+  private async loadPlugins(): Promise<void> {
+    const plugins = this.config?.embedding?.plugins ?? [];
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (plugins.length === 0 || !workspaceFolder) return;
+
+    try {
+      await loadEmbedderPlugins(plugins, workspaceFolder.uri.fsPath);
+    } catch (error) {
+      this.logger.error('Failed to load embedder plugins', error);
+    }
+  }
+
   /**
    * Reload configuration
    */
-  reloadConfiguration(): void {
+  async reloadConfiguration(): Promise<void> {
     this.config = this.loadConfiguration();
+    await this.loadPlugins();
     this.logger.info('Configuration reloaded');
   }
 
   /**
-   * Scan the workspace and build index
+   * Scan the workspace and build index.
+   * With `incremental`, the existing index is updated and only files changed
+   * since the last scan are re-indexed.
    */
   async scanWorkspace(
-    progressCallback?: (message: string, increment: number) => void
+    progressCallback?: (message: string, increment: number) => void,
+    incremental = false
   ): Promise<void> {
     const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
     if (!workspaceFolder) {
@@ -175,7 +189,12 @@ export class NlciService implements vscode.Disposable {
     this.logger.info(`Scanning workspace: ${workspaceFolder.uri.fsPath}`);
 
     // Create new engine (no initialize() needed - constructor initializes)
-    this.engine = new NLCIEngine(this.config);
+    if (!incremental || !this.engine) {
+      this.engine = new NLCIEngine(this.config);
+      if (incremental) {
+        await this.engine.load();
+      }
+    }
 
     progressCallback?.('Discovering files...', 0);
 
@@ -186,28 +205,27 @@ export class NlciService implements vscode.Disposable {
       '**/dist/**',
     ]);
 
-    // Find all source files
-    const files = await vscode.workspace.findFiles(
-      '**/*.{ts,tsx,js,jsx,py,java,go,rs,c,cpp,h,hpp,cs}',
-      `{${excludePatterns.join(',')}}`
-    );
-
-    this.logger.info(`Found ${files.length} files to process`);
-    progressCallback?.(`Found ${files.length} files`, 10);
+    // Discover, read and index files through the shared engine scan pipeline
+    const summary = await this.engine.scanDirectory(workspaceFolder.uri.fsPath, {
+      include: ['**/*.{ts,tsx,js,jsx,py,java,go,rs,c,cpp,h,hpp,cs}'],
+      exclude: excludePatterns,
+      incremental,
+      onProgress: (progress) => {
+        const percent = 10 + (progress.processedFiles / progress.totalFiles) * 80;
+        progressCallback?.(`Processing: ${path.basename(progress.currentFile)}`, percent);
+      },
+      onError: (filePath, error) => {
+        this.logger.error(`Failed to process ${filePath}`, error);
+      },
+    });
 
-    // Process each file using indexCode (not indexFile)
-    let processed = 0;
-    for (const file of files) {
-      try {
-        const content = await fs.readFile(file.fsPath, 'utf-8');
-        await this.engine.indexCode(content, file.fsPath);
-        processed++;
-
-        const progress = 10 + (processed / files.length) * 80;
-        progressCallback?.(`Processing: ${path.basename(file.fsPath)}`, progress);
-      } catch (error) {
-        this.logger.error(`Failed to process ${file.fsPath}`, error);
-      }
+    this.logger.info(
+      `Indexed ${summary.blocksIndexed} blocks from ${summary.filesScanned} files in ${Math.round(summary.scanTimeMs)}ms`
+    );
+    if (incremental) {
+      this.logger.info(
+        `${summary.filesUnchanged} files unchanged, ${summary.filesRemoved} removed since last scan`
+      );
     }
 
     progressCallback?.('Saving index...', 95);
@@ -232,7 +250,10 @@ export class NlciService implements vscode.Disposable {
     }
 
     const threshold = this.getThreshold();
-    const result = await this.engine.query(code, { minSimilarity: threshold });
+    const result = await this.engine.query(code, {
+      minSimilarity: threshold,
+      language: (filePath && getLanguageForFile(filePath)) || 'unknown',
+    });
 
     // Filter out results from the same file if requested
     if (filePath) {
@@ -251,8 +272,7 @@ export class NlciService implements vscode.Disposable {
     }
 
     const threshold = this.getThreshold();
-    const clusters = await this.engine.findAllClones({ minSimilarity: threshold });
-    return clustersToResults(clusters);
+    return this.engine.findClonePairs({ minSimilarity: threshold });
   }
 
   /**
@@ -269,20 +289,16 @@ export class NlciService implements vscode.Disposable {
     const threshold = this.getThreshold();
     console.log('[Service] Using threshold:', threshold);
 
-    const allClusters = await this.engine.findAllClones({ minSimilarity: threshold });
-    console.log('[Service] Total clusters found:', allClusters.length);
+    const pairs = await this.engine.findClonePairs({ minSimilarity: threshold });
+    console.log('[Service] Total clone pairs found:', pairs.length);
 
-    // Filter clusters that contain blocks from the specified file
-    const relevantClusters = allClusters.filter((cluster) =>
-      cluster.blocks.some((block) => block.filePath === filePath)
-    );
-    console.log('[Service] Relevant clusters for this file:', relevantClusters.length);
-
-    if (relevantClusters.length > 0) {
-      console.log('[Service] Sample cluster:', JSON.stringify(relevantClusters[0], null, 2));
-    }
+    // Keep pairs with a block in the specified file, with that block as source
+    const relevantPairs = pairs
+      .filter((pair) => pair.source.filePath === filePath || pair.target.filePath === filePath)
+      .map((pair) => orientToFile(pair, filePath));
+    console.log('[Service] Relevant pairs for this file:', relevantPairs.length);
 
-    return clustersToResults(relevantClusters);
+    return relevantPairs;
   }
 
   /**
@@ -293,9 +309,8 @@ export class NlciService implements vscode.Disposable {
       return;
     }
 
-    const content = document.getText();
-    // Re-index the file (note: this adds blocks, doesn't remove old ones)
-    await this.engine.indexCode(content, document.uri.fsPath);
+    // Re-index the file, dropping the blocks from its previous version
+    await this.engine.replaceFile(document.uri.fsPath, document.getText());
   }
 
   /**
@@ -68,6 +68,8 @@ function getReportHtml(clones: CloneResult[]): string {
         <td>${i + 1}</td>
         <td><span class="clone-type ${clone.cloneType}">${getCloneTypeName(clone.cloneType)}</span></td>
         <td>${(clone.similarity * 100).toFixed(1)}%</td>
+        <td>${clone.metrics.sharedTokens}/${clone.metrics.totalTokens}</td>
+        <td>${(clone.metrics.editDistance * 100).toFixed(1)}%</td>
         <td class="file-link" onclick="navigateTo('${escapeHtml(clone.source.filePath)}', ${clone.source.startLine})">${escapeHtml(path.basename(clone.source.filePath))}:${clone.source.startLine}</td>
         <td class="file-link" onclick="navigateTo('${escapeHtml(clone.target.filePath)}', ${clone.target.startLine})">${escapeHtml(path.basename(clone.target.filePath))}:${clone.target.startLine}</td>
       </tr>
@@ -259,6 +261,8 @@ function getReportHtml(clones: CloneResult[]): string {
         <th>#</th>
         <th>Type</th>
         <th>Similarity</th>
+        <th>Shared Tokens</th>
+        <th>Edit Distance</th>
         <th>Source</th>
         <th>Target</th>
       </tr>
@@ -0,0 +1,222 @@
+/**
+ * Tests for ASTEmbedder
+ *
+ * Syntax trees come from a stubbed grammar loader so no WASM is loaded.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import type { GrammarLoader } from '../../parser/tree-sitter/grammar-loader.js';
+import { ASTEmbedder } from '../ast-embedder.js';
+
+/** A syntax tree as `[type, ...children]` */
+type TreeSpec = [string, ...TreeSpec[]];
+
+interface FakeNode {
+  type: string;
+  text: string;
+  namedChildren: FakeNode[];
+}
+
+/**
+ * Builds fake tree-sitter nodes; `text` differs per call to show it is ignored.
+ */
+function createNode([type, ...children]: TreeSpec, text: string): FakeNode {
+  return { type, text, namedChildren: children.map((child) => createNode(child, text)) };
+}
+
+/**
+ * Creates a grammar loader whose parser returns the tree listed for each snippet.
+ */
+function createLoader(trees: Record<string, TreeSpec>) {
+  const deleted: string[] = [];
+  const parser = {
+    parse: (code: string) => ({
+      rootNode: createNode(trees[code], code),
+      delete: () => deleted.push(code),
+    }),
+  };
+  const loader = {
+    isSupported: () => true,
+    getParser: vi.fn(() => Promise.resolve(parser)),
+  };
+  return { loader: loader as unknown as GrammarLoader, getParser: loader.getParser, deleted };
+}
+
+const cosine = (a: Float32Array, b: Float32Array): number =>
+  a.reduce((sum, x, i) => sum + x * b[i], 0);
+
+// function f(a, b) { return a + b; }
+const ADD: TreeSpec = [
+  'program',
+  [
+    'function_declaration',
+    ['identifier'],
+    ['formal_parameters', ['identifier'], ['identifier']],
+    [
+      'statement_block',
+      ['return_statement', ['binary_expression', ['identifier'], ['identifier']]],
+    ],
+  ],
+];
+
+// function f(a, b) { const c = a + b; return c; }
+const ADD_WITH_LOCAL: TreeSpec = [
+  'program',
+  [
+    'function_declaration',
+    ['identifier'],
+    ['formal_parameters', ['identifier'], ['identifier']],
+    [
+      'statement_block',
+      [
+        'lexical_declaration',
+        [
+          'variable_declarator',
+          ['identifier'],
+          ['binary_expression', ['identifier'], ['identifier']],
+        ],
+      ],
+      ['return_statement', ['identifier']],
+    ],
+  ],
+];
+
+// class C { m() {} }
+const CLASS: TreeSpec = [
+  'program',
+  [
+    'class_declaration',
+    ['type_identifier'],
+    ['class_body', ['method_definition', ['property_identifier'], ['formal_parameters']]],
+  ],
+];
+
+describe('ASTEmbedder', () => {
+  const trees = {
+    'function add(a, b) { return a + b; }': ADD,
+    'function sum(x, y) { return x + y; }': ADD,
+    'function add(a, b) { const c = a + b; return c; }': ADD_WITH_LOCAL,
+    'class C { m() {} }': CLASS,
+  };
+
+  describe('embed()', () => {
+    it('should produce unit-length embeddings of the configured dimension', async () => {
+      const embedder = new ASTEmbedder({
+        dimension: 64,
+        grammarLoader: createLoader(trees).loader,
+      });
+
+      const embedding = await embedder.embed('function add(a, b) { return a + b; }', 'typescript');
+
+      expect(embedding.length).toBe(64);
+      expect(cosine(embedding, embedding)).toBeCloseTo(1, 5);
+    });
+
+    it('should embed code with the same syntax tree identically whatever its names', async () => {
+      const embedder = new ASTEmbedder({ grammarLoader: createLoader(trees).loader });
+
+      expect(await embedder.embed('function add(a, b) { return a + b; }')).toEqual(
+        await embedder.embed('function sum(x, y) { return x + y; }')
+      );
+    });
+
+    it('should embed similar structures closer than unrelated ones', async () => {
+      const embedder = new ASTEmbedder({ grammarLoader: createLoader(trees).loader });
+
+      const add = await embedder.embed('function add(a, b) { return a + b; }');
+      const withLocal = await embedder.embed('function add(a, b) { const c = a + b; return c; }');
+      const cls = await embedder.embed('class C { m() {} }');
+
+      expect(cosine(add, withLocal)).toBeLessThan(0.999);
+      expect(cosine(add, withLocal)).toBeGreaterThan(cosine(add, cls));
+    });
+
+    it('should depend on the shape depth', async () => {
+      const { loader } = createLoader(trees);
+      const shallow = new ASTEmbedder({ shapeDepth: 0, grammarLoader: loader });
+      const deep = new ASTEmbedder({ shapeDepth: 3, grammarLoader: loader });
+
+      const code = 'function add(a, b) { return a + b; }';
+      expect(await shallow.embed(code)).not.toEqual(await deep.embed(code));
+      expect(shallow.fingerprint).not.toBe(deep.fingerprint);
+    });
+
+    it('should free each syntax tree', async () => {
+      const { loader, deleted } = createLoader(trees);
+      const embedder = new ASTEmbedder({ grammarLoader: loader });
+
+      await embedder.embedBatch(['class C { m() {} }', 'function add(a, b) { return a + b; }']);
+
+      expect(deleted).toEqual(['class C { m() {} }', 'function add(a, b) { return a + b; }']);
+    });
+
+    it('should load each grammar once and parse unknown code as the default language', async () => {
+      const { loader, getParser } = createLoader(trees);
+      const embedder = new ASTEmbedder({ language: 'javascript', grammarLoader: loader });
+
+      await embedder.embed('class C { m() {} }');
+      await embedder.embed('class C { m() {} }', 'unknown');
+      await embedder.embed('class C { m() {} }', 'javascript');
+
+      expect(getParser).toHaveBeenCalledTimes(1);
+      expect(getParser).toHaveBeenCalledWith('javascript');
+    });
+  });
+
+  describe('without a grammar', () => {
+    const loader = {
+      isSupported: () => true,
+      getParser: () => Promise.reject(new Error('network unavailable')),
+    } as unknown as GrammarLoader;
+
+    it('should embed token structure independently of names', async () => {
+      const embedder = new ASTEmbedder({ grammarLoader: loader });
+
+      const add = await embedder.embed('function add(a, b) { return a + b; }');
+
+      expect(await embedder.embed('function sum(x, y) { return x + y; }')).toEqual(add);
+      expect(await embedder.embed('class C { m() { return 1; } }')).not.toEqual(add);
+    });
+
+    it('should ignore comments', async () => {
+      const embedder = new ASTEmbedder({ grammarLoader: loader });
+
+      expect(await embedder.embed('return a + b; // sum')).toEqual(
+        await embedder.embed('return a + b;')
+      );
+    });
+  });
+
+  describe('embedding modes', () => {
+    const unavailable = {
+      isSupported: () => true,
+      getParser: () => Promise.reject(new Error('network unavailable')),
+    } as unknown as GrammarLoader;
+
+    it('should export the mode each language was embedded in', async () => {
+      const embedder = new ASTEmbedder({ grammarLoader: createLoader(trees).loader });
+      const fallback = new ASTEmbedder({ grammarLoader: unavailable });
+
+      await embedder.embed('class C { m() {} }', 'javascript');
+      await fallback.embed('class C { m() {} }', 'python');
+      await fallback.embed('class C { m() {} }', 'go');
+
+      expect(embedder.exportState()).toEqual({ modes: { javascript: 'tree' } });
+      expect(fallback.exportState()).toEqual({ modes: { go: 'tokens', python: 'tokens' } });
+    });
+
+    it('should report a language whose mode differs from the imported state', async () => {
+      const fallback = new ASTEmbedder({ grammarLoader: unavailable });
+      await fallback.embed('class C { m() {} }', 'javascript');
+
+      const embedder = new ASTEmbedder({ grammarLoader: createLoader(trees).loader });
+      embedder.importState(fallback.exportState());
+
+      expect(await embedder.prepare('javascript')).toBe(false);
+      expect(await embedder.prepare('typescript')).toBe(true);
+      expect(embedder.exportState()).toEqual({
+        modes: { javascript: 'tree', typescript: 'tree' },
+      });
+    });
+  });
+});
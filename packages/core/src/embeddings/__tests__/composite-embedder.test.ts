@@ -0,0 +1,155 @@
+/**
+ * Tests for CompositeEmbedder
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { EmbeddingModel } from '../../engine/indexer.js';
+import { CompositeEmbedder } from '../composite-embedder.js';
+import { TFIDFEmbedder } from '../tfidf-embedder.js';
+
+/**
+ * Creates a model that embeds each snippet as the vector listed for it.
+ */
+function createFixedModel(
+  vectors: Record<string, number[]>,
+  fingerprint = 'fixed'
+): EmbeddingModel {
+  const embed = (code: string) => Promise.resolve(Float32Array.from(vectors[code]));
+  return {
+    dimension: Object.values(vectors)[0].length,
+    fingerprint,
+    embed,
+    embedBatch: (codes) => Promise.all(codes.map(embed)),
+  };
+}
+
+const cosine = (a: Float32Array, b: Float32Array): number => {
+  const dot = a.reduce((sum, x, i) => sum + x * b[i], 0);
+  const norm = (v: Float32Array) => Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+  return dot / (norm(a) * norm(b));
+};
+
+describe('CompositeEmbedder', () => {
+  // Lexically, a and b are the same; structurally, they are unrelated
+  const lexical = createFixedModel({ a: [1, 0, 0, 0], b: [1, 0, 0, 0] }, 'lexical');
+  const structural = createFixedModel({ a: [0, 0, 1, 0], b: [0, 0, 0, 1] }, 'structural');
+
+  describe('weighted sum', () => {
+    it('should add the weighted member embeddings', async () => {
+      const composite = new CompositeEmbedder(
+        [
+          { model: lexical, weight: 3 },
+          { model: structural, weight: 4 },
+        ],
+        { combination: 'weighted-sum' }
+      );
+
+      expect(Array.from(await composite.embed('a'))).toEqual([
+        expect.closeTo(0.6),
+        0,
+        expect.closeTo(0.8),
+        0,
+      ]);
+    });
+
+    it('should normalize each member before weighting unless told not to', async () => {
+      const loud = createFixedModel({ a: [0, 0, 10, 0], b: [0, 0, 0, 10] });
+      const members = (normalize: boolean) => [{ model: lexical }, { model: loud, normalize }];
+
+      const normalized = new CompositeEmbedder(members(true), { combination: 'weighted-sum' });
+      const raw = new CompositeEmbedder(members(false), { combination: 'weighted-sum' });
+
+      expect(cosine(await normalized.embed('a'), await normalized.embed('b'))).toBeCloseTo(0.5);
+      expect(cosine(await raw.embed('a'), await raw.embed('b'))).toBeLessThan(0.02);
+    });
+
+    it('should reject members of another dimension', () => {
+      const wide = createFixedModel({ a: [1, 0, 0, 0, 0, 0] });
+
+      expect(
+        () =>
+          new CompositeEmbedder([{ model: lexical }, { model: wide }], {
+            combination: 'weighted-sum',
+          })
+      ).toThrow(/dimension 4/);
+    });
+  });
+
+  describe('concatenate', () => {
+    it('should project the concatenated embeddings to the configured dimension', async () => {
+      const composite = new CompositeEmbedder([{ model: lexical }, { model: structural }], {
+        dimension: 16,
+      });
+
+      const embedding = await composite.embed('a');
+
+      expect(composite.combination).toBe('concatenate');
+      expect(embedding.length).toBe(16);
+      expect(Math.hypot(...embedding)).toBeCloseTo(1, 5);
+    });
+
+    it('should approximately blend member similarities by squared weight', async () => {
+      const composite = new CompositeEmbedder(
+        [
+          { model: lexical, weight: 2 },
+          { model: structural, weight: 1 },
+        ],
+        { dimension: 512 }
+      );
+
+      // (2² · 1 + 1² · 0) / (2² + 1²)
+      const similarity = cosine(await composite.embed('a'), await composite.embed('b'));
+      expect(Math.abs(similarity - 0.8)).toBeLessThan(0.1);
+    });
+
+    it('should project the same way for the same seed', async () => {
+      const create = (seed: number) =>
+        new CompositeEmbedder([{ model: lexical }, { model: structural }], {
+          dimension: 8,
+          seed,
+        });
+
+      expect(await create(7).embed('a')).toEqual(await create(7).embed('a'));
+      expect(await create(7).embed('a')).not.toEqual(await create(8).embed('a'));
+      expect(create(7).fingerprint).not.toBe(create(8).fingerprint);
+    });
+  });
+
+  it('should embed a batch as it embeds each snippet', async () => {
+    const composite = new CompositeEmbedder([{ model: lexical }, { model: structural }]);
+
+    expect(await composite.embedBatch(['a', 'b'])).toEqual([
+      await composite.embed('a'),
+      await composite.embed('b'),
+    ]);
+  });
+
+  it('should fingerprint the members and their weights', () => {
+    const create = (weight: number) =>
+      new CompositeEmbedder([{ model: lexical }, { model: structural, weight }]);
+
+    expect(create(1).fingerprint).toMatch(/^composite:[0-9a-f]{16}$/);
+    expect(create(1).fingerprint).toBe(create(1).fingerprint);
+    expect(create(1).fingerprint).not.toBe(create(2).fingerprint);
+  });
+
+  it('should reject an empty composite and negative weights', () => {
+    expect(() => new CompositeEmbedder([])).toThrow(/at least one member/);
+    expect(() => new CompositeEmbedder([{ model: lexical, weight: -1 }])).toThrow(/non-negative/);
+  });
+
+  it('should save and restore the state of its members', async () => {
+    const fitted = new TFIDFEmbedder({ dimension: 16 });
+    fitted.fit(['function add(a, b) { return a + b; }', 'class Point { x = 0; }']);
+    const source = new CompositeEmbedder([{ model: fitted }, { model: lexical }]);
+
+    const restored = new TFIDFEmbedder({ dimension: 16 });
+    const target = new CompositeEmbedder([{ model: restored }, { model: lexical }]);
+    target.importState(JSON.parse(JSON.stringify(source.exportState())));
+
+    expect(restored.frozen).toBe(true);
+    expect(await restored.embed('const x = add(1, 2);')).toEqual(
+      await fitted.embed('const x = add(1, 2);')
+    );
+  });
+});
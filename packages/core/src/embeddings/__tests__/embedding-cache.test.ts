@@ -0,0 +1,76 @@
+/**
+ * Tests for EmbeddingCache
+ */
+
+import { describe, expect, it } from 'vitest';
+import { MemoryStorage } from '../../lsh/bucket-store.js';
+import { EmbeddingCache } from '../embedding-cache.js';
+
+const vector = (...values: number[]) => Float32Array.from(values);
+
+describe('EmbeddingCache', () => {
+  it('should return cached embeddings and count hits and misses', () => {
+    const cache = new EmbeddingCache(new MemoryStorage(), 1);
+    cache.set('tfidf:a', 'typescript', 'hash1', vector(1, 2));
+
+    expect(cache.get('tfidf:a', 'typescript', 'hash1')).toEqual(vector(1, 2));
+    expect(cache.get('tfidf:a', 'typescript', 'hash2')).toBeUndefined();
+    expect(cache.get('tfidf:a', 'python', 'hash1')).toBeUndefined();
+    expect(cache.get('tfidf:b', 'typescript', 'hash1')).toBeUndefined();
+
+    expect(cache.getStats()).toMatchObject({ entries: 1, hits: 1, misses: 3 });
+  });
+
+  it('should round-trip entries and counts through storage', async () => {
+    const storage = new MemoryStorage();
+    const original = new EmbeddingCache(storage, 1);
+    original.set('ast:x', 'python', 'hash', vector(0.25, -1.5, 3));
+    original.get('ast:x', 'python', 'hash');
+    original.get('ast:x', 'python', 'other');
+    await original.save();
+
+    const restored = new EmbeddingCache(storage, 1);
+    await restored.load();
+
+    expect(restored.get('ast:x', 'python', 'hash')).toEqual(vector(0.25, -1.5, 3));
+    expect(restored.getStats()).toMatchObject({ entries: 1, hits: 2, misses: 1 });
+  });
+
+  it('should evict the least recently used entries beyond its size', () => {
+    // Each entry is 15 key characters and 8 base64 characters
+    const cache = new EmbeddingCache(new MemoryStorage(), 50 / (1024 * 1024));
+    cache.set('scope', 'go', 'hash-1', vector(1));
+    cache.set('scope', 'go', 'hash-2', vector(2));
+    cache.get('scope', 'go', 'hash-1');
+    cache.set('scope', 'go', 'hash-3', vector(3));
+
+    expect(cache.getStats()).toMatchObject({ entries: 2, sizeBytes: 46 });
+    expect(cache.get('scope', 'go', 'hash-2')).toBeUndefined();
+    expect(cache.get('scope', 'go', 'hash-1')).toEqual(vector(1));
+    expect(cache.get('scope', 'go', 'hash-3')).toEqual(vector(3));
+  });
+
+  it('should keep entries added before loading', async () => {
+    const storage = new MemoryStorage();
+    const saved = new EmbeddingCache(storage, 1);
+    saved.set('scope', 'rust', 'old', vector(1));
+    await saved.save();
+
+    const cache = new EmbeddingCache(storage, 1);
+    cache.set('scope', 'rust', 'new', vector(2));
+    await cache.load();
+
+    expect(cache.get('scope', 'rust', 'old')).toEqual(vector(1));
+    expect(cache.get('scope', 'rust', 'new')).toEqual(vector(2));
+  });
+
+  it('should start empty from a damaged cache', async () => {
+    const storage = new MemoryStorage();
+    await storage.save('embedding-cache', '{ not json');
+
+    const cache = new EmbeddingCache(storage, 1);
+    await cache.load();
+
+    expect(cache.getStats().entries).toBe(0);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Writes the tiny ONNX embedding model used by the ONNXEmbedder tests.
+ *
+ * The model looks up one 8-dimensional vector per token ID (a single Gather
+ * node) and returns them as `last_hidden_state`, like a transformer encoder
+ * without the transformer. Run with `node generate.mjs` after changing the
+ * vocabulary or the dimension.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+
+const DIMENSION = 8;
+const here = new URL('.', import.meta.url);
+const vocab = readFileSync(new URL('vocab.txt', here), 'utf-8').trimEnd().split('\n');
+
+// Protocol buffer wire format
+const varint = (value) => {
+  const bytes = [];
+  let n = BigInt(value);
+  do {
+    let byte = Number(n & 0x7fn);
+    n >>= 7n;
+    if (n > 0n) byte |= 0x80;
+    bytes.push(byte);
+  } while (n > 0n);
+  return Buffer.from(bytes);
+};
+const field = (number, wireType) => varint((number << 3) | wireType);
+const int = (number, value) => Buffer.concat([field(number, 0), varint(value)]);
+const bytes = (number, value) => {
+  const data = Buffer.isBuffer(value) ? value : Buffer.from(value, 'utf-8');
+  return Buffer.concat([field(number, 2), varint(data.length), data]);
+};
+const message = (number, ...parts) => bytes(number, Buffer.concat(parts));
+
+// onnx.proto messages
+const FLOAT = 1;
+const INT64 = 7;
+
+const dim = (value) => message(1, typeof value === 'number' ? int(1, value) : bytes(2, value));
+const valueInfo = (number, name, elemType, shape) =>
+  message(
+    number,
+    bytes(1, name),
+    message(2, message(1, int(1, elemType), message(2, ...shape.map(dim))))
+  );
+
+// Token vectors: [PAD] is zero, others follow a fixed pattern
+const table = new Float32Array(vocab.length * DIMENSION);
+for (let token = 1; token < vocab.length; token++) {
+  for (let i = 0; i < DIMENSION; i++) {
+    table[token * DIMENSION + i] = Math.sin((token + 1) * (i + 1));
+  }
+}
+
+const graph = Buffer.concat([
+  message(
+    1,
+    bytes(1, 'embeddings'),
+    bytes(1, 'input_ids'),
+    bytes(2, 'last_hidden_state'),
+    bytes(3, 'lookup'),
+    bytes(4, 'Gather')
+  ),
+  bytes(2, 'tiny-embedder'),
+  message(
+    5,
+    int(1, vocab.length),
+    int(1, DIMENSION),
+    int(2, FLOAT),
+    bytes(8, 'embeddings'),
+    bytes(9, Buffer.from(table.buffer))
+  ),
+  valueInfo(11, 'input_ids', INT64, ['batch', 'sequence']),
+  valueInfo(11, 'attention_mask', INT64, ['batch', 'sequence']),
+  valueInfo(12, 'last_hidden_state', FLOAT, ['batch', 'sequence', DIMENSION]),
+]);
+
+const model = Buffer.concat([
+  int(1, 8),
+  bytes(2, 'nlci-tests'),
+  message(7, graph),
+  message(8, bytes(1, ''), int(2, 13)),
+]);
+
+writeFileSync(new URL('model.onnx', here), model);
@@ -0,0 +1,67 @@
+/**
+ * Tests for LanguageRoutedEmbedder
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { SupportedLanguage } from '../../types/code-block.js';
+import { LanguageRoutedEmbedder } from '../language-router.js';
+import { TFIDFEmbedder } from '../tfidf-embedder.js';
+
+describe('LanguageRoutedEmbedder', () => {
+  const createRouter = (): LanguageRoutedEmbedder =>
+    new LanguageRoutedEmbedder(() => new TFIDFEmbedder({ dimension: 64 }));
+
+  const tfidfFor = (router: LanguageRoutedEmbedder, language: SupportedLanguage): TFIDFEmbedder =>
+    router.modelFor(language) as TFIDFEmbedder;
+
+  it('should take its dimension and fingerprint from the default model', () => {
+    const router = createRouter();
+    const model = tfidfFor(router, 'typescript');
+
+    expect(router.dimension).toBe(64);
+    expect(router.fingerprint).toBe(`per-language:${model.fingerprint}`);
+    expect(router.languages).toEqual(['typescript']);
+  });
+
+  it('should build one model per language on first use', () => {
+    const router = createRouter();
+
+    expect(router.modelFor('python')).toBe(router.modelFor('python'));
+    expect(router.modelFor('python')).not.toBe(router.modelFor('go'));
+    expect(router.languages).toEqual(['typescript', 'python', 'go']);
+  });
+
+  it('should route code of unknown language to the default language', async () => {
+    const router = createRouter();
+
+    await router.embed('function a() { return 1; }');
+    await router.embed('function b() { return 2; }', 'unknown');
+
+    expect(tfidfFor(router, 'typescript').numDocuments).toBe(2);
+    expect(router.languages).toEqual(['typescript']);
+  });
+
+  it('should only fit the model of the language being embedded', async () => {
+    const router = createRouter();
+
+    await router.embedBatch(['def a(): pass', 'def b(): pass'], 'python');
+
+    expect(tfidfFor(router, 'python').numDocuments).toBe(2);
+    expect(tfidfFor(router, 'typescript').numDocuments).toBe(0);
+  });
+
+  it('should round-trip the state of every model', async () => {
+    const router = createRouter();
+    await router.embed('def add(a, b): return a + b', 'python');
+    await router.embed('fn add(a: i32) -> i32 { a }', 'rust');
+
+    const restored = createRouter();
+    restored.importState(router.exportState());
+
+    expect(restored.languages).toEqual(['typescript', 'python', 'rust']);
+    expect(tfidfFor(restored, 'python').vocabSize).toBe(tfidfFor(router, 'python').vocabSize);
+    expect(await restored.embed('fn sub(a: i32) -> i32 { a }', 'rust')).toEqual(
+      await router.embed('fn sub(a: i32) -> i32 { a }', 'rust')
+    );
+  });
+});
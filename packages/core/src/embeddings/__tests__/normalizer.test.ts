@@ -0,0 +1,95 @@
+/**
+ * Tests for language-aware code normalization
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { createCodeBlock } from '../../types/code-block.js';
+import { normalizeCode, registerNormalizer } from '../normalizer.js';
+
+describe('normalizeCode()', () => {
+  afterEach(() => {
+    registerNormalizer('sql', undefined);
+  });
+
+  it('should strip comments and collapse whitespace', () => {
+    const code = `function add(a, b) {
+      // sum the values
+      return a + b; /* done */
+    }`;
+
+    expect(normalizeCode(code, 'typescript')).toBe('function add(a, b) { return a + b; }');
+  });
+
+  it('should keep Python floor division and strip # comments', () => {
+    expect(normalizeCode('half = total // 2  # rounded down', 'python')).toBe('half = total // 2');
+  });
+
+  it('should keep URLs inside strings', () => {
+    expect(normalizeCode('const url = "https://example.com/*path*/";', 'javascript')).toBe(
+      'const url = "https://example.com/*path*/";'
+    );
+  });
+
+  it('should keep whitespace inside strings', () => {
+    expect(normalizeCode('print("a   b")', 'python')).toBe('print("a   b")');
+  });
+
+  it('should strip SQL comments', () => {
+    expect(normalizeCode('SELECT a -- the id\nFROM t', 'sql')).toBe('SELECT a FROM t');
+  });
+
+  it('should separate tokens that a comment divided', () => {
+    expect(normalizeCode('a/* gap */b', 'c')).toBe('a b');
+  });
+
+  it('should abstract identifiers and literals on request', () => {
+    const code = 'const total = price * 2 + "tax";';
+
+    expect(normalizeCode(code, 'typescript', { abstractIdentifiers: true })).toBe(
+      'const IDENTIFIER = IDENTIFIER * 2 + "tax";'
+    );
+    expect(normalizeCode(code, 'typescript', { abstractLiterals: true })).toBe(
+      'const total = price * NUMBER + STRING_LITERAL;'
+    );
+  });
+
+  it('should make renamed code equal under identifier abstraction', () => {
+    const options = { abstractIdentifiers: true };
+
+    expect(normalizeCode('let sum = x + y;', 'typescript', options)).toBe(
+      normalizeCode('let total = first + second;', 'typescript', options)
+    );
+  });
+
+  it('should number identifiers by first appearance in positional mode', () => {
+    const options = { abstractIdentifiers: 'positional', abstractLiterals: true } as const;
+
+    expect(normalizeCode('total = price * total + 1;', 'typescript', options)).toBe(
+      '$1 = $2 * $1 + NUMBER;'
+    );
+    expect(normalizeCode('let sum = x + y;', 'typescript', options)).toBe(
+      normalizeCode('let total = first + second;', 'typescript', options)
+    );
+    expect(normalizeCode('let sum = x + x;', 'typescript', options)).not.toBe(
+      normalizeCode('let sum = x + y;', 'typescript', options)
+    );
+  });
+
+  it('should use a registered normalizer', () => {
+    registerNormalizer('sql', (content) => content.toUpperCase());
+
+    expect(normalizeCode('select 1', 'sql')).toBe('SELECT 1');
+
+    registerNormalizer('sql', undefined);
+    expect(normalizeCode('select 1', 'sql')).toBe('select 1');
+  });
+
+  it('should drive normalizedContent and contentHash of code blocks', () => {
+    const block = (content: string) =>
+      createCodeBlock({ filePath: 'a.py', startLine: 1, endLine: 1, content, language: 'python' });
+
+    expect(block('x = a // b').normalizedContent).toBe('x = a // b');
+    expect(block('x = a // b  # note').contentHash).toBe(block('x = a // b').contentHash);
+    expect(block('x = a // c').contentHash).not.toBe(block('x = a // b').contentHash);
+  });
+});
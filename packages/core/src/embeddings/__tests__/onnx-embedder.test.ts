@@ -0,0 +1,198 @@
+/**
+ * Tests for ONNXEmbedder, using the tiny model in fixtures/tiny-onnx
+ *
+ * onnxruntime-node loads in only one test worker thread, so every test that
+ * runs a model, including the engine's ONNX tests, lives in this file.
+ */
+
+import { copyFile, mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { NLCIEngine } from '../../engine/nlci-engine.js';
+import { ONNXEmbedder, ONNXModelError, type ONNXEmbedderConfig } from '../onnx-embedder.js';
+
+const MODEL_PATH = join(__dirname, 'fixtures', 'tiny-onnx', 'model.onnx');
+
+describe('ONNXEmbedder', () => {
+  const embedders: ONNXEmbedder[] = [];
+
+  const createEmbedder = (config: Partial<ONNXEmbedderConfig> = {}): ONNXEmbedder => {
+    const embedder = new ONNXEmbedder({ modelPath: MODEL_PATH, dimension: 8, ...config });
+    embedders.push(embedder);
+    return embedder;
+  };
+
+  const norm = (vector: Float32Array): number =>
+    Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+
+  afterEach(async () => {
+    await Promise.all(embedders.splice(0).map((embedder) => embedder.dispose()));
+  });
+
+  describe('embed()', () => {
+    it('should produce unit-length embeddings of the configured dimension', async () => {
+      const embedding = await createEmbedder().embed('function add(a, b) { return a + b; }');
+
+      expect(embedding.length).toBe(8);
+      expect(norm(embedding)).toBeCloseTo(1, 5);
+    });
+
+    it('should leave embeddings unnormalized when asked to', async () => {
+      const embedding = await createEmbedder({ normalize: false }).embed('add(a, b)');
+
+      expect(norm(embedding)).not.toBeCloseTo(1, 5);
+    });
+
+    it('should embed the same code identically and different code differently', async () => {
+      const embedder = createEmbedder();
+
+      const first = await embedder.embed('return a + b;');
+      expect(await embedder.embed('return a + b;')).toEqual(first);
+      expect(await embedder.embed('const total = x * y;')).not.toEqual(first);
+    });
+
+    it('should ignore padding when pooling', async () => {
+      const short = createEmbedder({ maxSequenceLength: 16 });
+      const long = createEmbedder({ maxSequenceLength: 64 });
+
+      const code = 'let sum = a + b;';
+      const [a, b] = [await short.embed(code), await long.embed(code)];
+      a.forEach((value, i) => expect(value).toBeCloseTo(b[i], 5));
+    });
+
+    it('should truncate code longer than maxSequenceLength', async () => {
+      const embedder = createEmbedder({ maxSequenceLength: 4 });
+
+      expect(await embedder.embed('function add(a)')).toEqual(
+        await embedder.embed('function add(b) { return b; }')
+      );
+    });
+  });
+
+  describe('embedBatch()', () => {
+    it('should match embed() across batch boundaries', async () => {
+      const embedder = createEmbedder({ batchSize: 2 });
+      const codes = ['add(a)', 'return x;', 'const y = 1;', 'if (a) { b; }', 'multiply(x, y)'];
+
+      const batch = await embedder.embedBatch(codes);
+
+      expect(batch).toHaveLength(codes.length);
+      for (let i = 0; i < codes.length; i++) {
+        Array.from(await embedder.embed(codes[i])).forEach((value, d) =>
+          expect(batch[i][d]).toBeCloseTo(value, 5)
+        );
+      }
+    });
+  });
+
+  describe('load()', () => {
+    it('should reject a model whose output does not match the dimension', async () => {
+      const embedder = createEmbedder({ dimension: 16 });
+
+      await expect(embedder.load()).rejects.toThrow(ONNXModelError);
+      await expect(embedder.embed('add(a)')).rejects.toThrow(/8-dimensional/);
+    });
+
+    it('should reject a missing model file', async () => {
+      const embedder = createEmbedder({ modelPath: join(__dirname, 'missing.onnx') });
+
+      await expect(embedder.load()).rejects.toThrow(ONNXModelError);
+    });
+
+    it('should reject a missing vocabulary file', async () => {
+      const embedder = createEmbedder({ vocabPath: join(__dirname, 'missing.txt') });
+
+      await expect(embedder.load()).rejects.toThrow(/missing\.txt/);
+    });
+
+    it('should load again after dispose()', async () => {
+      const embedder = createEmbedder();
+      const before = await embedder.embed('add(a)');
+
+      await embedder.dispose();
+
+      expect(await embedder.embed('add(a)')).toEqual(before);
+    });
+  });
+
+  describe('fingerprint', () => {
+    let root: string;
+
+    beforeAll(async () => {
+      root = await mkdtemp(join(tmpdir(), 'nlci-onnx-'));
+    });
+
+    afterAll(async () => {
+      await rm(root, { recursive: true, force: true });
+    });
+
+    it('should fingerprint the settings that change embeddings', () => {
+      expect(createEmbedder().fingerprint).toMatch(/^onnx:[0-9a-f]{16}$/);
+      expect(createEmbedder().fingerprint).toBe(createEmbedder().fingerprint);
+      expect(createEmbedder({ maxSequenceLength: 128 }).fingerprint).not.toBe(
+        createEmbedder().fingerprint
+      );
+      expect(createEmbedder({ normalize: false }).fingerprint).not.toBe(
+        createEmbedder().fingerprint
+      );
+      expect(createEmbedder({ batchSize: 2 }).fingerprint).toBe(createEmbedder().fingerprint);
+    });
+
+    it('should fingerprint the files by content, not path', async () => {
+      const moved = join(root, 'moved');
+      await mkdir(moved);
+      await copyFile(MODEL_PATH, join(moved, 'model.onnx'));
+      await copyFile(join(dirname(MODEL_PATH), 'vocab.txt'), join(moved, 'vocab.txt'));
+
+      const changed = join(root, 'changed');
+      await mkdir(changed);
+      await copyFile(MODEL_PATH, join(changed, 'model.onnx'));
+      await writeFile(join(changed, 'vocab.txt'), '[PAD]\n[UNK]\n[CLS]\n[SEP]\n');
+
+      const fingerprint = createEmbedder().fingerprint;
+      expect(createEmbedder({ modelPath: join(moved, 'model.onnx') }).fingerprint).toBe(
+        fingerprint
+      );
+      expect(createEmbedder({ modelPath: join(changed, 'model.onnx') }).fingerprint).not.toBe(
+        fingerprint
+      );
+    });
+
+    it('should throw ONNXModelError for a missing model file', () => {
+      const embedder = createEmbedder({ modelPath: join(root, 'missing.onnx') });
+
+      expect(() => embedder.fingerprint).toThrow(ONNXModelError);
+    });
+  });
+});
+
+describe('NLCIEngine with modelType onnx', () => {
+  it('should embed with the local model', async () => {
+    const engine = new NLCIEngine({
+      lsh: { dimension: 8 },
+      embedding: { modelType: 'onnx', modelPath: MODEL_PATH, maxSequenceLength: 32 },
+      parser: { minBlockSize: 1 },
+    });
+
+    await engine.indexCode('function add(a, b) { return a + b; }', 'add.ts');
+    await engine.indexCode('function total(x) { let y = x * 2; return y; }', 'total.ts');
+
+    const results = await engine.query('function add(a, b) { return a + b; }', {
+      minSimilarity: 0.99,
+    });
+    expect(results.clones.map((clone) => clone.target.filePath)).toEqual(['add.ts']);
+  });
+
+  it('should reject a model whose output does not match lsh.dimension', async () => {
+    const engine = new NLCIEngine({
+      lsh: { dimension: 64 },
+      embedding: { modelType: 'onnx', modelPath: MODEL_PATH },
+      parser: { minBlockSize: 1 },
+    });
+
+    await expect(
+      engine.indexCode('function add(a, b) { return a + b; }', 'add.ts')
+    ).rejects.toThrow(/8-dimensional/);
+  });
+});
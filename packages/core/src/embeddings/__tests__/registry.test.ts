@@ -0,0 +1,110 @@
+/**
+ * Tests for the embedding model registry and plugin loading
+ */
+
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { MockEmbeddingModel } from '../../engine/indexer.js';
+import { DEFAULT_CONFIG } from '../../types/config.js';
+import {
+  EmbedderPluginError,
+  getEmbedder,
+  listEmbedders,
+  loadEmbedderPlugins,
+  registerEmbedder,
+} from '../registry.js';
+
+describe('registerEmbedder()', () => {
+  afterEach(() => {
+    registerEmbedder('custom', undefined);
+  });
+
+  it('should register and unregister a factory by name', () => {
+    const factory = ({ dimension }: { dimension: number }) => new MockEmbeddingModel(dimension);
+
+    registerEmbedder('custom', factory);
+    expect(getEmbedder('custom')).toBe(factory);
+    expect(listEmbedders()).toContain('custom');
+
+    registerEmbedder('custom', undefined);
+    expect(getEmbedder('custom')).toBeUndefined();
+  });
+
+  it('should refuse to replace a built-in model', () => {
+    expect(() => registerEmbedder('tfidf', () => new MockEmbeddingModel())).toThrow(/built-in/);
+  });
+});
+
+describe('loadEmbedderPlugins()', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'nlci-plugins-'));
+    await writeFile(
+      join(root, 'esm-plugin.mjs'),
+      `export default (register) => {
+        register('esm-model', ({ dimension }) => ({
+          dimension,
+          embed: async () => new Float32Array(dimension).fill(1),
+          embedBatch: async (codes) => codes.map(() => new Float32Array(dimension).fill(1)),
+        }));
+      };\n`
+    );
+    await writeFile(
+      join(root, 'cjs-plugin.cjs'),
+      `module.exports = async (register) => {
+        register('cjs-model', ({ dimension }) => ({ dimension }));
+      };\n`
+    );
+    await writeFile(join(root, 'no-export.mjs'), 'export const name = "nothing";\n');
+    await writeFile(
+      join(root, 'throws.mjs'),
+      `export default () => { throw new Error('missing API key'); };\n`
+    );
+
+    // An installed package, resolved from the base directory
+    const pkg = join(root, 'node_modules', 'nlci-embedder-package');
+    await mkdir(pkg, { recursive: true });
+    await writeFile(
+      join(pkg, 'package.json'),
+      '{ "name": "nlci-embedder-package", "main": "index.cjs" }'
+    );
+    await writeFile(
+      join(pkg, 'index.cjs'),
+      `module.exports = (register) => register('package-model', () => ({ dimension: 8 }));\n`
+    );
+  });
+
+  afterAll(async () => {
+    for (const name of ['esm-model', 'cjs-model', 'package-model']) {
+      registerEmbedder(name, undefined);
+    }
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should let ES module and CommonJS plugins register embedders', async () => {
+    await loadEmbedderPlugins(['./esm-plugin.mjs', join(root, 'cjs-plugin.cjs')], root);
+
+    const model = getEmbedder('esm-model')!({ dimension: 4, config: DEFAULT_CONFIG });
+    expect(Array.from(await model.embed('x'))).toEqual([1, 1, 1, 1]);
+    expect(getEmbedder('cjs-model')).toBeDefined();
+  });
+
+  it('should resolve package names from the base directory', async () => {
+    await loadEmbedderPlugins(['nlci-embedder-package'], root);
+
+    expect(getEmbedder('package-model')).toBeDefined();
+  });
+
+  it('should report plugins that cannot be loaded', async () => {
+    await expect(loadEmbedderPlugins(['./missing.mjs'], root)).rejects.toThrow(EmbedderPluginError);
+    await expect(loadEmbedderPlugins(['./no-export.mjs'], root)).rejects.toThrow(
+      /must export a function/
+    );
+    await expect(loadEmbedderPlugins(['./throws.mjs'], root)).rejects.toThrow(
+      'Embedder plugin ./throws.mjs: missing API key'
+    );
+  });
+});
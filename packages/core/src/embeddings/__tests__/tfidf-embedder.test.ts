@@ -150,6 +150,124 @@ describe('TFIDFEmbedder', () => {
     });
   });
 
+  describe('termFrequencies() / embedTermFrequencies()', () => {
+    it('should not change model state when extracting terms', () => {
+      const terms = embedder.termFrequencies('function add(a, b) { return a + b; }');
+
+      expect(terms.size).toBeGreaterThan(0);
+      expect(embedder.numDocuments).toBe(0);
+      expect(embedder.vocabSize).toBe(0);
+    });
+
+    it('should match embed() when applied in the same order', async () => {
+      const codes = ['function a() { return 1; }', 'const b = (x) => x * 2;'];
+      const staged = new TFIDFEmbedder({ dimension: 384 });
+
+      for (const code of codes) {
+        const expected = await embedder.embed(code);
+        const actual = staged.embedTermFrequencies(staged.termFrequencies(code));
+        expect(Array.from(actual)).toEqual(Array.from(expected));
+      }
+      expect(staged.exportState()).toEqual(embedder.exportState());
+    });
+  });
+
+  describe('fit() / partialFit() / freeze()', () => {
+    const corpus = [
+      'function add(a, b) { return a + b; }',
+      'function multiply(a, b) { return a * b; }',
+      'class Counter { increment() { this.count++; } }',
+    ];
+
+    it('should fit the corpus and freeze', () => {
+      embedder.fit(corpus);
+
+      expect(embedder.numDocuments).toBe(3);
+      expect(embedder.frozen).toBe(true);
+    });
+
+    it('should not learn from embeddings once frozen', async () => {
+      embedder.fit(corpus);
+      const before = embedder.exportState();
+
+      await embedder.embed('const unseen = somethingNew();');
+
+      expect(embedder.exportState()).toEqual(before);
+    });
+
+    it('should embed the same code identically whatever is embedded in between', async () => {
+      embedder.fit(corpus);
+      const first = await embedder.embed(corpus[0]);
+
+      for (const code of corpus) await embedder.embed(code);
+
+      expect(await embedder.embed(corpus[0])).toEqual(first);
+    });
+
+    it('should match fit() when streamed with partialFit()', async () => {
+      const streamed = new TFIDFEmbedder({ dimension: 384 });
+      for (const code of corpus) streamed.partialFit(code);
+      streamed.freeze();
+      embedder.fit(corpus);
+
+      expect(await streamed.embed(corpus[1])).toEqual(await embedder.embed(corpus[1]));
+    });
+
+    it('should replace the previous fit', () => {
+      embedder.fit(corpus);
+      embedder.fit(corpus.slice(0, 1));
+
+      expect(embedder.numDocuments).toBe(1);
+    });
+
+    it('should keep the frozen state through export and import', async () => {
+      embedder.fit(corpus);
+      const restored = new TFIDFEmbedder({ dimension: 384 });
+      restored.importState(JSON.parse(JSON.stringify(embedder.exportState())));
+
+      expect(restored.frozen).toBe(true);
+      expect(await restored.embed(corpus[2])).toEqual(await embedder.embed(corpus[2]));
+    });
+
+    it('should import state saved without the frozen flag unfrozen', async () => {
+      embedder.fit(corpus);
+      const { frozen: _frozen, ...state } = embedder.exportState();
+      const restored = new TFIDFEmbedder({ dimension: 384 });
+      restored.importState(JSON.parse(JSON.stringify(state)));
+
+      expect(restored.frozen).toBe(false);
+      await restored.embed(corpus[2]);
+      expect(restored.numDocuments).toBe(corpus.length + 1);
+    });
+
+    it('should unfreeze on reset()', () => {
+      embedder.fit(corpus);
+      embedder.reset();
+
+      expect(embedder.frozen).toBe(false);
+    });
+  });
+
+  describe("'abstract' tokenizer mode", () => {
+    it('should embed consistently renamed code identically', async () => {
+      const abstract = new TFIDFEmbedder({ tokenizerMode: 'abstract' });
+      abstract.fit(['function add(a, b) { return a + b; }', 'const x = 1;']);
+
+      expect(await abstract.embed('function sum(x, y) { return x + y; }')).toEqual(
+        await abstract.embed('function plus(left, right) { return left + right; }')
+      );
+    });
+
+    it('should fingerprint the tokenizer mode', () => {
+      expect(new TFIDFEmbedder({ tokenizerMode: 'split' }).fingerprint).toBe(
+        new TFIDFEmbedder().fingerprint
+      );
+      expect(new TFIDFEmbedder({ tokenizerMode: 'abstract' }).fingerprint).not.toBe(
+        new TFIDFEmbedder().fingerprint
+      );
+    });
+  });
+
   describe('vocabSize property', () => {
     it('should start at 0', () => {
       const e = new TFIDFEmbedder();
@@ -274,6 +392,14 @@ describe('TFIDFEmbedder', () => {
       const embedding = await embedder.embed(code);
       expect(embedding.length).toBe(384);
     });
+
+    it('should tokenize with the syntax of the language passed in', () => {
+      const code = 'total = count // size';
+
+      expect(embedder.termFrequencies(code, 'python').has('identifier:size')).toBe(true);
+      expect(embedder.termFrequencies(code, 'typescript').has('identifier:size')).toBe(false);
+      expect(embedder.termFrequencies(code, 'unknown')).toEqual(embedder.termFrequencies(code));
+    });
   });
 });
 
@@ -228,6 +228,89 @@ describe('CodeTokenizer', () => {
   });
 });
 
+describe("CodeTokenizer in 'abstract' mode", () => {
+  const values = (code: string, language: 'typescript' | 'python' = 'typescript') =>
+    new CodeTokenizer(language, { mode: 'abstract' }).tokenize(code).map((t) => t.value);
+
+  it('should replace identifiers with placeholders in first-seen order', () => {
+    expect(values('total = price + total * rate')).toEqual(['$1', '=', '$2', '+', '$1', '*', '$3']);
+  });
+
+  it('should tag literals by type and drop comments', () => {
+    expect(values('send("hi", 42) // retry')).toEqual([
+      '$1',
+      '(',
+      'STRING_LITERAL',
+      ',',
+      'NUMBER',
+      ')',
+    ]);
+  });
+
+  it('should tokenize consistently renamed code identically', () => {
+    const original = 'def area(width, height):\n    return width * height * 0.5';
+    const renamed = 'def tri(b, h):  # triangle\n    return b * h * 2.0';
+
+    expect(values(renamed, 'python')).toEqual(values(original, 'python'));
+  });
+
+  it('should tell apart code that reuses names differently', () => {
+    expect(values('x = a + a')).not.toEqual(values('x = a + b'));
+  });
+
+  it('should keep split mode as the default', () => {
+    expect(new CodeTokenizer().mode).toBe('split');
+    expect(new CodeTokenizer().tokenize('getUserName').map((t) => t.value)).toEqual([
+      'get',
+      'user',
+      'name',
+    ]);
+  });
+});
+
+describe('CodeTokenizer.lex()', () => {
+  const texts = (language: 'typescript' | 'python' | 'sql' | 'lua', code: string) =>
+    new CodeTokenizer(language).lex(code).map((l) => `${l.type}:${l.text}`);
+
+  it('should keep lexemes as written with their positions', () => {
+    const lexemes = new CodeTokenizer('typescript').lex('const userName = "x";');
+
+    expect(lexemes.map((l) => l.text)).toEqual(['const', 'userName', '=', '"x"', ';']);
+    expect(lexemes[1]).toEqual({ text: 'userName', type: 'identifier', position: 6 });
+  });
+
+  it('should not treat // as a comment in Python', () => {
+    expect(texts('python', 'a // b # half')).toEqual([
+      'identifier:a',
+      'operator:/',
+      'operator:/',
+      'identifier:b',
+      'comment:# half',
+    ]);
+  });
+
+  it('should not treat # as a comment in TypeScript', () => {
+    expect(texts('typescript', 'this.#count')).not.toContain('comment:#count');
+  });
+
+  it('should leave comment markers inside strings alone', () => {
+    expect(texts('typescript', 'fetch("http://example.com")')).toContain(
+      'string:"http://example.com"'
+    );
+  });
+
+  it('should lex triple-quoted Python strings whole', () => {
+    expect(texts('python', '"""doc\n# not a comment"""')).toEqual([
+      'string:"""doc\n# not a comment"""',
+    ]);
+  });
+
+  it('should follow SQL and Lua comment syntax', () => {
+    expect(texts('sql', 'SELECT 1 -- note')).toContain('comment:-- note');
+    expect(texts('lua', 'x = 1 --[[ a\nb ]] y')).toContain('comment:--[[ a\nb ]]');
+  });
+});
+
 describe('KEYWORDS', () => {
   it('should have TypeScript keywords', () => {
     expect(KEYWORDS['typescript']).toBeDefined();
@@ -0,0 +1,60 @@
+/**
+ * Tests for WordPieceTokenizer
+ */
+
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { WordPieceTokenizer } from '../wordpiece-tokenizer.js';
+
+const VOCAB = ['[PAD]', '[UNK]', '[CLS]', '[SEP]', '(', ')', 'calc', '##ulate', '##s', 'add', 'a'];
+
+describe('WordPieceTokenizer', () => {
+  const tokenizer = new WordPieceTokenizer(VOCAB);
+
+  describe('tokenize()', () => {
+    it('should split punctuation into separate words', () => {
+      expect(tokenizer.tokenize('add(a)')).toEqual(['add', '(', 'a', ')']);
+    });
+
+    it('should split words into the longest vocabulary pieces', () => {
+      expect(tokenizer.tokenize('calculates')).toEqual(['calc', '##ulate', '##s']);
+    });
+
+    it('should map words it cannot cover to [UNK]', () => {
+      expect(tokenizer.tokenize('add zzz')).toEqual(['add', '[UNK]']);
+    });
+
+    it('should lowercase unless told not to', () => {
+      expect(tokenizer.tokenize('ADD')).toEqual(['add']);
+      expect(new WordPieceTokenizer(VOCAB, { lowercase: false }).tokenize('ADD')).toEqual([
+        '[UNK]',
+      ]);
+    });
+  });
+
+  describe('encode()', () => {
+    it('should wrap tokens in [CLS] and [SEP] and pad to the length', () => {
+      expect(tokenizer.encode('add(a)', 8)).toEqual({
+        inputIds: [2, 9, 4, 10, 5, 3, 0, 0],
+        attentionMask: [1, 1, 1, 1, 1, 1, 0, 0],
+      });
+    });
+
+    it('should truncate tokens to fit the special tokens', () => {
+      expect(tokenizer.encode('add(a)', 4).inputIds).toEqual([2, 9, 4, 3]);
+    });
+  });
+
+  it('should require the special tokens', () => {
+    expect(() => new WordPieceTokenizer(['a', 'b'])).toThrow(/\[PAD\]/);
+  });
+
+  it('should load a vocabulary file', async () => {
+    const loaded = await WordPieceTokenizer.fromFile(
+      join(__dirname, 'fixtures', 'tiny-onnx', 'vocab.txt')
+    );
+
+    expect(loaded.vocabSize).toBe(37);
+    expect(loaded.tokenize('function add')).toEqual(['function', 'add']);
+  });
+});
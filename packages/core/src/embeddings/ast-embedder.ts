@@ -0,0 +1,318 @@
+/**
+ * @nlci/core - AST Structural Embedding Model
+ *
+ * Embeds code by the shape of its tree-sitter syntax tree rather than its
+ * vocabulary, so clones that rename identifiers or change literals (type-2
+ * and many type-3/type-4 clones) land in the same LSH buckets.
+ */
+
+import { createHash } from 'crypto';
+import type { Node, Parser } from 'web-tree-sitter';
+
+import type { EmbeddingModel } from '../engine/indexer.js';
+import { defaultGrammarLoader, type GrammarLoader } from '../parser/tree-sitter/grammar-loader.js';
+import type { SupportedLanguage } from '../types/code-block.js';
+import { CodeTokenizer, type Token } from './tokenizer.js';
+
+/**
+ * Configuration for the AST embedding model.
+ */
+export interface ASTEmbedderConfig {
+  /** Embedding dimension (default: 384) */
+  dimension?: number;
+
+  /** Grammar loader used to parse code (default: shared instance) */
+  grammarLoader?: GrammarLoader;
+
+  /** Language assumed for code whose language is not known (default: 'typescript') */
+  language?: SupportedLanguage;
+
+  /** Longest ancestor path, in node types, hashed for each node (default: 3) */
+  pathLength?: number;
+
+  /** Depth of the subtree shape hashed for each node (default: 2) */
+  shapeDepth?: number;
+
+  /** Longest token-type n-gram used when no grammar is available (default: 3) */
+  ngramSize?: number;
+}
+
+/**
+ * How a language is embedded: from its syntax tree, or from token types
+ * when its grammar cannot be loaded.
+ */
+export type ASTEmbeddingMode = 'tree' | 'tokens';
+
+/**
+ * State exported by the AST embedder: the mode each language was embedded in.
+ */
+interface ASTState {
+  modes: Partial<Record<SupportedLanguage, ASTEmbeddingMode>>;
+}
+
+/**
+ * Default AST embedder configuration.
+ */
+const DEFAULT_CONFIG: Required<Omit<ASTEmbedderConfig, 'grammarLoader'>> = {
+  dimension: 384,
+  language: 'typescript',
+  pathLength: 3,
+  shapeDepth: 2,
+  ngramSize: 3,
+};
+
+/**
+ * Embedding model that hashes syntax-tree structure into a fixed-size vector.
+ *
+ * For every named node of the tree-sitter syntax tree it counts:
+ * - node-type paths: the node's type with up to `pathLength - 1` ancestor
+ *   types (`if_statement>binary_expression`)
+ * - subtree shapes: the node's type and those of its named descendants down
+ *   to `shapeDepth` levels (`return_statement(binary_expression(identifier,identifier))`)
+ *
+ * Node text is never used, so renaming identifiers does not change the
+ * embedding. Counts are scaled sub-linearly and hashed into `dimension` signed
+ * buckets (the hashing trick), then normalized to unit length.
+ *
+ * Languages whose grammar cannot be loaded fall back to n-grams of
+ * CodeTokenizer token types, with identifiers and literals abstracted, which
+ * keeps the embedding independent of naming. The two kinds of embedding are
+ * not comparable, so the mode each language was embedded in is part of the
+ * exported state, and prepare() reports a language whose mode has changed
+ * since that state was saved (say, after its grammar was fetched).
+ */
+export class ASTEmbedder implements EmbeddingModel {
+  readonly dimension: number;
+  readonly fingerprint: string;
+
+  private readonly config: Required<Omit<ASTEmbedderConfig, 'grammarLoader'>>;
+  private readonly loader: GrammarLoader;
+
+  // Parser per language, or null when its grammar is unavailable
+  private readonly parsers = new Map<SupportedLanguage, Promise<Parser | null>>();
+
+  // Tokenizers for languages without a grammar, built on first use
+  private readonly tokenizers = new Map<SupportedLanguage, CodeTokenizer>();
+
+  // Mode of each language whose grammar was checked, and the modes of imported state
+  private readonly modes = new Map<SupportedLanguage, ASTEmbeddingMode>();
+  private importedModes: ASTState['modes'] = {};
+
+  constructor(config: ASTEmbedderConfig = {}) {
+    this.config = {
+      dimension: config.dimension ?? DEFAULT_CONFIG.dimension,
+      language: config.language ?? DEFAULT_CONFIG.language,
+      pathLength: config.pathLength ?? DEFAULT_CONFIG.pathLength,
+      shapeDepth: config.shapeDepth ?? DEFAULT_CONFIG.shapeDepth,
+      ngramSize: config.ngramSize ?? DEFAULT_CONFIG.ngramSize,
+    };
+    this.loader = config.grammarLoader ?? defaultGrammarLoader;
+    this.dimension = this.config.dimension;
+    this.fingerprint = `ast:${createHash('sha256')
+      .update(JSON.stringify(this.config))
+      .digest('hex')
+      .slice(0, 16)}`;
+  }
+
+  /**
+   * Generate embedding for code, parsed as `language`.
+   */
+  async embed(code: string, language?: SupportedLanguage): Promise<Float32Array> {
+    const lang = this.languageOf(language);
+    const parser = await this.parserFor(lang);
+    const features = parser ? this.treeFeatures(parser, code) : this.tokenFeatures(code, lang);
+    return this.hashFeatures(features);
+  }
+
+  /**
+   * Generate embeddings for multiple code snippets in one language.
+   */
+  async embedBatch(codes: string[], language?: SupportedLanguage): Promise<Float32Array[]> {
+    const embeddings: Float32Array[] = [];
+    for (const code of codes) {
+      embeddings.push(await this.embed(code, language));
+    }
+    return embeddings;
+  }
+
+  /**
+   * Check whether a language's grammar loads, and so which mode embeds it.
+   *
+   * @returns false if the imported state recorded the other mode
+   */
+  async prepare(language: SupportedLanguage): Promise<boolean> {
+    const lang = this.languageOf(language);
+    const mode: ASTEmbeddingMode = (await this.parserFor(lang)) ? 'tree' : 'tokens';
+    return (this.importedModes[lang] ?? mode) === mode;
+  }
+
+  /**
+   * Export the mode of every language embedded or imported.
+   */
+  exportState(): ASTState {
+    const modes = { ...this.importedModes, ...Object.fromEntries(this.modes) };
+    return {
+      modes: Object.fromEntries(
+        Object.entries(modes).sort(([a], [b]) => a.localeCompare(b))
+      ) as ASTState['modes'],
+    };
+  }
+
+  /**
+   * Import state returned by exportState().
+   */
+  importState(state: unknown): void {
+    this.importedModes = { ...(state as ASTState).modes };
+  }
+
+  /**
+   * Resolve the language code is parsed as.
+   */
+  private languageOf(language: SupportedLanguage | undefined): SupportedLanguage {
+    return !language || language === 'unknown' ? this.config.language : language;
+  }
+
+  /**
+   * Get the parser for a language, checking once whether its grammar loads.
+   */
+  private parserFor(language: SupportedLanguage): Promise<Parser | null> {
+    let parser = this.parsers.get(language);
+    if (!parser) {
+      parser = (
+        this.loader.isSupported(language)
+          ? this.loader.getParser(language).catch(() => null)
+          : Promise.resolve(null)
+      ).then((loaded) => {
+        this.modes.set(language, loaded ? 'tree' : 'tokens');
+        return loaded;
+      });
+      this.parsers.set(language, parser);
+    }
+    return parser;
+  }
+
+  /**
+   * Count the path and shape features of code's syntax tree.
+   */
+  private treeFeatures(parser: Parser, code: string): Map<string, number> {
+    const features = new Map<string, number>();
+    const tree = parser.parse(code);
+    if (!tree) return features;
+
+    try {
+      // Iterative walk: deeply nested code must not overflow the stack
+      const stack: Array<{ node: Node; ancestors: string[] }> = [
+        { node: tree.rootNode, ancestors: [] },
+      ];
+
+      while (stack.length > 0) {
+        const { node, ancestors } = stack.pop()!;
+        const path = [...ancestors, node.type];
+
+        for (let length = 1; length <= Math.min(this.config.pathLength, path.length); length++) {
+          addFeature(features, `path:${path.slice(-length).join('>')}`);
+        }
+        addFeature(features, `shape:${this.shapeOf(node, this.config.shapeDepth)}`);
+
+        const childAncestors =
+          this.config.pathLength > 1 ? path.slice(1 - this.config.pathLength) : [];
+        for (const child of node.namedChildren) {
+          stack.push({ node: child, ancestors: childAncestors });
+        }
+      }
+    } finally {
+      tree.delete();
+    }
+
+    return features;
+  }
+
+  /**
+   * Describe a node's type and the types of its named descendants to `depth` levels.
+   */
+  private shapeOf(node: Node, depth: number): string {
+    const children = depth > 0 ? node.namedChildren : [];
+    if (children.length === 0) return node.type;
+    return `${node.type}(${children.map((child) => this.shapeOf(child, depth - 1)).join(',')})`;
+  }
+
+  /**
+   * Count token-type n-grams, for languages without a grammar.
+   */
+  private tokenFeatures(code: string, language: SupportedLanguage): Map<string, number> {
+    let tokenizer = this.tokenizers.get(language);
+    if (!tokenizer) {
+      tokenizer = new CodeTokenizer(language);
+      this.tokenizers.set(language, tokenizer);
+    }
+
+    const features = new Map<string, number>();
+    const symbols = tokenizer.tokenize(code).filter(isStructural).map(tokenSymbol);
+
+    for (let n = 1; n <= this.config.ngramSize; n++) {
+      for (let i = 0; i + n <= symbols.length; i++) {
+        addFeature(features, `tokens:${symbols.slice(i, i + n).join(' ')}`);
+      }
+    }
+
+    return features;
+  }
+
+  /**
+   * Hash feature counts into a unit-length vector.
+   */
+  private hashFeatures(features: ReadonlyMap<string, number>): Float32Array {
+    const embedding = new Float32Array(this.dimension);
+
+    for (const [feature, count] of features) {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      embedding[(hash & 0x7fffffff) % this.dimension] += sign * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(embedding.reduce((sum, x) => sum + x * x, 0));
+    if (norm > 0) {
+      for (let i = 0; i < embedding.length; i++) {
+        embedding[i] /= norm;
+      }
+    }
+
+    return embedding;
+  }
+}
+
+/**
+ * Increment a feature's count.
+ */
+function addFeature(features: Map<string, number>, feature: string): void {
+  features.set(feature, (features.get(feature) ?? 0) + 1);
+}
+
+/**
+ * Whether a token carries structure (comments and whitespace do not).
+ */
+function isStructural(token: Token): boolean {
+  return token.type !== 'comment' && token.type !== 'whitespace';
+}
+
+/**
+ * Reduce a token to what it says about structure: keywords, operators and
+ * punctuation keep their text, names and literals only their type.
+ */
+function tokenSymbol(token: Token): string {
+  return token.type === 'keyword' || token.type === 'operator' || token.type === 'punctuation'
+    ? token.value
+    : token.type;
+}
+
+/**
+ * 32-bit FNV-1a hash of a string.
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
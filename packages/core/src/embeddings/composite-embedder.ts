@@ -0,0 +1,262 @@
+/**
+ * @nlci/core - Composite Embedding Model
+ *
+ * Blends the embeddings of several models (for example lexical TF-IDF,
+ * structural AST and neural ONNX embeddings) into one vector, so clones that
+ * any of them recognizes end up close together.
+ */
+
+import { createHash } from 'crypto';
+
+import type { EmbeddingModel } from '../engine/indexer.js';
+import { SeededRandom } from '../lsh/hyperplane.js';
+import type { SupportedLanguage } from '../types/code-block.js';
+import type { CompositeCombination } from '../types/config.js';
+
+/**
+ * A model blended into a {@link CompositeEmbedder}.
+ */
+export interface CompositeMember {
+  /** The member model */
+  model: EmbeddingModel;
+
+  /** Relative weight of the member's embeddings (default: 1) */
+  weight?: number;
+
+  /** Scale the member's embeddings to unit length before weighting (default: true) */
+  normalize?: boolean;
+}
+
+/**
+ * Options for {@link CompositeEmbedder}.
+ */
+export interface CompositeEmbedderOptions {
+  /** Embedding dimension (default: the first member's dimension) */
+  dimension?: number;
+
+  /** How member embeddings are combined (default: 'concatenate') */
+  combination?: CompositeCombination;
+
+  /** Seed of the random projection used by 'concatenate' (default: 42) */
+  seed?: number;
+
+  /** Normalize the combined embedding to unit length (default: true) */
+  normalize?: boolean;
+}
+
+/**
+ * Saved state of a {@link CompositeEmbedder}.
+ */
+interface CompositeState {
+  members: unknown[];
+}
+
+/**
+ * Embedding model that combines the embeddings of member models.
+ *
+ * With normalized members, concatenating makes the cosine similarity of two
+ * combined embeddings the weighted average (by squared weight) of the
+ * members' similarities; the Gaussian random projection down to `dimension`
+ * preserves it approximately. A weighted sum keeps every member in the same
+ * coordinates, which is cheaper but lets unrelated members interfere.
+ */
+export class CompositeEmbedder implements EmbeddingModel {
+  readonly dimension: number;
+  readonly fingerprint: string;
+  readonly combination: CompositeCombination;
+
+  private readonly members: Required<CompositeMember>[];
+  private readonly normalize: boolean;
+
+  // Rows of the concatenate projection, built on first use
+  private projection: Float32Array[] | null = null;
+  private readonly seed: number;
+
+  /**
+   * @param members - Models to combine, in order
+   * @param options - Combination options
+   * @throws Error if there are no members, a weight is negative, or a
+   *   weighted sum's members do not all output `dimension`
+   */
+  constructor(members: CompositeMember[], options: CompositeEmbedderOptions = {}) {
+    if (members.length === 0) {
+      throw new Error('A composite embedding model needs at least one member');
+    }
+
+    this.members = members.map((member) => ({
+      model: member.model,
+      weight: member.weight ?? 1,
+      normalize: member.normalize ?? true,
+    }));
+    this.dimension = options.dimension ?? members[0].model.dimension;
+    this.combination = options.combination ?? 'concatenate';
+    this.normalize = options.normalize ?? true;
+    this.seed = options.seed ?? 42;
+
+    for (const { model, weight } of this.members) {
+      if (!(weight >= 0)) {
+        throw new Error(`Composite member weights must be non-negative, got ${weight}`);
+      }
+      if (this.combination === 'weighted-sum' && model.dimension !== this.dimension) {
+        throw new Error(
+          `A weighted sum needs members of dimension ${this.dimension}, ` +
+            `but one outputs ${model.dimension}`
+        );
+      }
+    }
+
+    this.fingerprint = `composite:${createHash('sha256')
+      .update(
+        JSON.stringify({
+          dimension: this.dimension,
+          combination: this.combination,
+          normalize: this.normalize,
+          seed: this.seed,
+          members: this.members.map(({ model, weight, normalize }) => [
+            model.fingerprint ?? 'unrecorded',
+            weight,
+            normalize,
+          ]),
+        })
+      )
+      .digest('hex')
+      .slice(0, 16)}`;
+  }
+
+  /**
+   * The member models, in order.
+   */
+  get models(): EmbeddingModel[] {
+    return this.members.map((member) => member.model);
+  }
+
+  /**
+   * Generate embedding for code.
+   */
+  async embed(code: string, language?: SupportedLanguage): Promise<Float32Array> {
+    const parts = await Promise.all(
+      this.members.map((member) => member.model.embed(code, language))
+    );
+    return this.combine(parts);
+  }
+
+  /**
+   * Generate embeddings for code in one language, one batch per member.
+   */
+  async embedBatch(codes: string[], language?: SupportedLanguage): Promise<Float32Array[]> {
+    // Members run one after another, so stateful ones see the batch in order
+    const batches: Float32Array[][] = [];
+    for (const member of this.members) {
+      batches.push(await member.model.embedBatch(codes, language));
+    }
+    return codes.map((_, i) => this.combine(batches.map((batch) => batch[i])));
+  }
+
+  /**
+   * Prepare every member for a language.
+   */
+  async prepare(language: SupportedLanguage): Promise<boolean> {
+    const prepared = await Promise.all(
+      this.members.map(({ model }) => model.prepare?.(language) ?? true)
+    );
+    return prepared.every(Boolean);
+  }
+
+  /**
+   * Export the state of every member.
+   */
+  exportState(): CompositeState {
+    return { members: this.members.map(({ model }) => model.exportState?.() ?? null) };
+  }
+
+  /**
+   * Import state returned by exportState().
+   */
+  importState(state: unknown): void {
+    (state as CompositeState).members.forEach((memberState, i) => {
+      if (memberState !== null) this.members[i]?.model.importState?.(memberState);
+    });
+  }
+
+  /**
+   * Combine one embedding per member into a single embedding.
+   */
+  private combine(parts: Float32Array[]): Float32Array {
+    const weighted = parts.map((part, i) => {
+      const { weight, normalize } = this.members[i];
+      const scale = weight / (normalize ? norm(part) || 1 : 1);
+      return part.map((x) => x * scale);
+    });
+
+    const combined =
+      this.combination === 'weighted-sum' ? this.sum(weighted) : this.project(weighted);
+
+    if (this.normalize) {
+      const length = norm(combined);
+      if (length > 0) {
+        for (let i = 0; i < combined.length; i++) {
+          combined[i] /= length;
+        }
+      }
+    }
+    return combined;
+  }
+
+  /**
+   * Add embeddings of the composite dimension.
+   */
+  private sum(parts: Float32Array[]): Float32Array {
+    const result = new Float32Array(this.dimension);
+    for (const part of parts) {
+      for (let i = 0; i < this.dimension; i++) {
+        result[i] += part[i];
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Concatenate embeddings and project them to the composite dimension.
+   */
+  private project(parts: Float32Array[]): Float32Array {
+    const concatenated = new Float32Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      concatenated.set(part, offset);
+      offset += part.length;
+    }
+
+    const projection = this.projectionFor(concatenated.length);
+    const result = new Float32Array(this.dimension);
+    for (let i = 0; i < this.dimension; i++) {
+      const row = projection[i];
+      let dot = 0;
+      for (let j = 0; j < concatenated.length; j++) {
+        dot += row[j] * concatenated[j];
+      }
+      result[i] = dot;
+    }
+    return result;
+  }
+
+  /**
+   * Get the Gaussian projection from `inputDimension`, building it on first use.
+   */
+  private projectionFor(inputDimension: number): Float32Array[] {
+    if (this.projection?.[0]?.length !== inputDimension) {
+      const rng = new SeededRandom(this.seed);
+      const scale = 1 / Math.sqrt(this.dimension);
+      this.projection = Array.from({ length: this.dimension }, () =>
+        Float32Array.from({ length: inputDimension }, () => rng.nextGaussian() * scale)
+      );
+    }
+    return this.projection;
+  }
+}
+
+/**
+ * Euclidean length of a vector.
+ */
+function norm(vector: Float32Array): number {
+  return Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+}
@@ -0,0 +1,233 @@
+/**
+ * @nlci/core - Embedding Cache
+ *
+ * Keeps the embeddings of blocks by content hash across runs, so re-scanning
+ * a repository only embeds blocks whose normalized content is new.
+ */
+
+import type { BucketStorage } from '../lsh/bucket-store.js';
+import type { SupportedLanguage } from '../types/code-block.js';
+
+/**
+ * Storage key of the cache.
+ */
+const CACHE_KEY = 'embedding-cache';
+
+/**
+ * Cache as saved to storage; entries are least recently used first.
+ */
+interface SavedCache {
+  version: number;
+  hits: number;
+  misses: number;
+  entries: Array<[key: string, embedding: string]>;
+}
+
+/**
+ * Embedding cache statistics.
+ */
+export interface EmbeddingCacheStats {
+  /** Number of cached embeddings */
+  entries: number;
+
+  /** Approximate size of the cached embeddings when saved, in bytes */
+  sizeBytes: number;
+
+  /** Size the cache is trimmed to, in bytes */
+  maxSizeBytes: number;
+
+  /** Lookups answered from the cache, over every run that saved it */
+  hits: number;
+
+  /** Lookups that had to embed, over every run that saved it */
+  misses: number;
+}
+
+/**
+ * Least-recently-used cache of embeddings, persisted to a storage backend.
+ *
+ * Entries are keyed by the embedding model's scope (its fingerprint and
+ * learned state), the block's language and its content hash, so blocks whose
+ * normalized content matches share an embedding.
+ */
+export class EmbeddingCache {
+  private readonly entries = new Map<string, Float32Array>();
+  private readonly maxSizeBytes: number;
+  private sizeBytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private loaded = false;
+
+  /**
+   * @param storage - Backend the cache is saved to
+   * @param maxSizeMB - Size the cache is trimmed to, evicting the least recently used entries
+   */
+  constructor(
+    private readonly storage: BucketStorage,
+    maxSizeMB: number
+  ) {
+    this.maxSizeBytes = Math.max(0, maxSizeMB) * 1024 * 1024;
+  }
+
+  /**
+   * Loads the saved cache, once. Entries added before loading are kept.
+   */
+  async load(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    const json = await this.storage.load(CACHE_KEY);
+    if (!json) return;
+
+    let saved: SavedCache;
+    try {
+      saved = JSON.parse(json) as SavedCache;
+    } catch {
+      // A damaged cache is rebuilt as blocks are embedded
+      return;
+    }
+
+    const added = [...this.entries];
+    this.entries.clear();
+    this.sizeBytes = 0;
+    for (const [key, encoded] of saved.entries) {
+      this.add(key, decodeEmbedding(encoded));
+    }
+    for (const [key, embedding] of added) {
+      this.add(key, embedding);
+    }
+
+    this.hits += saved.hits;
+    this.misses += saved.misses;
+    this.trim();
+  }
+
+  /**
+   * Saves the cache and its hit and miss counts.
+   */
+  async save(): Promise<void> {
+    const saved: SavedCache = {
+      version: 1,
+      hits: this.hits,
+      misses: this.misses,
+      entries: [...this.entries].map(([key, embedding]) => [key, encodeEmbedding(embedding)]),
+    };
+    await this.storage.save(CACHE_KEY, JSON.stringify(saved));
+  }
+
+  /**
+   * Gets a cached embedding, counting the lookup as a hit or a miss.
+   *
+   * @param scope - Scope of the embedding model
+   * @param language - Language the block was embedded as
+   * @param contentHash - Hash of the block's normalized content
+   */
+  get(scope: string, language: SupportedLanguage, contentHash: string): Float32Array | undefined {
+    const key = cacheKey(scope, language, contentHash);
+    const embedding = this.entries.get(key);
+    if (!embedding) {
+      this.misses++;
+      return undefined;
+    }
+
+    // Move to the most recently used end
+    this.entries.delete(key);
+    this.entries.set(key, embedding);
+    this.hits++;
+    return embedding;
+  }
+
+  /**
+   * Caches an embedding, evicting the least recently used entries beyond the size limit.
+   */
+  set(
+    scope: string,
+    language: SupportedLanguage,
+    contentHash: string,
+    embedding: Float32Array
+  ): void {
+    this.add(cacheKey(scope, language, contentHash), embedding);
+    this.trim();
+  }
+
+  /**
+   * Removes every entry and resets the counts.
+   */
+  clear(): void {
+    this.entries.clear();
+    this.sizeBytes = 0;
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  /**
+   * Gets cache statistics.
+   */
+  getStats(): EmbeddingCacheStats {
+    return {
+      entries: this.entries.size,
+      sizeBytes: this.sizeBytes,
+      maxSizeBytes: this.maxSizeBytes,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+
+  /**
+   * Adds or replaces an entry as the most recently used.
+   */
+  private add(key: string, embedding: Float32Array): void {
+    const previous = this.entries.get(key);
+    if (previous) {
+      this.sizeBytes -= entrySize(key, previous);
+      this.entries.delete(key);
+    }
+    this.entries.set(key, embedding);
+    this.sizeBytes += entrySize(key, embedding);
+  }
+
+  /**
+   * Evicts least recently used entries until the cache fits its limit.
+   */
+  private trim(): void {
+    for (const [key, embedding] of this.entries) {
+      if (this.sizeBytes <= this.maxSizeBytes) break;
+      this.entries.delete(key);
+      this.sizeBytes -= entrySize(key, embedding);
+    }
+  }
+}
+
+/**
+ * Builds the key of a cache entry.
+ */
+function cacheKey(scope: string, language: SupportedLanguage, contentHash: string): string {
+  return `${scope}|${language}|${contentHash}`;
+}
+
+/**
+ * Approximate saved size of an entry: its key and base64-encoded embedding.
+ */
+function entrySize(key: string, embedding: Float32Array): number {
+  return key.length + Math.ceil(embedding.byteLength / 3) * 4;
+}
+
+/**
+ * Encodes an embedding's bytes as base64.
+ */
+function encodeEmbedding(embedding: Float32Array): string {
+  return Buffer.from(embedding.buffer, embedding.byteOffset, embedding.byteLength).toString(
+    'base64'
+  );
+}
+
+/**
+ * Decodes an embedding encoded by encodeEmbedding().
+ */
+function decodeEmbedding(encoded: string): Float32Array {
+  const bytes = Buffer.from(encoded, 'base64');
+  // Copied so the floats are aligned
+  return new Float32Array(
+    bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength)
+  );
+}
@@ -5,9 +5,65 @@
  */
 
 // Tokenizer
-export { CodeTokenizer, KEYWORDS, OPERATORS } from './tokenizer.js';
-export type { Token, TokenType } from './tokenizer.js';
+export {
+  CodeTokenizer,
+  createIdentifierPlaceholders,
+  KEYWORDS,
+  OPERATORS,
+  COMMENT_SYNTAX,
+} from './tokenizer.js';
+export type {
+  Token,
+  TokenType,
+  TokenizerMode,
+  TokenizerOptions,
+  Lexeme,
+  LexemeType,
+  CommentSyntax,
+} from './tokenizer.js';
+
+// Normalization
+export {
+  normalizeCode,
+  getNormalizer,
+  registerNormalizer,
+  createTokenNormalizer,
+} from './normalizer.js';
+export type { CodeNormalizer, NormalizeOptions } from './normalizer.js';
 
 // TF-IDF Embedder
 export { TFIDFEmbedder, createTFIDFEmbedder } from './tfidf-embedder.js';
 export type { TFIDFConfig } from './tfidf-embedder.js';
+
+// ONNX Embedder
+export { ONNXEmbedder, ONNXModelError } from './onnx-embedder.js';
+export type { ONNXEmbedderConfig } from './onnx-embedder.js';
+export { WordPieceTokenizer } from './wordpiece-tokenizer.js';
+export type { EncodedInput, WordPieceOptions } from './wordpiece-tokenizer.js';
+
+// AST Structural Embedder
+export { ASTEmbedder } from './ast-embedder.js';
+export type { ASTEmbedderConfig } from './ast-embedder.js';
+
+// Per-language routing
+export { LanguageRoutedEmbedder } from './language-router.js';
+
+// Embedding cache
+export { EmbeddingCache } from './embedding-cache.js';
+export type { EmbeddingCacheStats } from './embedding-cache.js';
+
+// Composite (blended) embeddings
+export { CompositeEmbedder } from './composite-embedder.js';
+export type { CompositeMember, CompositeEmbedderOptions } from './composite-embedder.js';
+
+// Registry of named embedding models and plugin loading
+export {
+  registerEmbedder,
+  getEmbedder,
+  listEmbedders,
+  isBuiltInEmbedder,
+  loadEmbedderPlugins,
+  UnknownEmbedderError,
+  EmbedderPluginError,
+} from './registry.js';
+export type { EmbedderFactory, EmbedderFactoryOptions, EmbedderPlugin } from './registry.js';
@@ -0,0 +1,105 @@
+/**
+ * @nlci/core - Language-Routed Embedding Model
+ *
+ * Gives each language its own embedding model, so code is embedded (and a
+ * learned model such as TF-IDF is fitted) only alongside code of the same
+ * language.
+ */
+
+import type { EmbeddingModel } from '../engine/indexer.js';
+import type { SupportedLanguage } from '../types/code-block.js';
+
+/**
+ * Saved state of a {@link LanguageRoutedEmbedder}.
+ */
+interface RoutedState {
+  models: Array<[SupportedLanguage, unknown]>;
+}
+
+/**
+ * Embedding model that routes code to a separate model per language.
+ *
+ * Each language's embeddings live in their own space, so code in different
+ * languages is not expected to come out similar.
+ */
+export class LanguageRoutedEmbedder implements EmbeddingModel {
+  readonly dimension: number;
+  readonly fingerprint: string;
+
+  private readonly models: Map<SupportedLanguage, EmbeddingModel> = new Map();
+
+  /**
+   * @param create - Builds the model for a language
+   * @param defaultLanguage - Language used for code whose language is not known
+   */
+  constructor(
+    private readonly create: (language: SupportedLanguage) => EmbeddingModel,
+    private readonly defaultLanguage: SupportedLanguage = 'typescript'
+  ) {
+    const model = this.modelFor(defaultLanguage);
+    this.dimension = model.dimension;
+    this.fingerprint = `per-language:${model.fingerprint ?? 'unrecorded'}`;
+  }
+
+  /**
+   * Get the model for a language, building it on first use.
+   */
+  modelFor(language: SupportedLanguage | undefined): EmbeddingModel {
+    const routed = !language || language === 'unknown' ? this.defaultLanguage : language;
+
+    let model = this.models.get(routed);
+    if (!model) {
+      model = this.create(routed);
+      this.models.set(routed, model);
+    }
+    return model;
+  }
+
+  /**
+   * Generate embedding for code with the model of its language.
+   */
+  async embed(code: string, language?: SupportedLanguage): Promise<Float32Array> {
+    return this.modelFor(language).embed(code, language);
+  }
+
+  /**
+   * Generate embeddings for code in one language.
+   */
+  async embedBatch(codes: string[], language?: SupportedLanguage): Promise<Float32Array[]> {
+    return this.modelFor(language).embedBatch(codes, language);
+  }
+
+  /**
+   * Prepare the model of a language.
+   */
+  async prepare(language: SupportedLanguage): Promise<boolean> {
+    return (await this.modelFor(language).prepare?.(language)) ?? true;
+  }
+
+  /**
+   * Languages that have a model.
+   */
+  get languages(): SupportedLanguage[] {
+    return [...this.models.keys()];
+  }
+
+  /**
+   * Export the state of every language's model.
+   */
+  exportState(): RoutedState {
+    const models: RoutedState['models'] = [];
+    for (const [language, model] of this.models) {
+      if (model.exportState) models.push([language, model.exportState()]);
+    }
+    return { models };
+  }
+
+  /**
+   * Import state returned by exportState().
+   */
+  importState(state: unknown): void {
+    for (const [language, modelState] of (state as RoutedState).models) {
+      this.modelFor(language).importState?.(modelState);
+    }
+  }
+}
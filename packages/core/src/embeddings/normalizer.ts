@@ -0,0 +1,129 @@
+/**
+ * @nlci/core - Code Normalizer
+ *
+ * Produces the canonical text of a code block (`normalizedContent`, which
+ * `contentHash` is computed from). The default normalizer for each language
+ * is driven by CodeTokenizer, so comments and strings follow that language's
+ * syntax; other normalizers can be registered per language.
+ */
+
+import type { SupportedLanguage } from '../types/code-block.js';
+import { CodeTokenizer, createIdentifierPlaceholders, type Lexeme } from './tokenizer.js';
+
+/**
+ * Optional abstractions applied while normalizing.
+ */
+export interface NormalizeOptions {
+  /**
+   * Replace every identifier with `IDENTIFIER`, or with `'positional'`, with
+   * `$1`, `$2`… in order of first appearance (as CodeTokenizer's 'abstract'
+   * mode does), so consistent renames normalize alike but reordered uses do not
+   */
+  abstractIdentifiers?: boolean | 'positional';
+
+  /** Replace strings with `STRING_LITERAL` and numbers with `NUMBER` */
+  abstractLiterals?: boolean;
+}
+
+/**
+ * Turns source code into its canonical text.
+ */
+export type CodeNormalizer = (content: string, options: NormalizeOptions) => string;
+
+/** Normalizers registered by callers, which take precedence */
+const registered = new Map<SupportedLanguage, CodeNormalizer>();
+
+/** Tokenizer-driven normalizers, built on first use */
+const defaults = new Map<SupportedLanguage, CodeNormalizer>();
+
+/**
+ * Normalizes code for comparison.
+ *
+ * The default normalizers remove comments and collapse whitespace between
+ * tokens to single spaces, leaving string contents untouched.
+ *
+ * @param content - Source code
+ * @param language - Language of the code, which selects the normalizer
+ * @param options - Abstractions to apply
+ * @returns The normalized code
+ */
+export function normalizeCode(
+  content: string,
+  language: SupportedLanguage,
+  options: NormalizeOptions = {}
+): string {
+  return getNormalizer(language)(content, options);
+}
+
+/**
+ * Gets the normalizer used for a language.
+ */
+export function getNormalizer(language: SupportedLanguage): CodeNormalizer {
+  const normalizer = registered.get(language) ?? defaults.get(language);
+  if (normalizer) return normalizer;
+
+  const created = createTokenNormalizer(language);
+  defaults.set(language, created);
+  return created;
+}
+
+/**
+ * Replaces the normalizer for a language.
+ *
+ * Blocks indexed before the change keep their normalized content and hash,
+ * so re-index after registering.
+ *
+ * @param language - Language to normalize
+ * @param normalizer - The normalizer, or `undefined` to restore the default
+ */
+export function registerNormalizer(
+  language: SupportedLanguage,
+  normalizer: CodeNormalizer | undefined
+): void {
+  if (normalizer) registered.set(language, normalizer);
+  else registered.delete(language);
+}
+
+/**
+ * Creates the default normalizer for a language from its CodeTokenizer.
+ */
+export function createTokenNormalizer(language: SupportedLanguage): CodeNormalizer {
+  const tokenizer = new CodeTokenizer(language);
+
+  return (content, options) => {
+    let normalized = '';
+    let end = 0;
+    const placeholderFor =
+      options.abstractIdentifiers === 'positional' ? createIdentifierPlaceholders() : undefined;
+
+    for (const lexeme of tokenizer.lex(content)) {
+      if (lexeme.type === 'comment') continue;
+
+      // Whitespace or a comment separated this lexeme from the previous one
+      if (normalized && lexeme.position > end) normalized += ' ';
+      normalized +=
+        placeholderFor && lexeme.type === 'identifier'
+          ? placeholderFor(lexeme.text)
+          : abstractLexeme(lexeme, options);
+      end = lexeme.position + lexeme.text.length;
+    }
+
+    return normalized;
+  };
+}
+
+/**
+ * Gets the text a lexeme normalizes to.
+ */
+function abstractLexeme(lexeme: Lexeme, options: NormalizeOptions): string {
+  switch (lexeme.type) {
+    case 'identifier':
+      return options.abstractIdentifiers ? 'IDENTIFIER' : lexeme.text;
+    case 'string':
+      return options.abstractLiterals ? 'STRING_LITERAL' : lexeme.text;
+    case 'number':
+      return options.abstractLiterals ? 'NUMBER' : lexeme.text;
+    default:
+      return lexeme.text;
+  }
+}
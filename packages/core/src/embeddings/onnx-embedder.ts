@@ -0,0 +1,342 @@
+/**
+ * @nlci/core - ONNX Embedding Model
+ *
+ * Embeds code with a local BERT-style encoder exported to ONNX, run on the
+ * CPU with `onnxruntime-node`. The model and its WordPiece vocabulary are
+ * read from local files; nothing is downloaded.
+ *
+ * Install: pnpm add onnxruntime-node
+ */
+
+import { createHash } from 'crypto';
+import { closeSync, openSync, readSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import type * as Ort from 'onnxruntime-node';
+
+import type { EmbeddingModel } from '../engine/indexer.js';
+import { WordPieceTokenizer } from './wordpiece-tokenizer.js';
+
+/**
+ * Configuration for the ONNX embedding model.
+ */
+export interface ONNXEmbedderConfig {
+  /** Path to the `.onnx` model file */
+  modelPath: string;
+
+  /** Path to the WordPiece vocabulary (default: `vocab.txt` next to the model) */
+  vocabPath?: string;
+
+  /** Embedding dimension the model must output (default: 384) */
+  dimension?: number;
+
+  /** Tokens per input, including `[CLS]` and `[SEP]`; longer code is truncated (default: 512) */
+  maxSequenceLength?: number;
+
+  /** Inputs per model run (default: 32) */
+  batchSize?: number;
+
+  /** Normalize embeddings to unit length (default: true) */
+  normalize?: boolean;
+}
+
+/**
+ * Default ONNX configuration.
+ */
+const DEFAULT_CONFIG: Required<Omit<ONNXEmbedderConfig, 'modelPath' | 'vocabPath'>> = {
+  dimension: 384,
+  maxSequenceLength: 512,
+  batchSize: 32,
+  normalize: true,
+};
+
+/**
+ * A loaded model and the tokenizer for its inputs.
+ */
+interface LoadedModel {
+  runtime: typeof Ort;
+  session: Ort.InferenceSession;
+  tokenizer: WordPieceTokenizer;
+}
+
+/**
+ * Error thrown when an ONNX model cannot be loaded or run.
+ */
+export class ONNXModelError extends Error {
+  constructor(
+    public readonly modelPath: string,
+    message: string,
+    public readonly cause?: Error
+  ) {
+    super(`ONNX model ${modelPath}: ${message}`);
+    this.name = 'ONNXModelError';
+  }
+}
+
+/**
+ * Embedding model backed by a local ONNX encoder.
+ *
+ * Each input is tokenized to `[CLS] tokens [SEP]` and padded or truncated to
+ * `maxSequenceLength`. The model's first output is the embedding: either one
+ * vector per input (`[batch, dimension]`), or one per token
+ * (`[batch, sequence, dimension]`), which is mean-pooled over the real
+ * tokens. The model is loaded on first use; call `load()` to load it (and
+ * check its output dimension) up front.
+ *
+ * The fingerprint hashes the model and vocabulary files themselves, so an
+ * index stays valid when they move and is refused when they are replaced.
+ *
+ * onnxruntime-node's native binding can only be loaded by one thread of a
+ * process, so use the embedder from a single thread.
+ */
+export class ONNXEmbedder implements EmbeddingModel {
+  readonly dimension: number;
+
+  private readonly config: Required<ONNXEmbedderConfig>;
+  private loading: Promise<LoadedModel> | null = null;
+  private hashedFingerprint: string | null = null;
+
+  constructor(config: ONNXEmbedderConfig) {
+    const modelPath = resolve(config.modelPath);
+    this.config = {
+      ...DEFAULT_CONFIG,
+      ...config,
+      modelPath,
+      vocabPath: resolve(config.vocabPath ?? join(dirname(modelPath), 'vocab.txt')),
+    };
+    this.dimension = this.config.dimension;
+  }
+
+  /**
+   * Hash of the model and vocabulary contents and the settings that change
+   * embeddings, computed on first use.
+   *
+   * @throws ONNXModelError if the model or vocabulary file cannot be read
+   */
+  get fingerprint(): string {
+    this.hashedFingerprint ??= this.computeFingerprint();
+    return this.hashedFingerprint;
+  }
+
+  /**
+   * Load the model and vocabulary, and check the model's output dimension.
+   *
+   * @throws ONNXModelError if onnxruntime-node is missing, a file cannot be
+   *   read, or the model does not output `dimension`-sized embeddings
+   */
+  async load(): Promise<void> {
+    await this.model();
+  }
+
+  /**
+   * Generate embedding for code.
+   */
+  async embed(code: string): Promise<Float32Array> {
+    const [embedding] = await this.embedBatch([code]);
+    return embedding;
+  }
+
+  /**
+   * Generate embeddings for multiple code snippets, `batchSize` per model run.
+   */
+  async embedBatch(codes: string[]): Promise<Float32Array[]> {
+    const model = await this.model();
+    const embeddings: Float32Array[] = [];
+
+    for (let i = 0; i < codes.length; i += this.config.batchSize) {
+      embeddings.push(...(await this.run(model, codes.slice(i, i + this.config.batchSize))));
+    }
+
+    return embeddings;
+  }
+
+  /**
+   * Release the model's native resources. The model is loaded again if used.
+   */
+  async dispose(): Promise<void> {
+    const loading = this.loading;
+    this.loading = null;
+    if (loading) await (await loading.catch(() => null))?.session.release();
+  }
+
+  /**
+   * Get the loaded model, loading it on first use.
+   */
+  private model(): Promise<LoadedModel> {
+    this.loading ??= this.loadModel();
+    return this.loading;
+  }
+
+  /**
+   * Hash the files and output settings; paths and `batchSize` don't change embeddings.
+   */
+  private computeFingerprint(): string {
+    const { modelPath, vocabPath, dimension, maxSequenceLength, normalize } = this.config;
+    const hash = createHash('sha256').update(
+      JSON.stringify({ dimension, maxSequenceLength, normalize })
+    );
+
+    for (const path of [modelPath, vocabPath]) {
+      try {
+        hash.update(hashFile(path));
+      } catch (error) {
+        const cause = error instanceof Error ? error : new Error(String(error));
+        throw new ONNXModelError(modelPath, cause.message, cause);
+      }
+    }
+
+    return `onnx:${hash.digest('hex').slice(0, 16)}`;
+  }
+
+  /**
+   * Load the runtime, session and tokenizer.
+   */
+  private async loadModel(): Promise<LoadedModel> {
+    const { modelPath, vocabPath } = this.config;
+
+    let runtime: typeof Ort;
+    try {
+      runtime = await import('onnxruntime-node');
+    } catch (error) {
+      const cause = error instanceof Error ? error : new Error(String(error));
+      const code = (error as NodeJS.ErrnoException).code;
+      throw new ONNXModelError(
+        modelPath,
+        code === 'ERR_MODULE_NOT_FOUND' || code === 'MODULE_NOT_FOUND'
+          ? 'onnxruntime-node package is not installed.\n' +
+              'Install it with: pnpm add onnxruntime-node'
+          : `onnxruntime-node could not be loaded: ${cause.message}`,
+        cause
+      );
+    }
+
+    let model: LoadedModel;
+    try {
+      const [session, tokenizer] = await Promise.all([
+        runtime.InferenceSession.create(modelPath, { executionProviders: ['cpu'] }),
+        WordPieceTokenizer.fromFile(vocabPath),
+      ]);
+      model = { runtime, session, tokenizer };
+    } catch (error) {
+      const cause = error instanceof Error ? error : new Error(String(error));
+      throw new ONNXModelError(modelPath, cause.message, cause);
+    }
+
+    // Catch a model that does not match the index before anything is embedded
+    try {
+      await this.run(model, ['']);
+    } catch (error) {
+      await model.session.release();
+      throw error;
+    }
+
+    return model;
+  }
+
+  /**
+   * Embed one batch of code in a single model run.
+   */
+  private async run(model: LoadedModel, codes: string[]): Promise<Float32Array[]> {
+    const { runtime, session, tokenizer } = model;
+    const length = Math.max(2, this.config.maxSequenceLength);
+    const encoded = codes.map((code) => tokenizer.encode(code, length));
+
+    const dims = [codes.length, length];
+    const tensor = (values: (input: (typeof encoded)[number]) => number[]): Ort.Tensor =>
+      new runtime.Tensor('int64', BigInt64Array.from(encoded.flatMap(values), BigInt), dims);
+
+    const feeds: Record<string, Ort.Tensor> = {
+      input_ids: tensor((input) => input.inputIds),
+    };
+    if (session.inputNames.includes('attention_mask')) {
+      feeds.attention_mask = tensor((input) => input.attentionMask);
+    }
+    if (session.inputNames.includes('token_type_ids')) {
+      feeds.token_type_ids = tensor((input) => input.inputIds.map(() => 0));
+    }
+
+    let output: Ort.Tensor;
+    try {
+      output = (await session.run(feeds))[session.outputNames[0]];
+    } catch (error) {
+      const cause = error instanceof Error ? error : new Error(String(error));
+      throw new ONNXModelError(this.config.modelPath, cause.message, cause);
+    }
+
+    const outputDimension = output.dims[output.dims.length - 1];
+    if (outputDimension !== this.dimension) {
+      throw new ONNXModelError(
+        this.config.modelPath,
+        `outputs ${outputDimension}-dimensional embeddings, ` +
+          `but the index expects ${this.dimension} (set lsh.dimension to match)`
+      );
+    }
+
+    const data = output.data as Float32Array;
+    return encoded.map((input, i) => {
+      const embedding =
+        output.dims.length === 3
+          ? this.meanPool(data, i, length, input.attentionMask)
+          : data.slice(i * this.dimension, (i + 1) * this.dimension);
+
+      return this.config.normalize ? normalizeVector(embedding) : embedding;
+    });
+  }
+
+  /**
+   * Average the token vectors of one input, skipping padding.
+   */
+  private meanPool(
+    data: Float32Array,
+    input: number,
+    length: number,
+    attentionMask: readonly number[]
+  ): Float32Array {
+    const embedding = new Float32Array(this.dimension);
+    let tokens = 0;
+
+    for (let t = 0; t < length; t++) {
+      if (!attentionMask[t]) continue;
+      const offset = (input * length + t) * this.dimension;
+      for (let d = 0; d < this.dimension; d++) {
+        embedding[d] += data[offset + d];
+      }
+      tokens++;
+    }
+
+    for (let d = 0; d < this.dimension; d++) {
+      embedding[d] /= tokens;
+    }
+    return embedding;
+  }
+}
+
+/**
+ * SHA-256 of a file's contents, read in chunks so large models aren't held in memory.
+ */
+function hashFile(path: string): string {
+  const hash = createHash('sha256');
+  const buffer = Buffer.alloc(1 << 20);
+  const fd = openSync(path, 'r');
+  try {
+    let bytesRead: number;
+    while ((bytesRead = readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+      hash.update(buffer.subarray(0, bytesRead));
+    }
+  } finally {
+    closeSync(fd);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Scale a vector to unit length, leaving zero vectors unchanged.
+ */
+function normalizeVector(vector: Float32Array): Float32Array {
+  const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] /= norm;
+    }
+  }
+  return vector;
+}
@@ -0,0 +1,170 @@
+/**
+ * @nlci/core - Embedding Model Registry
+ *
+ * Names custom embedding models so `embedding.modelType` can select them
+ * from configuration, and loads the plugin modules listed in
+ * `embedding.plugins` that register them.
+ */
+
+import { createRequire } from 'module';
+import { isAbsolute, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+
+import type { EmbeddingModel } from '../engine/indexer.js';
+import type { EmbeddingModelType, NLCIConfig } from '../types/config.js';
+
+/**
+ * What an embedder factory is given to build a model.
+ */
+export interface EmbedderFactoryOptions {
+  /** Dimension the model must output */
+  dimension: number;
+
+  /** The engine's configuration */
+  config: NLCIConfig;
+}
+
+/**
+ * Builds an embedding model for an engine.
+ */
+export type EmbedderFactory = (options: EmbedderFactoryOptions) => EmbeddingModel;
+
+/**
+ * An embedder plugin: the default export of a module listed in
+ * `embedding.plugins`, called with the function that registers embedders.
+ *
+ * Registering through the argument (rather than importing registerEmbedder)
+ * reaches the registry of the `@nlci/core` copy that loaded the plugin.
+ */
+export type EmbedderPlugin = (register: typeof registerEmbedder) => void | Promise<void>;
+
+/** Model types the engine builds itself, which cannot be registered */
+const BUILT_IN: readonly EmbeddingModelType[] = ['tfidf', 'onnx', 'ast', 'composite', 'mock'];
+
+/** Factories registered by callers and plugins */
+const registered = new Map<string, EmbedderFactory>();
+
+/**
+ * Error thrown when `embedding.modelType` names no built-in or registered model.
+ */
+export class UnknownEmbedderError extends Error {
+  constructor(public readonly modelType: string) {
+    super(
+      `Unknown embedding model '${modelType}'. ` +
+        'Register it with registerEmbedder() or list its plugin in embedding.plugins ' +
+        `(available: ${listEmbedders().join(', ')})`
+    );
+    this.name = 'UnknownEmbedderError';
+  }
+}
+
+/**
+ * Error thrown when an embedder plugin cannot be loaded.
+ */
+export class EmbedderPluginError extends Error {
+  constructor(
+    public readonly plugin: string,
+    message: string,
+    public readonly cause?: Error
+  ) {
+    super(`Embedder plugin ${plugin}: ${message}`);
+    this.name = 'EmbedderPluginError';
+  }
+}
+
+/**
+ * Registers an embedding model under a name `embedding.modelType` can select.
+ *
+ * Indexes record the model's fingerprint, so changing what a name builds
+ * makes saved indexes fail to load until they are rebuilt.
+ *
+ * @param name - Model name
+ * @param factory - Builds the model, or `undefined` to unregister it
+ * @throws Error if the name is a built-in model type
+ */
+export function registerEmbedder(name: string, factory: EmbedderFactory | undefined): void {
+  if (isBuiltInEmbedder(name)) {
+    throw new Error(`'${name}' is a built-in embedding model and cannot be registered`);
+  }
+
+  if (factory) registered.set(name, factory);
+  else registered.delete(name);
+}
+
+/**
+ * Gets the factory registered under a name.
+ */
+export function getEmbedder(name: string): EmbedderFactory | undefined {
+  return registered.get(name);
+}
+
+/**
+ * Lists the built-in and registered model names.
+ */
+export function listEmbedders(): string[] {
+  return [...BUILT_IN, ...registered.keys()];
+}
+
+/**
+ * Whether a name is one of the engine's own model types.
+ */
+export function isBuiltInEmbedder(name: string): name is EmbeddingModelType {
+  return (BUILT_IN as readonly string[]).includes(name);
+}
+
+/**
+ * Loads embedder plugins, in order, and lets each register its models.
+ *
+ * Relative paths are resolved against `baseDir`; other specifiers are
+ * resolved as packages installed there. Call this before constructing an
+ * engine whose `embedding.modelType` a plugin provides.
+ *
+ * @param plugins - Module paths or package names
+ * @param baseDir - Directory plugins are resolved from (typically the config file's)
+ * @throws EmbedderPluginError if a plugin cannot be found, loaded or run
+ */
+export async function loadEmbedderPlugins(
+  plugins: readonly string[],
+  baseDir: string = process.cwd()
+): Promise<void> {
+  for (const plugin of plugins) {
+    let module: { default?: unknown };
+    try {
+      module = (await import(pathToFileURL(resolvePlugin(plugin, baseDir)).href)) as {
+        default?: unknown;
+      };
+    } catch (error) {
+      const cause = error instanceof Error ? error : new Error(String(error));
+      throw new EmbedderPluginError(plugin, `could not be loaded: ${cause.message}`, cause);
+    }
+
+    // CommonJS modules imported from ESM nest `module.exports` under `default`
+    let register = module.default;
+    if (typeof register !== 'function' && register && typeof register === 'object') {
+      register = (register as { default?: unknown }).default;
+    }
+    if (typeof register !== 'function') {
+      throw new EmbedderPluginError(
+        plugin,
+        'must export a function that registers embedders as its default export'
+      );
+    }
+
+    try {
+      await (register as EmbedderPlugin)(registerEmbedder);
+    } catch (error) {
+      const cause = error instanceof Error ? error : new Error(String(error));
+      throw new EmbedderPluginError(plugin, cause.message, cause);
+    }
+  }
+}
+
+/**
+ * Resolves a plugin specifier to a file path.
+ */
+function resolvePlugin(plugin: string, baseDir: string): string {
+  if (isAbsolute(plugin) || plugin.startsWith('.')) {
+    return resolve(baseDir, plugin);
+  }
+  return createRequire(join(resolve(baseDir), 'noop.js')).resolve(plugin);
+}
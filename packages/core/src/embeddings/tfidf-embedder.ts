@@ -5,9 +5,11 @@
  * Produces normalized dense vectors suitable for LSH similarity search.
  */
 
+import { createHash } from 'crypto';
+
 import type { EmbeddingModel } from '../engine/indexer.js';
 import type { SupportedLanguage } from '../types/code-block.js';
-import { CodeTokenizer, type Token } from './tokenizer.js';
+import { CodeTokenizer, type Token, type TokenizerMode } from './tokenizer.js';
 
 /**
  * Configuration for TF-IDF embedding model.
@@ -31,6 +33,12 @@ export interface TFIDFConfig {
   /** Language for tokenization (default: 'typescript') */
   language?: SupportedLanguage;
 
+  /**
+   * How code is tokenized (default: 'split'). 'abstract' embeds the shape of
+   * the code rather than its vocabulary, so renamed copies embed alike.
+   */
+  tokenizerMode?: TokenizerMode;
+
   /** Enable sub-linear TF scaling (default: true) */
   sublinearTf?: boolean;
 
@@ -48,6 +56,7 @@ const DEFAULT_CONFIG: Required<TFIDFConfig> = {
   maxDocFreqRatio: 0.95,
   ngramSize: 2,
   language: 'typescript',
+  tokenizerMode: 'split',
   sublinearTf: true,
   smoothIdf: true,
 };
@@ -73,19 +82,31 @@ interface VocabEntry {
  * 3. Computes TF-IDF weighted sparse vectors
  * 4. Projects to dense vectors using random projection (LSH-friendly)
  * 5. Normalizes to unit vectors for cosine similarity
+ *
+ * Until it is frozen, every embedded document also updates the vocabulary
+ * and document frequencies, so embeddings drift as more code is seen. Fit
+ * the model to a corpus first (`fit()`, or `partialFit()` followed by
+ * `freeze()`) to embed everything against the same statistics.
  */
 export class TFIDFEmbedder implements EmbeddingModel {
   readonly dimension: number;
+  readonly fingerprint: string;
 
   private readonly config: Required<TFIDFConfig>;
   private readonly tokenizer: CodeTokenizer;
 
+  // Tokenizers for languages other than the configured one, built on first use
+  private readonly tokenizers: Map<SupportedLanguage, CodeTokenizer> = new Map();
+
   // Vocabulary: term -> entry
   private vocabulary: Map<string, VocabEntry> = new Map();
 
   // Document count for IDF computation
   private documentCount: number = 0;
 
+  // Whether fitting is finished; a frozen model embeds without learning
+  private isFrozen: boolean = false;
+
   // Random projection matrix for dimensionality reduction
   private projectionMatrix: Float32Array[] | null = null;
 
@@ -95,9 +116,13 @@ export class TFIDFEmbedder implements EmbeddingModel {
   constructor(config: TFIDFConfig = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
     this.dimension = this.config.dimension;
-    this.tokenizer = new CodeTokenizer(this.config.language);
+    this.fingerprint = `tfidf:${createHash('sha256')
+      .update(JSON.stringify(this.config))
+      .digest('hex')
+      .slice(0, 16)}`;
+    this.tokenizer = new CodeTokenizer(this.config.language, { mode: this.config.tokenizerMode });
     this.seed = 42; // Reproducible
-    this.initializeProjectionMatrix();
+    // Projection matrix is built on first projection; term extraction doesn't need it
   }
 
   /**
@@ -133,19 +158,45 @@ export class TFIDFEmbedder implements EmbeddingModel {
 
   /**
    * Generate embedding for a single code text.
+   * The code is tokenized as `language` (default: the configured language),
+   * but embedded in the same space whatever its language.
    */
-  async embed(code: string): Promise<Float32Array> {
-    // Tokenize the code
-    const tokens = this.tokenizer.tokenize(code);
+  async embed(code: string, language?: SupportedLanguage): Promise<Float32Array> {
+    return Promise.resolve(this.embedTermFrequencies(this.termFrequencies(code, language)));
+  }
 
-    // Update document count
-    this.documentCount++;
+  /**
+   * Tokenize code into term frequencies.
+   * Reads no model state, so it can run on any thread.
+   */
+  termFrequencies(code: string, language?: SupportedLanguage): Map<string, number> {
+    return this.computeTermFrequencies(this.tokenizerFor(language).tokenize(code));
+  }
 
-    // Get term frequencies
-    const termFreqs = this.computeTermFrequencies(tokens);
+  /**
+   * Get the tokenizer for a language; unknown code uses the configured language.
+   */
+  private tokenizerFor(language: SupportedLanguage | undefined): CodeTokenizer {
+    if (!language || language === 'unknown' || language === this.config.language) {
+      return this.tokenizer;
+    }
 
-    // Update vocabulary with new terms
-    this.updateVocabulary(termFreqs);
+    let tokenizer = this.tokenizers.get(language);
+    if (!tokenizer) {
+      tokenizer = new CodeTokenizer(language, { mode: this.config.tokenizerMode });
+      this.tokenizers.set(language, tokenizer);
+    }
+    return tokenizer;
+  }
+
+  /**
+   * Embed precomputed term frequencies, updating the vocabulary and document
+   * count (unless frozen) exactly as embed() does.
+   */
+  embedTermFrequencies(termFreqs: ReadonlyMap<string, number>): Float32Array {
+    if (!this.isFrozen) {
+      this.partialFitTermFrequencies(termFreqs);
+    }
 
     // Compute TF-IDF sparse vector
     const tfidfVector = this.computeTFIDF(termFreqs);
@@ -156,14 +207,62 @@ export class TFIDFEmbedder implements EmbeddingModel {
     // Normalize to unit vector
     this.normalize(denseVector);
 
-    return Promise.resolve(denseVector);
+    return denseVector;
+  }
+
+  /**
+   * Fit the vocabulary and document frequencies to a corpus, replacing any
+   * previous fit, then freeze the model.
+   */
+  fit(corpus: Iterable<string>): void {
+    this.reset();
+    for (const code of corpus) {
+      this.partialFit(code);
+    }
+    this.freeze();
+  }
+
+  /**
+   * Add one document to the fitted vocabulary and document frequencies.
+   * Documents can be streamed in; call freeze() after the last one.
+   */
+  partialFit(code: string, language?: SupportedLanguage): void {
+    this.partialFitTermFrequencies(this.termFrequencies(code, language));
+  }
+
+  /**
+   * Add one document's precomputed term frequencies to the fit.
+   */
+  partialFitTermFrequencies(termFreqs: ReadonlyMap<string, number>): void {
+    this.documentCount++;
+    this.updateVocabulary(termFreqs);
+  }
+
+  /**
+   * Stop learning from embedded documents, so every embedding (including
+   * queries) uses the statistics fitted so far.
+   */
+  freeze(): void {
+    this.isFrozen = true;
+
+    // Cached IDFs may predate the last documents
+    for (const entry of this.vocabulary.values()) {
+      entry.idf = undefined;
+    }
+  }
+
+  /**
+   * Whether the model is frozen.
+   */
+  get frozen(): boolean {
+    return this.isFrozen;
   }
 
   /**
    * Generate embeddings for multiple code texts.
    */
-  async embedBatch(codes: string[]): Promise<Float32Array[]> {
-    return Promise.all(codes.map((code) => this.embed(code)));
+  async embedBatch(codes: string[], language?: SupportedLanguage): Promise<Float32Array[]> {
+    return Promise.all(codes.map((code) => this.embed(code, language)));
   }
 
   /**
@@ -199,7 +298,7 @@ export class TFIDFEmbedder implements EmbeddingModel {
   /**
    * Update vocabulary with new terms.
    */
-  private updateVocabulary(termFreqs: Map<string, number>): void {
+  private updateVocabulary(termFreqs: ReadonlyMap<string, number>): void {
     for (const term of termFreqs.keys()) {
       if (!this.vocabulary.has(term)) {
         if (this.vocabulary.size < this.config.maxVocabSize) {
@@ -239,7 +338,7 @@ export class TFIDFEmbedder implements EmbeddingModel {
   /**
    * Compute TF-IDF sparse vector.
    */
-  private computeTFIDF(termFreqs: Map<string, number>): Map<number, number> {
+  private computeTFIDF(termFreqs: ReadonlyMap<string, number>): Map<number, number> {
     const tfidf = new Map<number, number>();
 
     for (const [term, tf] of termFreqs) {
@@ -324,21 +423,32 @@ export class TFIDFEmbedder implements EmbeddingModel {
   exportState(): {
     vocabulary: [string, VocabEntry][];
     documentCount: number;
+    frozen: boolean;
     config: Required<TFIDFConfig>;
   } {
     return {
       vocabulary: Array.from(this.vocabulary.entries()),
       documentCount: this.documentCount,
+      frozen: this.isFrozen,
       config: this.config,
     };
   }
 
   /**
    * Import model state from persistence.
+   *
+   * State saved before models could be frozen is imported unfrozen, so the
+   * model goes on learning as it did then.
    */
-  importState(state: ReturnType<TFIDFEmbedder['exportState']>): void {
-    this.vocabulary = new Map(state.vocabulary);
+  importState(
+    state: Omit<ReturnType<TFIDFEmbedder['exportState']>, 'frozen'> & { frozen?: boolean }
+  ): void {
+    // IDFs are recomputed, since cached ones may be stale
+    this.vocabulary = new Map(
+      state.vocabulary.map(([term, { index, docFreq }]) => [term, { index, docFreq }])
+    );
     this.documentCount = state.documentCount;
+    this.isFrozen = state.frozen ?? false;
     // Config is immutable, so we don't import it
   }
 
@@ -348,6 +458,7 @@ export class TFIDFEmbedder implements EmbeddingModel {
   reset(): void {
     this.vocabulary.clear();
     this.documentCount = 0;
+    this.isFrozen = false;
   }
 }
 
@@ -356,11 +467,13 @@ export class TFIDFEmbedder implements EmbeddingModel {
  */
 export function createTFIDFEmbedder(
   language: SupportedLanguage = 'typescript',
-  dimension: number = 384
+  dimension: number = 384,
+  tokenizerMode: TokenizerMode = 'split'
 ): TFIDFEmbedder {
   return new TFIDFEmbedder({
     language,
     dimension,
+    tokenizerMode,
     maxVocabSize: 50000,
     minDocFreq: 1,
     maxDocFreqRatio: 0.95,
@@ -33,6 +33,101 @@ export interface Token {
   position?: number;
 }
 
+/**
+ * How the tokenizer represents identifiers and literals.
+ * - 'split': identifiers are split into lowercase sub-words (`getUserName`
+ *   becomes `get`, `user`, `name`), which suits semantic search
+ * - 'abstract': identifiers become positional placeholders (`$1`, `$2`… in
+ *   first-seen order), literals become type tags and comments are dropped,
+ *   so consistently renamed copies (type-2 clones) tokenize identically
+ */
+export type TokenizerMode = 'split' | 'abstract';
+
+/**
+ * Options for {@link CodeTokenizer}.
+ */
+export interface TokenizerOptions {
+  /** How identifiers and literals are tokenized (default: 'split') */
+  mode?: TokenizerMode;
+}
+
+/**
+ * Kinds of raw lexeme produced by {@link CodeTokenizer.lex}.
+ */
+export type LexemeType =
+  | 'identifier'
+  | 'keyword'
+  | 'operator'
+  | 'punctuation'
+  | 'comment'
+  | 'string'
+  | 'number'
+  | 'unknown';
+
+/**
+ * A piece of source code exactly as written.
+ */
+export interface Lexeme {
+  /** The source text */
+  text: string;
+  /** Lexeme classification */
+  type: LexemeType;
+  /** Offset in the source */
+  position: number;
+}
+
+/**
+ * How a language writes comments.
+ */
+export interface CommentSyntax {
+  /** Markers that start a comment running to the end of the line */
+  line: readonly string[];
+  /** Opening and closing markers of block comments */
+  block: ReadonlyArray<readonly [string, string]>;
+}
+
+const C_STYLE_COMMENTS: CommentSyntax = { line: ['//'], block: [['/*', '*/']] };
+const HASH_COMMENTS: CommentSyntax = { line: ['#'], block: [] };
+
+/**
+ * Comment syntax by language. Languages not listed accept `//`, `/* *\/`
+ * and `#` comments.
+ */
+const COMMENT_SYNTAX: Partial<Record<SupportedLanguage, CommentSyntax>> = {
+  typescript: C_STYLE_COMMENTS,
+  javascript: C_STYLE_COMMENTS,
+  java: C_STYLE_COMMENTS,
+  csharp: C_STYLE_COMMENTS,
+  cpp: C_STYLE_COMMENTS,
+  c: C_STYLE_COMMENTS,
+  go: C_STYLE_COMMENTS,
+  rust: C_STYLE_COMMENTS,
+  swift: C_STYLE_COMMENTS,
+  kotlin: C_STYLE_COMMENTS,
+  scala: C_STYLE_COMMENTS,
+  objectivec: C_STYLE_COMMENTS,
+  php: { line: ['//', '#'], block: [['/*', '*/']] },
+  fsharp: { line: ['//'], block: [['(*', '*)']] },
+  python: HASH_COMMENTS,
+  ruby: { line: ['#'], block: [['=begin', '=end']] },
+  r: HASH_COMMENTS,
+  shell: HASH_COMMENTS,
+  perl: HASH_COMMENTS,
+  elixir: HASH_COMMENTS,
+  sql: { line: ['--'], block: [['/*', '*/']] },
+  lua: { line: ['--'], block: [['--[[', ']]']] },
+  haskell: { line: ['--'], block: [['{-', '-}']] },
+  erlang: { line: ['%'], block: [] },
+  clojure: { line: [';'], block: [] },
+};
+
+const DEFAULT_COMMENT_SYNTAX: CommentSyntax = { line: ['//', '#'], block: [['/*', '*/']] };
+
+/**
+ * Languages with triple-quoted (multi-line) strings.
+ */
+const TRIPLE_QUOTED_STRINGS = new Set<SupportedLanguage>(['python', 'kotlin', 'scala', 'swift']);
+
 /**
  * Language-specific keyword sets.
  */
@@ -567,122 +662,203 @@ const OPERATORS = new Set([
  * Code tokenizer for semantic analysis.
  */
 export class CodeTokenizer {
+  readonly mode: TokenizerMode;
+
   private readonly language: SupportedLanguage;
   private readonly keywords: Set<string>;
+  private readonly comments: CommentSyntax;
 
-  constructor(language: SupportedLanguage = 'typescript') {
+  constructor(language: SupportedLanguage = 'typescript', options: TokenizerOptions = {}) {
     this.language = language;
     this.keywords = KEYWORDS[language] || KEYWORDS['typescript'];
+    this.comments = COMMENT_SYNTAX[language] ?? DEFAULT_COMMENT_SYNTAX;
+    this.mode = options.mode ?? 'split';
   }
 
   /**
    * Tokenize source code into semantic tokens.
    */
   tokenize(code: string): Token[] {
-    const tokens: Token[] = [];
-    let position = 0;
+    if (this.mode === 'abstract') return this.tokenizeAbstract(code);
 
-    while (position < code.length) {
-      const remaining = code.slice(position);
-
-      // Skip whitespace
-      const whitespaceMatch = remaining.match(/^[\s\n\r\t]+/);
-      if (whitespaceMatch) {
-        position += whitespaceMatch[0].length;
-        continue;
-      }
+    const tokens: Token[] = [];
 
-      // Comments (single-line and multi-line)
-      const commentMatch = remaining.match(/^(\/\/[^\n]*|\/\*[\s\S]*?\*\/|#[^\n]*)/);
-      if (commentMatch) {
-        // Extract meaningful words from comments
-        const words = commentMatch[0].match(/[a-zA-Z_][a-zA-Z0-9_]*/g);
-        if (words) {
-          for (const word of words) {
-            if (word.length > 1) {
-              tokens.push({ value: word.toLowerCase(), type: 'comment', position });
+    for (const { text, type, position } of this.lex(code)) {
+      switch (type) {
+        case 'comment': {
+          // Extract meaningful words from comments
+          const words = text.match(/[a-zA-Z_][a-zA-Z0-9_]*/g);
+          if (words) {
+            for (const word of words) {
+              if (word.length > 1) {
+                tokens.push({ value: word.toLowerCase(), type: 'comment', position });
+              }
             }
           }
+          break;
         }
-        position += commentMatch[0].length;
-        continue;
-      }
 
-      // String literals
-      const stringMatch = remaining.match(/^(['"`])(?:(?!\1)[^\\]|\\.)*?\1/);
-      if (stringMatch) {
-        // Extract significant string content for semantics
-        const content = stringMatch[0].slice(1, -1);
-        if (content.length > 2 && content.length < 100) {
-          tokens.push({ value: 'STRING_LITERAL', type: 'string', position });
+        case 'string': {
+          // Extract significant string content for semantics
+          const content = text.slice(1, -1);
+          if (content.length > 2 && content.length < 100) {
+            tokens.push({ value: 'STRING_LITERAL', type: 'string', position });
+          }
+          break;
         }
-        position += stringMatch[0].length;
-        continue;
-      }
 
-      // Template literals (backtick strings)
-      const templateMatch = remaining.match(/^`(?:[^`\\]|\\.)*?`/);
-      if (templateMatch) {
-        tokens.push({ value: 'TEMPLATE_LITERAL', type: 'string', position });
-        position += templateMatch[0].length;
-        continue;
-      }
-
-      // Numbers
-      const numberMatch = remaining.match(
-        /^-?(?:0x[0-9a-fA-F]+|0b[01]+|0o[0-7]+|\d+\.?\d*(?:e[+-]?\d+)?)/
-      );
-      if (numberMatch) {
-        tokens.push({ value: 'NUMBER', type: 'number', position });
-        position += numberMatch[0].length;
-        continue;
-      }
+        case 'number':
+          tokens.push({ value: 'NUMBER', type: 'number', position });
+          break;
 
-      // Identifiers and keywords
-      const identifierMatch = remaining.match(/^[a-zA-Z_$][a-zA-Z0-9_$]*/);
-      if (identifierMatch) {
-        const word = identifierMatch[0];
-        if (this.keywords.has(word)) {
-          tokens.push({ value: word, type: 'keyword', position });
-        } else {
+        case 'identifier':
           // Split camelCase and snake_case identifiers
-          const subTokens = this.splitIdentifier(word);
-          for (const subToken of subTokens) {
+          for (const subToken of this.splitIdentifier(text)) {
             if (subToken.length > 1) {
               tokens.push({ value: subToken.toLowerCase(), type: 'identifier', position });
             }
           }
-        }
-        position += word.length;
-        continue;
+          break;
+
+        case 'keyword':
+        case 'operator':
+        case 'punctuation':
+          tokens.push({ value: text, type, position });
+          break;
+
+        default:
+          // Skip unknown characters
+          break;
       }
+    }
 
-      // Operators
-      let foundOperator = false;
-      for (let len = 3; len >= 1; len--) {
-        const op = remaining.slice(0, len);
-        if (OPERATORS.has(op)) {
-          tokens.push({ value: op, type: 'operator', position });
-          position += len;
-          foundOperator = true;
+    return tokens;
+  }
+
+  /**
+   * Tokenize source code with identifiers replaced by positional
+   * placeholders and literals by their type tags.
+   */
+  private tokenizeAbstract(code: string): Token[] {
+    const tokens: Token[] = [];
+    const placeholderFor = createIdentifierPlaceholders();
+
+    for (const { text, type, position } of this.lex(code)) {
+      switch (type) {
+        case 'identifier':
+          tokens.push({ value: placeholderFor(text), type, position });
+          break;
+
+        case 'string':
+          tokens.push({ value: 'STRING_LITERAL', type, position });
+          break;
+
+        case 'number':
+          tokens.push({ value: 'NUMBER', type, position });
+          break;
+
+        case 'keyword':
+        case 'operator':
+        case 'punctuation':
+          tokens.push({ value: text, type, position });
+          break;
+
+        default:
+          // Comments and unknown characters are not part of the code's shape
           break;
-        }
       }
-      if (foundOperator) continue;
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Split source code into lexemes, keeping their text as written.
+   *
+   * Whitespace is dropped; comments and strings follow the language's
+   * syntax, so `//` is only a comment where the language says so and
+   * comment markers inside strings are left alone. Characters that start no
+   * lexeme come back one at a time as `unknown`.
+   */
+  lex(code: string): Lexeme[] {
+    const lexemes: Lexeme[] = [];
+    let position = 0;
+
+    while (position < code.length) {
+      const remaining = code.slice(position);
 
-      // Punctuation (brackets, braces, etc.)
-      const punctMatch = remaining.match(/^[(){}[\];,]/);
-      if (punctMatch) {
-        tokens.push({ value: punctMatch[0], type: 'punctuation', position });
-        position += 1;
+      // Skip whitespace
+      const whitespaceMatch = remaining.match(/^\s+/);
+      if (whitespaceMatch) {
+        position += whitespaceMatch[0].length;
         continue;
       }
 
-      // Skip unknown characters
-      position++;
+      const [text, type] = this.matchLexeme(remaining);
+      lexemes.push({ text, type, position });
+      position += text.length;
     }
 
-    return tokens;
+    return lexemes;
+  }
+
+  /**
+   * Matches the lexeme at the start of the remaining code.
+   */
+  private matchLexeme(remaining: string): [string, LexemeType] {
+    const comment = this.matchComment(remaining);
+    if (comment !== undefined) return [comment, 'comment'];
+
+    // String literals
+    const stringMatch =
+      (TRIPLE_QUOTED_STRINGS.has(this.language) ? remaining.match(/^("""|''')[\s\S]*?\1/) : null) ??
+      remaining.match(/^(['"`])(?:(?!\1)[^\\]|\\.)*?\1/);
+    if (stringMatch) return [stringMatch[0], 'string'];
+
+    // Numbers
+    const numberMatch = remaining.match(
+      /^-?(?:0x[0-9a-fA-F]+|0b[01]+|0o[0-7]+|\d+\.?\d*(?:e[+-]?\d+)?)/
+    );
+    if (numberMatch) return [numberMatch[0], 'number'];
+
+    // Identifiers and keywords
+    const identifierMatch = remaining.match(/^[a-zA-Z_$][a-zA-Z0-9_$]*/);
+    if (identifierMatch) {
+      const word = identifierMatch[0];
+      return [word, this.keywords.has(word) ? 'keyword' : 'identifier'];
+    }
+
+    // Operators
+    for (let len = 3; len >= 1; len--) {
+      const op = remaining.slice(0, len);
+      if (OPERATORS.has(op)) return [op, 'operator'];
+    }
+
+    // Punctuation (brackets, braces, etc.)
+    if (/^[(){}[\];,]/.test(remaining)) return [remaining[0], 'punctuation'];
+
+    return [remaining[0], 'unknown'];
+  }
+
+  /**
+   * Matches a comment at the start of the remaining code.
+   *
+   * @returns The comment text, or `undefined` if no comment starts here
+   */
+  private matchComment(remaining: string): string | undefined {
+    for (const [open, close] of this.comments.block) {
+      if (!remaining.startsWith(open)) continue;
+      const end = remaining.indexOf(close, open.length);
+      if (end >= 0) return remaining.slice(0, end + close.length);
+    }
+
+    for (const marker of this.comments.line) {
+      if (!remaining.startsWith(marker)) continue;
+      const end = remaining.indexOf('\n');
+      return end >= 0 ? remaining.slice(0, end) : remaining;
+    }
+
+    return undefined;
   }
 
   /**
@@ -760,6 +936,24 @@ export class CodeTokenizer {
 }
 
 /**
- * Export keywords for external use.
+ * Creates a function that names identifiers by order of first appearance:
+ * the first distinct identifier becomes `$1`, the next `$2`, and repeats
+ * keep the placeholder they were first given.
+ */
+export function createIdentifierPlaceholders(): (identifier: string) => string {
+  const placeholders = new Map<string, string>();
+
+  return (identifier) => {
+    let placeholder = placeholders.get(identifier);
+    if (!placeholder) {
+      placeholder = `$${placeholders.size + 1}`;
+      placeholders.set(identifier, placeholder);
+    }
+    return placeholder;
+  };
+}
+
+/**
+ * Export keywords and comment syntax for external use.
  */
-export { KEYWORDS, OPERATORS };
+export { KEYWORDS, OPERATORS, COMMENT_SYNTAX };
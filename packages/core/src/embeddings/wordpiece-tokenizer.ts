@@ -0,0 +1,180 @@
+/**
+ * @nlci/core - WordPiece Tokenizer
+ *
+ * Turns code into the token IDs a BERT-style ONNX encoder expects, using the
+ * model's `vocab.txt` (one token per line, line number = token ID).
+ */
+
+import { readFile } from 'fs/promises';
+
+/**
+ * Token IDs and attention mask for one input, padded to a fixed length.
+ */
+export interface EncodedInput {
+  /** Token IDs, starting with `[CLS]` and ending with `[SEP]` before any padding */
+  inputIds: number[];
+
+  /** 1 for real tokens, 0 for padding */
+  attentionMask: number[];
+}
+
+/**
+ * Options for {@link WordPieceTokenizer}.
+ */
+export interface WordPieceOptions {
+  /** Lowercase text before looking tokens up (uncased vocabularies) (default: true) */
+  lowercase?: boolean;
+
+  /** Words longer than this become `[UNK]` (default: 100) */
+  maxWordLength?: number;
+}
+
+/** Special tokens of BERT-style vocabularies */
+const PAD = '[PAD]';
+const UNK = '[UNK]';
+const CLS = '[CLS]';
+const SEP = '[SEP]';
+
+/** Prefix of tokens that continue a word */
+const CONTINUATION = '##';
+
+/**
+ * Greedy longest-match-first WordPiece tokenizer.
+ *
+ * Text is split on whitespace, and every punctuation or symbol character is a
+ * word of its own, so `a.b()` becomes `a`, `.`, `b`, `(` and `)` before the
+ * vocabulary is applied.
+ */
+export class WordPieceTokenizer {
+  private readonly vocab: Map<string, number>;
+  private readonly lowercase: boolean;
+  private readonly maxWordLength: number;
+
+  private readonly padId: number;
+  private readonly unkId: number;
+  private readonly clsId: number;
+  private readonly sepId: number;
+
+  /**
+   * @param tokens - Vocabulary in ID order
+   * @param options - Tokenization options
+   */
+  constructor(tokens: readonly string[], options: WordPieceOptions = {}) {
+    this.vocab = new Map(tokens.map((token, id) => [token, id]));
+    this.lowercase = options.lowercase ?? true;
+    this.maxWordLength = options.maxWordLength ?? 100;
+
+    this.padId = this.specialId(PAD);
+    this.unkId = this.specialId(UNK);
+    this.clsId = this.specialId(CLS);
+    this.sepId = this.specialId(SEP);
+  }
+
+  /**
+   * Loads a tokenizer from a `vocab.txt` file.
+   */
+  static async fromFile(
+    vocabPath: string,
+    options?: WordPieceOptions
+  ): Promise<WordPieceTokenizer> {
+    const content = await readFile(vocabPath, 'utf-8');
+    const tokens = content.split(/\r?\n/);
+
+    // A trailing newline is not a token
+    if (tokens[tokens.length - 1] === '') tokens.pop();
+
+    return new WordPieceTokenizer(tokens, options);
+  }
+
+  /**
+   * Number of tokens in the vocabulary.
+   */
+  get vocabSize(): number {
+    return this.vocab.size;
+  }
+
+  /**
+   * Splits text into vocabulary tokens, without special tokens.
+   */
+  tokenize(text: string): string[] {
+    const tokens: string[] = [];
+    for (const word of this.words(text)) {
+      tokens.push(...this.wordPieces(word));
+    }
+    return tokens;
+  }
+
+  /**
+   * Encodes text as `[CLS] tokens [SEP]`, truncated and padded to `length`.
+   *
+   * @param text - Text to encode
+   * @param length - Sequence length, including the special tokens (at least 2)
+   */
+  encode(text: string, length: number): EncodedInput {
+    const ids = this.tokenize(text)
+      .slice(0, Math.max(0, length - 2))
+      .map((token) => this.vocab.get(token) ?? this.unkId);
+
+    const inputIds = [this.clsId, ...ids, this.sepId];
+    const attentionMask = inputIds.map(() => 1);
+
+    while (inputIds.length < length) {
+      inputIds.push(this.padId);
+      attentionMask.push(0);
+    }
+
+    return { inputIds, attentionMask };
+  }
+
+  /**
+   * Splits text into words: runs of letters, digits and underscores, and
+   * single other characters.
+   */
+  private words(text: string): string[] {
+    const normalized = this.lowercase ? text.toLowerCase() : text;
+    return normalized.match(/[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) ?? [];
+  }
+
+  /**
+   * Splits a word into the longest vocabulary tokens, or `[UNK]` when it
+   * cannot be covered.
+   */
+  private wordPieces(word: string): string[] {
+    const chars = [...word];
+    if (chars.length > this.maxWordLength) return [UNK];
+
+    const pieces: string[] = [];
+    let start = 0;
+
+    while (start < chars.length) {
+      let end = chars.length;
+      let piece: string | undefined;
+
+      while (start < end) {
+        const candidate = (start > 0 ? CONTINUATION : '') + chars.slice(start, end).join('');
+        if (this.vocab.has(candidate)) {
+          piece = candidate;
+          break;
+        }
+        end--;
+      }
+
+      if (!piece) return [UNK];
+      pieces.push(piece);
+      start = end;
+    }
+
+    return pieces;
+  }
+
+  /**
+   * Gets the ID of a special token the vocabulary must define.
+   */
+  private specialId(token: string): number {
+    const id = this.vocab.get(token);
+    if (id === undefined) {
+      throw new Error(`Vocabulary has no ${token} token`);
+    }
+    return id;
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * @nlci/core - Block Filter Tests
+ *
+ * Tests for language and path filtering of query candidates
+ */
+
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { createCodeBlock, type SupportedLanguage } from '../../types/code-block.js';
+import { createBlockFilter } from '../block-filter.js';
+
+describe('createBlockFilter()', () => {
+  const block = (filePath: string, language: SupportedLanguage = 'typescript') =>
+    createCodeBlock({
+      filePath,
+      language,
+      content: 'const value = 1;',
+      startLine: 1,
+      endLine: 1,
+    });
+
+  it('should return undefined when nothing is filtered', () => {
+    expect(createBlockFilter({})).toBeUndefined();
+    expect(
+      createBlockFilter({ languages: [], includePatterns: [], excludePatterns: [] })
+    ).toBeUndefined();
+  });
+
+  it('should keep only the given languages', () => {
+    const filter = createBlockFilter({ languages: ['python'] })!;
+
+    expect(filter(block('/repo/a.py', 'python'))).toBe(true);
+    expect(filter(block('/repo/a.ts'))).toBe(false);
+  });
+
+  it('should match patterns against paths relative to the root directory', () => {
+    const filter = createBlockFilter({ includePatterns: ['src/**'], rootDir: '/repo' })!;
+
+    expect(filter(block('/repo/src/a.ts'))).toBe(true);
+    expect(filter(block('/repo/src/nested/b.ts'))).toBe(true);
+    expect(filter(block('/repo/lib/a.ts'))).toBe(false);
+  });
+
+  it('should drop paths matching exclude patterns', () => {
+    const filter = createBlockFilter({
+      excludePatterns: ['**/*.test.ts', 'node_modules/**'],
+      rootDir: '/repo/',
+    })!;
+
+    expect(filter(block('/repo/src/a.ts'))).toBe(true);
+    expect(filter(block('/repo/src/a.test.ts'))).toBe(false);
+    expect(filter(block('/repo/node_modules/pkg/index.ts'))).toBe(false);
+  });
+
+  it('should not match directories above the root directory', () => {
+    const filter = createBlockFilter({ excludePatterns: ['build/**'], rootDir: '/ci/build/repo' })!;
+
+    expect(filter(block('/ci/build/repo/src/a.ts'))).toBe(true);
+    expect(filter(block('/ci/build/repo/build/out.ts'))).toBe(false);
+  });
+
+  it('should default the root directory to the working directory', () => {
+    const filter = createBlockFilter({ includePatterns: ['src/**'] })!;
+
+    expect(filter(block(path.join(process.cwd(), 'src', 'a.ts')))).toBe(true);
+    expect(filter(block(path.join(process.cwd(), 'lib', 'a.ts')))).toBe(false);
+  });
+
+  it('should normalize Windows separators', () => {
+    const filter = createBlockFilter({ includePatterns: ['src/**'], rootDir: 'C:\\repo' })!;
+
+    expect(filter(block('C:\\repo\\src\\a.ts'))).toBe(true);
+  });
+
+  it('should match relative paths and dotfiles', () => {
+    const filter = createBlockFilter({ includePatterns: ['**/*.ts'] })!;
+
+    expect(filter(block('src/a.ts'))).toBe(true);
+    expect(filter(block('/repo/.config/a.ts'))).toBe(true);
+  });
+});
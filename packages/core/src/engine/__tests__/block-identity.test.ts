@@ -0,0 +1,98 @@
+/**
+ * @nlci/core - Block Identity Tests
+ *
+ * Tests for stable block IDs and matching blocks across re-indexing
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createCodeBlock, type CodeBlock } from '../../types/code-block.js';
+import { mapBlockIds, stableIdOf } from '../block-identity.js';
+
+describe('block identity', () => {
+  const block = (name: string, content: string, startLine: number): CodeBlock =>
+    createCodeBlock({
+      filePath: 'src/a.ts',
+      language: 'typescript',
+      blockType: 'function',
+      name,
+      content,
+      startLine,
+      endLine: startLine + 2,
+    });
+
+  describe('createCodeBlock()', () => {
+    it('should hash content with SHA-256', () => {
+      expect(block('f', 'return 1;', 1).contentHash).toBe(
+        'f58b7c3af621b52a2bb7dc67d4491f9ab6c6d16e3cfa1e46e670ff4f9a301fdc'
+      );
+      expect(block('f', 'return 1;', 1).contentHash).not.toBe(
+        block('f', 'return 2;', 1).contentHash
+      );
+    });
+
+    it('should keep the stable ID when a block moves', () => {
+      const before = block('f', 'return 1;', 1);
+      const after = block('f', 'return 1;', 5);
+
+      expect(after.id).not.toBe(before.id);
+      expect(after.stableId).toBe(before.stableId);
+    });
+
+    it('should change the stable ID when the content changes', () => {
+      expect(block('f', 'return 2;', 1).stableId).not.toBe(block('f', 'return 1;', 1).stableId);
+    });
+  });
+
+  describe('mapBlockIds()', () => {
+    it('should map moved blocks to their new IDs', () => {
+      const previous = [block('f', 'return 1;', 1), block('g', 'return 2;', 5)];
+      const current = [block('f', 'return 1;', 3), block('g', 'return 2;', 7)];
+
+      expect(mapBlockIds(previous, current)).toEqual(
+        new Map([
+          ['src/a.ts:1-3', 'src/a.ts:3-5'],
+          ['src/a.ts:5-7', 'src/a.ts:7-9'],
+        ])
+      );
+    });
+
+    it('should leave out blocks that did not move', () => {
+      const blocks = [block('f', 'return 1;', 1)];
+      expect(mapBlockIds(blocks, [block('f', 'return 1;', 1)]).size).toBe(0);
+    });
+
+    it('should match an edited block by kind and name', () => {
+      const previous = [block('f', 'return 1;', 1)];
+      const current = [block('f', 'return 100;', 4)];
+
+      expect(mapBlockIds(previous, current)).toEqual(new Map([['src/a.ts:1-3', 'src/a.ts:4-6']]));
+    });
+
+    it('should match identical blocks in order of appearance', () => {
+      const previous = [block('f', 'return 1;', 1), block('f', 'return 1;', 5)];
+      const current = [block('f', 'return 1;', 10), block('f', 'return 1;', 2)];
+
+      expect(mapBlockIds(previous, current)).toEqual(
+        new Map([
+          ['src/a.ts:1-3', 'src/a.ts:2-4'],
+          ['src/a.ts:5-7', 'src/a.ts:10-12'],
+        ])
+      );
+    });
+
+    it('should leave out removed blocks', () => {
+      const previous = [block('f', 'return 1;', 1), block('g', 'return 2;', 5)];
+      const current = [block('g', 'return 2;', 1)];
+
+      expect(mapBlockIds(previous, current)).toEqual(new Map([['src/a.ts:5-7', 'src/a.ts:1-3']]));
+    });
+
+    it('should match blocks indexed before they had stable IDs', () => {
+      const { stableId: _stableId, ...saved } = block('f', 'return 1;', 1);
+      const current = [block('f', 'return 1;', 3)];
+
+      expect(stableIdOf(saved)).toBe(current[0].stableId);
+      expect(mapBlockIds([saved], current)).toEqual(new Map([['src/a.ts:1-3', 'src/a.ts:3-5']]));
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * @nlci/core - Clone Classifier Tests
+ *
+ * Tests for structural clone-type classification
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createCodeBlock } from '../../types/code-block.js';
+import { abstractTokens, classifyClone } from '../clone-classifier.js';
+
+describe('clone classifier', () => {
+  const block = (content: string) =>
+    createCodeBlock({
+      filePath: 'test.ts',
+      language: 'typescript',
+      content,
+      startLine: 1,
+      endLine: content.split('\n').length,
+      blockType: 'function',
+    });
+
+  describe('classifyClone()', () => {
+    it('should classify copies differing only in comments and whitespace as type-1', () => {
+      const result = classifyClone(
+        block('function add(a, b) {\n  // sum\n  return a + b;\n}'),
+        block('function add(a, b) { /* adds */ return a + b; }')
+      );
+
+      expect(result).toEqual({ cloneType: 'type-1', reason: 'normalized-text' });
+    });
+
+    it('should classify renamed identifiers and changed literals as type-2', () => {
+      const result = classifyClone(
+        block('function add(first, second) { return first + second + 1; }'),
+        block('function sumValues(left, right) { return left + right + 2; }')
+      );
+
+      expect(result).toEqual({ cloneType: 'type-2', reason: 'abstracted-tokens' });
+    });
+
+    it('should classify single-letter renames as type-2', () => {
+      const result = classifyClone(
+        block('function sum(list){let t=0;for(const v of list){t+=v}return t}'),
+        block('function add(xs){let a=0;for(const x of xs){a+=x}return a}')
+      );
+
+      expect(result).toEqual({ cloneType: 'type-2', reason: 'abstracted-tokens' });
+    });
+
+    it('should classify literal-only changes as type-2, however short the literal', () => {
+      const result = classifyClone(
+        block('function greet() { return "hi"; }'),
+        block('function greet() { return "hello"; }')
+      );
+
+      expect(result).toEqual({ cloneType: 'type-2', reason: 'abstracted-tokens' });
+    });
+
+    it('should not classify inconsistent renames as type-2', () => {
+      const result = classifyClone(
+        block('function f(a) { return a + a; }'),
+        block('function f(x, y) { return x + y; }')
+      );
+
+      expect(result.cloneType).not.toBe('type-2');
+    });
+
+    it('should classify copies with an added statement as type-3', () => {
+      const result = classifyClone(
+        block(
+          'function total(items) { let sum = 0; for (const item of items) { sum += item.price; } return sum; }'
+        ),
+        block(
+          'function total(items) { let sum = 0; for (const item of items) { sum += item.price; log(item); } return sum; }'
+        )
+      );
+
+      expect(result).toEqual({ cloneType: 'type-3', reason: 'token-alignment' });
+    });
+
+    it('should fall back to type-4 for structurally different code', () => {
+      const result = classifyClone(
+        block(
+          'function total(items) { let sum = 0; for (const item of items) { sum += item; } return sum; }'
+        ),
+        block('const total = (items) => items.reduce((a, b) => a + b, 0);')
+      );
+
+      expect(result).toEqual({ cloneType: 'type-4', reason: 'embedding-similarity' });
+    });
+
+    it('should honour a custom type-3 threshold', () => {
+      const source = block('function f(a) { return a; }');
+      const target = block('function f(a) { log(a); return a; }');
+
+      expect(classifyClone(source, target, new Map(), 0).cloneType).toBe('type-4');
+      expect(classifyClone(source, target, new Map(), 1).cloneType).toBe('type-3');
+    });
+  });
+
+  describe('abstractTokens()', () => {
+    it('should number identifiers by first appearance, however short', () => {
+      expect(abstractTokens('t = v + t', 'typescript')).toEqual([
+        'identifier:$1',
+        'operator:=',
+        'identifier:$2',
+        'operator:+',
+        'identifier:$1',
+      ]);
+    });
+
+    it('should reduce literals to their types and drop comments', () => {
+      expect(abstractTokens('return "a" + 1; // note', 'typescript')).toEqual([
+        'keyword:return',
+        'string:STRING_LITERAL',
+        'operator:+',
+        'number:NUMBER',
+        'punctuation:;',
+      ]);
+    });
+  });
+});
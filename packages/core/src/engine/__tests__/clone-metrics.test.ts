@@ -0,0 +1,132 @@
+/**
+ * @nlci/core - Clone Metrics Tests
+ *
+ * Tests for token-level shared-token counts and edit distance
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createCodeBlock } from '../../types/code-block.js';
+import {
+  compareTokens,
+  comparisonTokens,
+  computeCloneMetrics,
+  tokenEditDistance,
+} from '../clone-metrics.js';
+
+describe('clone metrics', () => {
+  describe('tokenEditDistance()', () => {
+    it('should return 0 for identical sequences', () => {
+      expect(tokenEditDistance(['a', 'b', 'c'], ['a', 'b', 'c'])).toBe(0);
+    });
+
+    it('should count insertions, deletions and substitutions', () => {
+      expect(tokenEditDistance(['a', 'b', 'c'], ['a', 'x', 'c'])).toBe(1);
+      expect(tokenEditDistance(['a', 'b', 'c'], ['a', 'c'])).toBe(1);
+      expect(tokenEditDistance(['a', 'c'], ['a', 'b', 'c', 'd'])).toBe(2);
+    });
+
+    it('should handle empty sequences', () => {
+      expect(tokenEditDistance([], [])).toBe(0);
+      expect(tokenEditDistance([], ['a', 'b'])).toBe(2);
+      expect(tokenEditDistance(['a', 'b', 'c'], [])).toBe(3);
+    });
+
+    it('should be exact when the distance fits in the band', () => {
+      const source = Array.from({ length: 200 }, (_, i) => `t${i}`);
+      const target = [...source];
+      target[10] = 'x';
+      target[150] = 'y';
+
+      expect(tokenEditDistance(source, target, 4)).toBe(2);
+    });
+
+    it('should return an upper bound when the distance exceeds the band', () => {
+      const source = ['a', 'b', 'c', 'd', 'e', 'f'];
+      const target = ['f', 'e', 'd', 'c', 'b', 'a'];
+
+      const exact = tokenEditDistance(source, target, 10);
+      expect(tokenEditDistance(source, target, 1)).toBeGreaterThanOrEqual(exact);
+    });
+
+    it('should return the length difference when it alone exceeds maxDistance', () => {
+      const source = Array.from({ length: 10 }, (_, i) => `t${i}`);
+      const target = Array.from({ length: 100 }, (_, i) => `u${i}`);
+
+      expect(tokenEditDistance(source, target, 128, 30)).toBe(90);
+      expect(tokenEditDistance(source, target, 128)).toBe(100);
+    });
+  });
+
+  describe('compareTokens()', () => {
+    it('should count shared tokens as a multiset intersection', () => {
+      const metrics = compareTokens(['a', 'a', 'b'], ['a', 'b', 'b', 'c']);
+
+      expect(metrics.sharedTokens).toBe(2);
+      expect(metrics.totalTokens).toBe(5);
+    });
+
+    it('should normalize edit distance by the longer sequence', () => {
+      const metrics = compareTokens(['a', 'b', 'c', 'd'], ['a', 'x', 'c', 'd']);
+
+      expect(metrics.editDistance).toBe(0.25);
+    });
+
+    it('should stop at the length difference beyond maxEditDistance', () => {
+      expect(compareTokens(['a'], ['b', 'c', 'd', 'e'], 128, 0.3).editDistance).toBe(0.75);
+      expect(compareTokens(['a'], ['b', 'c', 'd', 'e']).editDistance).toBe(1);
+    });
+
+    it('should report zero distance for two empty sequences', () => {
+      expect(compareTokens([], [])).toEqual({ sharedTokens: 0, totalTokens: 0, editDistance: 0 });
+    });
+  });
+
+  describe('comparisonTokens()', () => {
+    it('should skip comments', () => {
+      const withComment = comparisonTokens('// note\nconst x = 1;', 'typescript');
+      const without = comparisonTokens('const x = 1;', 'typescript');
+
+      expect(withComment).toEqual(without);
+    });
+  });
+
+  describe('computeCloneMetrics()', () => {
+    const block = (content: string) =>
+      createCodeBlock({
+        filePath: 'test.ts',
+        language: 'typescript',
+        content,
+        startLine: 1,
+        endLine: 1,
+        blockType: 'function',
+      });
+
+    it('should report identical blocks as fully shared', () => {
+      const code = 'function add(a, b) { return a + b; }';
+      const metrics = computeCloneMetrics(block(code), block(code));
+
+      expect(metrics.sharedTokens).toBe(metrics.totalTokens);
+      expect(metrics.editDistance).toBe(0);
+    });
+
+    it('should reflect renamed identifiers', () => {
+      const metrics = computeCloneMetrics(
+        block('function add(a, b) { return a + b; }'),
+        block('function sum(x, y) { return x + y; }')
+      );
+
+      expect(metrics.sharedTokens).toBeLessThan(metrics.totalTokens);
+      expect(metrics.editDistance).toBeGreaterThan(0);
+      expect(metrics.editDistance).toBeLessThan(1);
+    });
+
+    it('should reuse cached tokens for repeated content', () => {
+      const cache = new Map<string, string[]>();
+      const code = 'const value = 42;';
+
+      computeCloneMetrics(block(code), block(code), cache);
+
+      expect(cache.size).toBe(1);
+    });
+  });
+});
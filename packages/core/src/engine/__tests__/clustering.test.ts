@@ -0,0 +1,87 @@
+/**
+ * @nlci/core - Clone Clustering Tests
+ *
+ * Tests for the strategies that group clone pairs into clusters
+ */
+
+import { describe, expect, it } from 'vitest';
+import { clusterLinks, type ClusterLink, type ClusteringOptions } from '../clustering.js';
+
+describe('clusterLinks()', () => {
+  // A~B and B~C are close, but A and C are not
+  const similarities: Record<string, number> = { 'a|b': 0.9, 'b|c': 0.9, 'a|c': 0.5 };
+  const similarity = (x: string, y: string): number => similarities[[x, y].sort().join('|')] ?? 0;
+
+  const chain: ClusterLink[] = [
+    { sourceId: 'a', targetId: 'b', similarity: 0.9 },
+    { sourceId: 'b', targetId: 'c', similarity: 0.9 },
+  ];
+
+  const cluster = (
+    links: readonly ClusterLink[],
+    ids: readonly string[],
+    options: Partial<ClusteringOptions>
+  ): string[][] =>
+    clusterLinks(ids, links, {
+      strategy: 'single-linkage',
+      minSimilarity: 0.8,
+      maxDiameter: 2,
+      similarity,
+      ...options,
+    })
+      .map((members) => [...members].sort())
+      .sort((x, y) => y.length - x.length || x[0].localeCompare(y[0]));
+
+  it('should chain linked blocks under single-linkage', () => {
+    expect(cluster(chain, ['a', 'b', 'c'], {})).toEqual([['a', 'b', 'c']]);
+  });
+
+  it('should keep single blocks as their own clusters', () => {
+    expect(cluster(chain, ['a', 'b', 'c', 'd'], {})).toEqual([['a', 'b', 'c'], ['d']]);
+  });
+
+  it('should refuse merges with a dissimilar pair under complete-linkage', () => {
+    expect(cluster(chain, ['a', 'b', 'c'], { strategy: 'complete-linkage' })).toEqual([
+      ['a', 'b'],
+      ['c'],
+    ]);
+  });
+
+  it('should merge on the mean cross similarity under average-linkage', () => {
+    expect(cluster(chain, ['a', 'b', 'c'], { strategy: 'average-linkage' })).toEqual([
+      ['a', 'b'],
+      ['c'],
+    ]);
+    expect(
+      cluster(chain, ['a', 'b', 'c'], { strategy: 'average-linkage', minSimilarity: 0.7 })
+    ).toEqual([['a', 'b', 'c']]);
+  });
+
+  it('should limit the number of links between members under diameter-limited', () => {
+    const path: ClusterLink[] = [...chain, { sourceId: 'c', targetId: 'd', similarity: 0.85 }];
+
+    expect(cluster(path, ['a', 'b', 'c', 'd'], { strategy: 'diameter-limited' })).toEqual([
+      ['a', 'b', 'c'],
+      ['d'],
+    ]);
+    expect(
+      cluster(path, ['a', 'b', 'c', 'd'], { strategy: 'diameter-limited', maxDiameter: 3 })
+    ).toEqual([['a', 'b', 'c', 'd']]);
+  });
+
+  it('should merge the most similar links first', () => {
+    const links: ClusterLink[] = [
+      { sourceId: 'a', targetId: 'b', similarity: 0.81 },
+      { sourceId: 'b', targetId: 'c', similarity: 0.95 },
+    ];
+
+    expect(cluster(links, ['a', 'b', 'c'], { strategy: 'complete-linkage' })).toEqual([
+      ['b', 'c'],
+      ['a'],
+    ]);
+  });
+
+  it('should ignore links to unknown blocks', () => {
+    expect(cluster(chain, ['a', 'b'], {})).toEqual([['a', 'b']]);
+  });
+});
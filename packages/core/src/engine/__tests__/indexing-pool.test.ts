@@ -0,0 +1,245 @@
+/**
+ * @nlci/core - Indexing Pool Tests
+ *
+ * The worker entry is bundled with tsup into a temp directory, since worker
+ * threads can't load the TypeScript sources directly.
+ */
+
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { build } from 'tsup';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ASTEmbedder } from '../../embeddings/ast-embedder.js';
+import { createTFIDFEmbedder } from '../../embeddings/tfidf-embedder.js';
+import { createGrammarLoader } from '../../parser/auto-parser.js';
+import type { SupportedLanguage } from '../../types/code-block.js';
+import { IndexingPool, createTaskRunner, prepareFile } from '../indexing-pool.js';
+import { MockEmbeddingModel, SimpleCodeParser } from '../indexer.js';
+import { NLCIEngine } from '../nlci-engine.js';
+
+const sampleCode = `
+function add(a: number, b: number) {
+  const sum = a + b;
+  return sum;
+}
+
+function tiny() {
+  return 1;
+}
+`;
+
+describe('prepareFile()', () => {
+  const parser = new SimpleCodeParser();
+
+  it('should keep only blocks of at least minBlockSize tokens', async () => {
+    const all = await prepareFile(
+      { filePath: 'a.ts', content: sampleCode, minBlockSize: 1 },
+      parser
+    );
+    const large = await prepareFile(
+      { filePath: 'a.ts', content: sampleCode, minBlockSize: 12 },
+      parser
+    );
+
+    expect(all.blocks.map((b) => b.name)).toEqual(['add', 'tiny']);
+    expect(large.blocks.map((b) => b.name)).toEqual(['add']);
+  });
+
+  it('should honour a language override', async () => {
+    const prepared = await prepareFile(
+      { filePath: 'a.txt', content: sampleCode, minBlockSize: 1, language: 'javascript' },
+      parser
+    );
+
+    expect(prepared.blocks.every((b) => b.language === 'javascript')).toBe(true);
+  });
+
+  it('should prefer parseAsync when the parser has it', async () => {
+    const asyncParser = {
+      supportedLanguages: parser.supportedLanguages,
+      parse: vi.fn(),
+      parseAsync: vi.fn((source: string, filePath: string, language?: SupportedLanguage) =>
+        Promise.resolve(parser.parse(source, filePath, language))
+      ),
+    };
+
+    const prepared = await prepareFile(
+      { filePath: 'a.ts', content: sampleCode, minBlockSize: 1 },
+      asyncParser
+    );
+
+    expect(asyncParser.parse).not.toHaveBeenCalled();
+    expect(asyncParser.parseAsync).toHaveBeenCalledWith(sampleCode, 'a.ts', 'typescript');
+    expect(prepared.blocks.map((b) => b.name)).toEqual(['add', 'tiny']);
+  });
+});
+
+describe('createTaskRunner()', () => {
+  const task = { filePath: 'a.ts', content: sampleCode, minBlockSize: 1 };
+
+  it('should return TF-IDF term frequencies instead of embeddings', async () => {
+    const [prepared] = await createTaskRunner({ modelType: 'tfidf', dimension: 64 })([task]);
+    const tfidf = createTFIDFEmbedder('typescript', 64);
+
+    expect(prepared!.embeddings).toBeUndefined();
+    expect(prepared!.termFrequencies).toEqual(
+      prepared!.blocks.map((b) => [...tfidf.termFrequencies(b.content)])
+    );
+  });
+
+  it('should tokenize TF-IDF terms in the configured tokenizer mode', async () => {
+    const [prepared] = await createTaskRunner({
+      modelType: 'tfidf',
+      tokenizerMode: 'abstract',
+      dimension: 64,
+    })([task]);
+    const tfidf = createTFIDFEmbedder('typescript', 64, 'abstract');
+
+    expect(prepared!.termFrequencies).toEqual(
+      prepared!.blocks.map((b) => [...tfidf.termFrequencies(b.content)])
+    );
+  });
+
+  it('should embed blocks for stateless models', async () => {
+    const [prepared] = await createTaskRunner({ modelType: 'mock', dimension: 64 })([task]);
+    const model = new MockEmbeddingModel(64);
+
+    expect(prepared!.termFrequencies).toBeUndefined();
+    expect(prepared!.embeddings).toEqual(
+      await model.embedBatch(prepared!.blocks.map((b) => b.content))
+    );
+  });
+
+  it('should embed blocks structurally in the worker for AST models', async () => {
+    const grammars = { nodeModules: false, baseUrl: false as const };
+    const [prepared] = await createTaskRunner({ modelType: 'ast', dimension: 64, grammars })([
+      task,
+    ]);
+    const model = new ASTEmbedder({ dimension: 64, grammarLoader: createGrammarLoader(grammars) });
+
+    expect(prepared!.embeddings).toEqual(
+      await model.embedBatch(
+        prepared!.blocks.map((b) => b.content),
+        'typescript'
+      )
+    );
+  });
+
+  it.each(['onnx', 'composite', 'registered-model'])(
+    'should leave embedding to the main thread for %s models',
+    async (modelType) => {
+      const [prepared] = await createTaskRunner({ modelType, dimension: 64 })([task]);
+
+      expect(prepared!.blocks.length).toBeGreaterThan(0);
+      expect(prepared!.embeddings).toBeUndefined();
+      expect(prepared!.termFrequencies).toBeUndefined();
+    }
+  );
+});
+
+describe('IndexingPool', () => {
+  let workerDir: string;
+  let workerScript: string;
+  let root: string;
+
+  beforeAll(async () => {
+    workerDir = await mkdtemp(join(tmpdir(), 'nlci-worker-'));
+    await build({
+      entry: { 'indexing-worker': resolve(__dirname, '../indexing-worker.ts') },
+      outDir: workerDir,
+      format: ['esm'],
+      platform: 'node',
+      noExternal: [/.*/],
+      outExtension: () => ({ js: '.mjs' }),
+      config: false,
+      silent: true,
+    });
+    workerScript = join(workerDir, 'indexing-worker.mjs');
+
+    root = await mkdtemp(join(tmpdir(), 'nlci-pool-'));
+    await mkdir(join(root, 'src'), { recursive: true });
+    for (let i = 0; i < 12; i++) {
+      await writeFile(
+        join(root, 'src', `file${String(i).padStart(2, '0')}.ts`),
+        sampleCode.replace('add', `add${i}`).replace('a + b', `a + b + ${i}`)
+      );
+    }
+  }, 60000);
+
+  afterAll(async () => {
+    await rm(workerDir, { recursive: true, force: true });
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should prepare batches on worker threads', async () => {
+    const pool = new IndexingPool(2, workerScript, { modelType: 'mock', dimension: 64 });
+
+    try {
+      const batches = await Promise.all([
+        pool.run([{ filePath: 'a.ts', content: sampleCode, minBlockSize: 1 }]),
+        pool.run([{ filePath: 'b.ts', content: sampleCode, minBlockSize: 1 }]),
+        pool.run([{ filePath: 'c.ts', content: sampleCode, minBlockSize: 1 }]),
+      ]);
+
+      expect(batches.map((results) => results.map((r) => r.filePath))).toEqual([
+        ['a.ts'],
+        ['b.ts'],
+        ['c.ts'],
+      ]);
+      expect(batches[0]![0]!.embeddings).toHaveLength(2);
+    } finally {
+      await pool.terminate();
+    }
+  });
+
+  it('should reject batches after terminate()', async () => {
+    const pool = new IndexingPool(1, workerScript, { modelType: 'mock', dimension: 64 });
+    await pool.terminate();
+
+    await expect(pool.run([])).rejects.toThrow(/terminated/);
+  });
+
+  it('should reject batches when a worker exits without an error', async () => {
+    const exitingScript = join(workerDir, 'exiting-worker.mjs');
+    await writeFile(
+      exitingScript,
+      "import { parentPort } from 'worker_threads';\nparentPort.on('message', () => process.exit(0));\n"
+    );
+    const pool = new IndexingPool(1, exitingScript, { modelType: 'mock', dimension: 64 });
+
+    try {
+      await expect(pool.run([])).rejects.toThrow(/exited unexpectedly with code 0/);
+      await expect(pool.run([])).rejects.toThrow(/Every indexing worker has stopped/);
+    } finally {
+      await pool.terminate();
+    }
+  });
+
+  it('should build the same index regardless of worker count', async () => {
+    const snapshot = async (numWorkers: number) => {
+      const engine = new NLCIEngine(
+        {
+          lsh: { numTables: 10, numBits: 8, dimension: 64, seed: 7 },
+          embedding: { modelType: 'tfidf', dimension: 64 },
+          parser: { minBlockSize: 1 },
+          storage: { type: 'memory' },
+          performance: { numWorkers, maxConcurrentFiles: 5, chunkSizeKB: 1 },
+        },
+        { indexingWorker: workerScript }
+      );
+      const summary = await engine.scanDirectory(root);
+      const { metadata } = engine.exportState().indexState;
+
+      return {
+        blocksIndexed: summary.blocksIndexed,
+        metadata: metadata.map((m) => ({ id: m.id, embedding: m.embedding, hashes: m.hashes })),
+      };
+    };
+
+    const serial = await snapshot(1);
+    expect(serial.blocksIndexed).toBe(24);
+    expect(await snapshot(2)).toEqual(serial);
+    expect(await snapshot(3)).toEqual(serial);
+  }, 60000);
+});
@@ -4,9 +4,33 @@
  * Tests for NLCIEngine - the main orchestration engine
  */
 
-import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdir, mkdtemp, rm, stat, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import type { CodeBlock } from '../../types/code-block.js';
-import { NLCIEngine } from '../nlci-engine.js';
+import { ASTEmbedder } from '../../embeddings/ast-embedder.js';
+import { CompositeEmbedder } from '../../embeddings/composite-embedder.js';
+import { LanguageRoutedEmbedder } from '../../embeddings/language-router.js';
+import { UnknownEmbedderError, registerEmbedder } from '../../embeddings/registry.js';
+import { TFIDFEmbedder } from '../../embeddings/tfidf-embedder.js';
+import { MockEmbeddingModel, SimpleCodeParser, type EmbeddingModel } from '../indexer.js';
+import type { GrammarLoader } from '../../parser/tree-sitter/grammar-loader.js';
+import { EmbedderMismatchError, NLCIEngine } from '../nlci-engine.js';
+
+/**
+ * Creates a grammar loader whose grammars load, as a one-node tree, or fail to.
+ */
+const createGrammarLoader = (available: boolean): GrammarLoader =>
+  ({
+    isSupported: () => true,
+    getParser: () =>
+      available
+        ? Promise.resolve({
+            parse: () => ({ rootNode: { type: 'program', namedChildren: [] }, delete: () => {} }),
+          })
+        : Promise.reject(new Error('network unavailable')),
+  }) as unknown as GrammarLoader;
 
 describe('NLCIEngine', () => {
   let engine: NLCIEngine;
@@ -252,6 +276,52 @@ def hello():
     });
   });
 
+  describe('findClonePairs()', () => {
+    it('should return each A-B pair once', async () => {
+      const code = 'function identical() { return 42; }';
+      await engine.indexBlock(createBlock('id-1', code, 'a.ts'));
+      await engine.indexBlock(createBlock('id-2', code, 'b.ts'));
+
+      const pairs = await engine.findClonePairs({ minSimilarity: 0.9 });
+
+      expect(pairs).toHaveLength(1);
+      expect(new Set([pairs[0]!.source.id, pairs[0]!.target.id])).toEqual(
+        new Set(['id-1', 'id-2'])
+      );
+    });
+
+    it('should return no pairs for an empty index', async () => {
+      expect(await engine.findClonePairs()).toEqual([]);
+    });
+  });
+
+  describe('findExactDuplicates()', () => {
+    it('should group identical code from different files', async () => {
+      const code = 'function square(value) {\n  return value * value;\n}';
+      await engine.indexCode(code, 'a.ts');
+      await engine.indexCode(code, 'b.ts');
+
+      const clusters = await engine.findExactDuplicates();
+
+      expect(clusters).toHaveLength(1);
+      expect(clusters[0].blocks.map((b) => b.filePath).sort()).toEqual(['a.ts', 'b.ts']);
+    });
+  });
+
+  describe('findType2Clones()', () => {
+    it('should group consistently renamed code', async () => {
+      await engine.indexCode('function square(value) {\n  return value * value;\n}', 'a.ts');
+      await engine.indexCode('function sq(n) {\n  return n * n;\n}', 'b.ts');
+      await engine.indexCode('function mul(a, b) {\n  return a * b;\n}', 'c.ts');
+
+      const clusters = await engine.findType2Clones();
+
+      expect(clusters).toHaveLength(1);
+      expect(clusters[0].cloneType).toBe('type-2');
+      expect(clusters[0].blocks.map((b) => b.filePath).sort()).toEqual(['a.ts', 'b.ts']);
+    });
+  });
+
   describe('generateSummary()', () => {
     it('should return summary statistics', async () => {
       const blocks = [
@@ -293,6 +363,301 @@ def hello():
     });
   });
 
+  describe('scanDirectory()', () => {
+    let root: string;
+
+    const sampleCode = `
+function add(a: number, b: number) {
+  const sum = a + b;
+  return sum;
+}
+`;
+
+    beforeEach(async () => {
+      root = await mkdtemp(join(tmpdir(), 'nlci-scan-'));
+      await mkdir(join(root, 'src'), { recursive: true });
+      await mkdir(join(root, 'node_modules', 'dep'), { recursive: true });
+      await writeFile(join(root, 'src', 'a.ts'), sampleCode);
+      await writeFile(join(root, 'src', 'b.ts'), sampleCode.replace('add', 'plus'));
+      await writeFile(join(root, 'src', 'notes.md'), '# not code');
+      await writeFile(join(root, 'node_modules', 'dep', 'index.ts'), sampleCode);
+    });
+
+    afterEach(async () => {
+      await rm(root, { recursive: true, force: true });
+    });
+
+    it('should index matching files and skip excluded ones', async () => {
+      const summary = await engine.scanDirectory(root);
+
+      expect(summary.filesScanned).toBe(2);
+      expect(summary.blocksIndexed).toBe(2);
+      expect(engine.getAllBlocks().every((b) => !b.filePath.includes('node_modules'))).toBe(true);
+    });
+
+    it('should honour include and exclude globs', async () => {
+      const summary = await engine.scanDirectory(root, {
+        include: ['**/*.ts'],
+        exclude: ['**/b.ts'],
+      });
+
+      expect(summary.filesScanned).toBe(2);
+      const files = new Set(engine.getAllBlocks().map((b) => b.filePath));
+      expect([...files].some((f) => f.endsWith('b.ts'))).toBe(false);
+      expect([...files].some((f) => f.includes('node_modules'))).toBe(true);
+    });
+
+    it('should skip files larger than maxFileSize', async () => {
+      const summary = await engine.scanDirectory(root, { maxFileSize: 10 });
+
+      expect(summary.filesScanned).toBe(0);
+      expect(summary.blocksIndexed).toBe(0);
+    });
+
+    it('should skip blocks smaller than minBlockSize', async () => {
+      const summary = await engine.scanDirectory(root, { minBlockSize: 1000 });
+
+      expect(summary.filesScanned).toBe(2);
+      expect(summary.blocksIndexed).toBe(0);
+    });
+
+    it('should report blocks moved by edits on re-scan', async () => {
+      await engine.scanDirectory(root);
+      await writeFile(join(root, 'src', 'a.ts'), `// header\n${sampleCode}`);
+
+      const moved: Array<[string, ReadonlyMap<string, string>]> = [];
+      await engine.scanDirectory(root, {
+        onBlockIdsChanged: (filePath, changes) => moved.push([filePath, changes]),
+      });
+
+      expect(moved).toHaveLength(1);
+      expect(moved[0][0]).toBe(join(root, 'src', 'a.ts'));
+      const [[oldId, newId]] = [...moved[0][1]];
+      expect(oldId).not.toBe(newId);
+      expect(engine.hasBlock(newId)).toBe(true);
+    });
+
+    it('should fit a TF-IDF model before embedding the scanned blocks', async () => {
+      const model = new TFIDFEmbedder({ dimension: 64 });
+      const tfidfEngine = new NLCIEngine(
+        {
+          lsh: { numTables: 10, numBits: 8, dimension: 64 },
+          parser: { minBlockSize: 1 },
+        },
+        { embeddingModel: model }
+      );
+
+      await tfidfEngine.scanDirectory(root);
+
+      expect(model.frozen).toBe(true);
+      expect(model.numDocuments).toBe(2);
+
+      // The first block is embedded with the same statistics as the last
+      const { metadata } = tfidfEngine.exportState().indexState;
+      for (const { block, embedding } of metadata) {
+        expect(Array.from(await model.embed(block.content))).toEqual(embedding);
+      }
+    });
+
+    it.each([
+      [16, 2],
+      [1, 3],
+    ])(
+      'should parse again only the windows fitted before the last (window of %i)',
+      async (maxConcurrentFiles, parses) => {
+        const parser = new SimpleCodeParser();
+        const parse = vi.spyOn(parser, 'parse');
+        const tfidfEngine = new NLCIEngine(
+          {
+            lsh: { numTables: 10, numBits: 8, dimension: 64 },
+            parser: { minBlockSize: 1 },
+            storage: { type: 'memory' },
+            performance: { numWorkers: 1, maxConcurrentFiles, chunkSizeKB: 64 },
+          },
+          { embeddingModel: new TFIDFEmbedder({ dimension: 64 }), parser }
+        );
+
+        const summary = await tfidfEngine.scanDirectory(root);
+
+        expect(summary.blocksIndexed).toBe(2);
+        expect(parse).toHaveBeenCalledTimes(parses);
+      }
+    );
+
+    it('should fit a separate TF-IDF model per language', async () => {
+      await writeFile(join(root, 'src', 'c.js'), sampleCode.replace(/: number/g, ''));
+      const router = new LanguageRoutedEmbedder(() => new TFIDFEmbedder({ dimension: 64 }));
+      const routedEngine = new NLCIEngine(
+        {
+          lsh: { numTables: 10, numBits: 8, dimension: 64 },
+          parser: { minBlockSize: 1 },
+        },
+        { embeddingModel: router }
+      );
+
+      await routedEngine.scanDirectory(root);
+
+      const typescript = router.modelFor('typescript') as TFIDFEmbedder;
+      const javascript = router.modelFor('javascript') as TFIDFEmbedder;
+      expect(typescript.frozen && javascript.frozen).toBe(true);
+      expect(typescript.numDocuments).toBe(2);
+      expect(javascript.numDocuments).toBe(1);
+    });
+
+    it('should fit the TF-IDF member of a composite model', async () => {
+      const tfidf = new TFIDFEmbedder({ dimension: 64 });
+      const composite = new CompositeEmbedder([
+        { model: tfidf },
+        { model: new MockEmbeddingModel(64), weight: 0.5 },
+      ]);
+      const compositeEngine = new NLCIEngine(
+        {
+          lsh: { numTables: 10, numBits: 8, dimension: 64 },
+          parser: { minBlockSize: 1 },
+        },
+        { embeddingModel: composite }
+      );
+
+      await compositeEngine.scanDirectory(root);
+
+      expect(tfidf.frozen).toBe(true);
+      expect(tfidf.numDocuments).toBe(2);
+    });
+
+    it('should restore the fitted TF-IDF state on load()', async () => {
+      const storagePath = join(root, '.nlci');
+      const config = {
+        lsh: { numTables: 10, numBits: 8, dimension: 64 },
+        parser: { minBlockSize: 1 },
+        storage: { type: 'file' as const, path: storagePath },
+      };
+      const fitted = new TFIDFEmbedder({ dimension: 64 });
+      const scanner = new NLCIEngine(config, { embeddingModel: fitted });
+      await scanner.scanDirectory(root, { exclude: ['**/.nlci/**'] });
+      await scanner.save();
+
+      const restored = new TFIDFEmbedder({ dimension: 64 });
+      expect(await new NLCIEngine(config, { embeddingModel: restored }).load()).toBe(true);
+
+      expect(restored.frozen).toBe(true);
+      expect(await restored.embed(sampleCode)).toEqual(await fitted.embed(sampleCode));
+    });
+
+    it('should report progress once per discovered file', async () => {
+      const progress: Array<{ processedFiles: number; totalFiles: number }> = [];
+
+      await engine.scanDirectory(root, {
+        onProgress: (p) =>
+          progress.push({ processedFiles: p.processedFiles, totalFiles: p.totalFiles }),
+      });
+
+      expect(progress).toEqual([
+        { processedFiles: 1, totalFiles: 2 },
+        { processedFiles: 2, totalFiles: 2 },
+      ]);
+    });
+
+    it('should fill in scan timings and clone statistics', async () => {
+      const summary = await engine.scanDirectory(root);
+
+      expect(summary.scanTimeMs).toBeGreaterThan(0);
+      expect(summary.indexBuildTimeMs).toBeGreaterThan(0);
+      expect(summary.scanTimeMs).toBeGreaterThanOrEqual(summary.indexBuildTimeMs);
+      expect(summary.languages).toEqual(['typescript']);
+      expect(summary.clonesByType).toBeDefined();
+    });
+
+    describe('with scan memory', () => {
+      let memoryEngine: NLCIEngine;
+
+      beforeEach(() => {
+        memoryEngine = new NLCIEngine({
+          lsh: { numTables: 10, numBits: 8, dimension: 64 },
+          embedding: { dimension: 64 },
+          parser: { minBlockSize: 1 },
+          storage: { type: 'memory' },
+          memory: { enabled: true, path: join(root, '.nlci') },
+        });
+      });
+
+      it('should keep the memory section of the config', () => {
+        expect(memoryEngine.memory).toBeDefined();
+        expect(memoryEngine.getConfig().memory).toEqual({
+          enabled: true,
+          path: join(root, '.nlci'),
+        });
+      });
+
+      it('should reject incremental scans without scan memory', async () => {
+        await expect(engine.scanDirectory(root, { incremental: true })).rejects.toThrow(
+          /scan memory/
+        );
+      });
+
+      it('should record the block IDs of each scanned file', async () => {
+        await memoryEngine.scanDirectory(root);
+
+        const entry = memoryEngine.memory!.getEntry(join(root, 'src', 'a.ts'));
+        expect(entry?.blockCount).toBe(1);
+        expect(entry?.blockIds).toEqual(
+          memoryEngine
+            .getAllBlocks()
+            .filter((b) => b.filePath === join(root, 'src', 'a.ts'))
+            .map((b) => b.id)
+        );
+      });
+
+      it('should skip unchanged files on an incremental re-scan', async () => {
+        await memoryEngine.scanDirectory(root);
+        const summary = await memoryEngine.scanDirectory(root, { incremental: true });
+
+        expect(summary.filesScanned).toBe(0);
+        expect(summary.filesUnchanged).toBe(2);
+        expect(summary.filesRemoved).toBe(0);
+        expect(summary.blocksIndexed).toBe(2);
+      });
+
+      it('should replace the blocks of a changed file', async () => {
+        await memoryEngine.scanDirectory(root);
+        await writeFile(
+          join(root, 'src', 'a.ts'),
+          `\n\n${sampleCode.replace('add', 'addTwice').replace('a + b', '2 * (a + b)')}`
+        );
+
+        const summary = await memoryEngine.scanDirectory(root, { incremental: true });
+
+        expect(summary.filesScanned).toBe(1);
+        expect(summary.filesUnchanged).toBe(1);
+        const blocks = memoryEngine
+          .getAllBlocks()
+          .filter((b) => b.filePath === join(root, 'src', 'a.ts'));
+        expect(blocks).toHaveLength(1);
+        expect(blocks[0]!.name).toBe('addTwice');
+      });
+
+      it('should remove the blocks of deleted files', async () => {
+        await memoryEngine.scanDirectory(root);
+        await rm(join(root, 'src', 'b.ts'));
+
+        const summary = await memoryEngine.scanDirectory(root, { incremental: true });
+
+        expect(summary.filesRemoved).toBe(1);
+        expect(memoryEngine.getAllBlocks().some((b) => b.filePath.endsWith('b.ts'))).toBe(false);
+        expect(memoryEngine.memory!.getEntry(join(root, 'src', 'b.ts'))).toBeUndefined();
+      });
+
+      it('should re-index unchanged files whose blocks are missing from the index', async () => {
+        await memoryEngine.scanDirectory(root);
+        memoryEngine.clear();
+
+        const summary = await memoryEngine.scanDirectory(root, { incremental: true });
+
+        expect(summary.filesUnchanged).toBe(0);
+        expect(memoryEngine.size).toBe(2);
+      });
+    });
+  });
+
   describe('getStats()', () => {
     it('should return index statistics', () => {
       const stats = engine.getStats();
@@ -353,6 +718,60 @@ def hello():
     });
   });
 
+  describe('file operations', () => {
+    const fileCode = `
+function first(a: number) {
+  return a + 1;
+}
+
+function second(b: number) {
+  return b * 2;
+}
+`;
+
+    beforeEach(async () => {
+      await engine.indexCode(fileCode, 'src/a.ts');
+      await engine.indexCode(fileCode.replace('first', 'third'), 'src/b.ts');
+    });
+
+    it('should list indexed files', () => {
+      expect(engine.listFiles().sort()).toEqual(['src/a.ts', 'src/b.ts']);
+    });
+
+    it('should remove every block of a file', () => {
+      expect(engine.removeFile('src/a.ts')).toBe(2);
+
+      expect(engine.listFiles()).toEqual(['src/b.ts']);
+      expect(engine.getAllBlocks().every((b) => b.filePath === 'src/b.ts')).toBe(true);
+    });
+
+    it('should replace the blocks of an edited file without leaving stale ones', async () => {
+      const edited = `\n\n${fileCode.replace('first', 'renamed')}`;
+      const blocks = await engine.replaceFile('src/a.ts', edited);
+
+      const fileBlocks = engine.getAllBlocks().filter((b) => b.filePath === 'src/a.ts');
+      expect(fileBlocks).toHaveLength(2);
+      expect(fileBlocks.map((b) => b.id).sort()).toEqual(blocks.map((b) => b.id).sort());
+      expect(fileBlocks.some((b) => b.name === 'first')).toBe(false);
+    });
+
+    it('should report the new IDs of blocks shifted by an edit', async () => {
+      const before = engine.getAllBlocks().filter((b) => b.filePath === 'src/a.ts');
+      let changes: ReadonlyMap<string, string> = new Map();
+
+      const blocks = await engine.replaceFile('src/a.ts', `\n\n${fileCode}`, undefined, (c) => {
+        changes = c;
+      });
+
+      expect(changes.size).toBe(2);
+      for (const block of before) {
+        const moved = blocks.find((b) => b.id === changes.get(block.id));
+        expect(moved?.stableId).toBe(block.stableId);
+        expect(moved?.startLine).toBe(block.startLine + 2);
+      }
+    });
+  });
+
   describe('clear()', () => {
     it('should remove all blocks from the index', async () => {
       for (let i = 0; i < 5; i++) {
@@ -424,6 +843,207 @@ def hello():
     });
   });
 
+  describe('save() and load()', () => {
+    let storagePath: string;
+
+    const code = 'function scale(value: number) {\n  return value * 10;\n}';
+    const config = (path: string) => ({
+      lsh: { numTables: 10, numBits: 8, dimension: 64 },
+      parser: { minBlockSize: 1 },
+      storage: { type: 'file' as const, path },
+    });
+
+    beforeEach(async () => {
+      storagePath = await mkdtemp(join(tmpdir(), 'nlci-store-'));
+      const saved = new NLCIEngine(config(storagePath), {
+        embeddingModel: new TFIDFEmbedder({ dimension: 64 }),
+      });
+      await saved.indexCode(code, 'a.ts');
+      await saved.save();
+    });
+
+    afterEach(async () => {
+      await rm(storagePath, { recursive: true, force: true });
+    });
+
+    it('should restore the embedding model state', async () => {
+      const model = new TFIDFEmbedder({ dimension: 64 });
+      await new NLCIEngine(config(storagePath), { embeddingModel: model }).load();
+
+      expect(model.numDocuments).toBe(1);
+    });
+
+    it('should refuse an index saved with a different embedding model', async () => {
+      const loaded = new NLCIEngine(config(storagePath), {
+        embeddingModel: new MockEmbeddingModel(64),
+      });
+
+      await expect(loaded.load()).rejects.toThrow(EmbedderMismatchError);
+      expect(loaded.size).toBe(0);
+    });
+
+    it('should load an index saved without an embedding model record and re-embed it on scan', async () => {
+      await rm(join(storagePath, 'embedder-state.json'), { force: true });
+      const model = new TFIDFEmbedder({ dimension: 64 });
+      const loaded = new NLCIEngine(config(storagePath), { embeddingModel: model });
+
+      expect(await loaded.load()).toBe(true);
+      expect(loaded.size).toBe(1);
+
+      // Saving before a scan keeps the model unrecorded
+      await loaded.save();
+      await expect(stat(join(storagePath, 'embedder-state.json'))).rejects.toThrow();
+
+      const empty = await mkdtemp(join(tmpdir(), 'nlci-empty-'));
+      try {
+        await loaded.scanDirectory(empty);
+      } finally {
+        await rm(empty, { recursive: true, force: true });
+      }
+
+      expect(model.frozen).toBe(true);
+      const { metadata } = loaded.exportState().indexState;
+      expect(metadata[0].embedding).toEqual(Array.from(await model.embed(code)));
+
+      await loaded.save();
+      expect(await new NLCIEngine(config(storagePath)).load()).toBe(true);
+    });
+
+    it('should refuse an index embedded without a grammar that now loads', async () => {
+      const astConfig = config(await mkdtemp(join(tmpdir(), 'nlci-ast-')));
+      try {
+        const saved = new NLCIEngine(astConfig, {
+          embeddingModel: new ASTEmbedder({
+            dimension: 64,
+            grammarLoader: createGrammarLoader(false),
+          }),
+        });
+        await saved.indexCode(code, 'a.ts');
+        await saved.save();
+
+        const model = new ASTEmbedder({ dimension: 64, grammarLoader: createGrammarLoader(true) });
+        await expect(new NLCIEngine(astConfig, { embeddingModel: model }).load()).rejects.toThrow(
+          /embeds some languages differently/
+        );
+
+        const reembedded = new NLCIEngine(astConfig, { embeddingModel: model });
+        expect(await reembedded.load({ onEmbedderMismatch: 're-embed' })).toBe(true);
+        const { metadata } = reembedded.exportState().indexState;
+        expect(metadata[0].embedding).toEqual(Array.from(await model.embed(code, 'typescript')));
+        expect(model.exportState()).toEqual({ modes: { typescript: 'tree' } });
+      } finally {
+        await rm(astConfig.storage.path, { recursive: true, force: true });
+      }
+    });
+
+    it('should re-embed every block on mismatch when asked to', async () => {
+      const model = new TFIDFEmbedder({ dimension: 64, ngramSize: 1 });
+      const loaded = new NLCIEngine(config(storagePath), { embeddingModel: model });
+
+      expect(await loaded.load({ onEmbedderMismatch: 're-embed' })).toBe(true);
+
+      expect(loaded.size).toBe(1);
+      expect(model.frozen).toBe(true);
+      const { metadata } = loaded.exportState().indexState;
+      expect(metadata[0].embedding).toEqual(Array.from(await model.embed(code)));
+    });
+  });
+
+  describe('embedding cache', () => {
+    let storagePath: string;
+    const code = 'function total(items) {\n  return items.reduce((a, b) => a + b, 0);\n}';
+
+    const createCachingEngine = (model: EmbeddingModel, maxCacheSizeMB = 16) =>
+      new NLCIEngine(
+        {
+          lsh: { numTables: 10, numBits: 8, dimension: 64 },
+          parser: { minBlockSize: 1 },
+          storage: { type: 'file', path: storagePath, maxCacheSizeMB },
+        },
+        { embeddingModel: model }
+      );
+
+    beforeEach(async () => {
+      storagePath = await mkdtemp(join(tmpdir(), 'nlci-cache-'));
+    });
+
+    afterEach(async () => {
+      await rm(storagePath, { recursive: true, force: true });
+    });
+
+    it('should reuse embeddings saved by an earlier engine', async () => {
+      const first = new MockEmbeddingModel(64);
+      const writer = createCachingEngine(first);
+      await writer.indexCode(code, 'a.ts');
+      await writer.save();
+
+      const second = new MockEmbeddingModel(64);
+      const embed = vi.spyOn(second, 'embed');
+      const reader = createCachingEngine(second);
+      await reader.indexCode(`// Sums the items\n${code}`, 'b.ts');
+
+      expect(embed).not.toHaveBeenCalled();
+      expect(reader.getEmbeddingCacheStats()).toMatchObject({ entries: 1, hits: 1, misses: 1 });
+    });
+
+    it('should cache blocks indexed with indexBlock()', async () => {
+      const model = new MockEmbeddingModel(64);
+      const embed = vi.spyOn(model, 'embed');
+      const cachingEngine = createCachingEngine(model);
+      const [block] = await cachingEngine.indexCode(code, 'a.ts');
+
+      await cachingEngine.indexBlock({ ...block, id: 'copy.ts:1-3', filePath: 'copy.ts' });
+
+      expect(embed).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not cache embeddings of a TF-IDF model that is still learning', async () => {
+      const cachingEngine = createCachingEngine(new TFIDFEmbedder({ dimension: 64 }));
+
+      await cachingEngine.indexCode(code, 'a.ts');
+      await cachingEngine.indexCode(code, 'b.ts');
+
+      expect(cachingEngine.getEmbeddingCacheStats()).toMatchObject({ entries: 0, hits: 0 });
+    });
+
+    it('should not reuse embeddings of a TF-IDF model fitted differently', async () => {
+      const fitted = new TFIDFEmbedder({ dimension: 64 });
+      fitted.fit([code]);
+      const writer = createCachingEngine(fitted);
+      await writer.indexCode(code, 'a.ts');
+      await writer.save();
+
+      const refitted = new TFIDFEmbedder({ dimension: 64 });
+      refitted.fit([code, 'class Point { x = 0; }']);
+      const reader = createCachingEngine(refitted);
+      await reader.indexCode(code, 'a.ts');
+
+      expect(reader.getEmbeddingCacheStats()).toMatchObject({ entries: 2, hits: 0 });
+    });
+
+    it('should not reuse embeddings of an AST model that fell back to tokens', async () => {
+      const writer = createCachingEngine(
+        new ASTEmbedder({ dimension: 64, grammarLoader: createGrammarLoader(false) })
+      );
+      await writer.indexCode(code, 'a.ts');
+      await writer.save();
+
+      const reader = createCachingEngine(
+        new ASTEmbedder({ dimension: 64, grammarLoader: createGrammarLoader(true) })
+      );
+      await reader.indexCode(code, 'b.ts');
+
+      expect(reader.getEmbeddingCacheStats()).toMatchObject({ entries: 2, hits: 0 });
+    });
+
+    it('should be disabled when maxCacheSizeMB is 0', async () => {
+      const cachingEngine = createCachingEngine(new MockEmbeddingModel(64), 0);
+      await cachingEngine.indexCode(code, 'a.ts');
+
+      expect(cachingEngine.getEmbeddingCacheStats()).toBeUndefined();
+    });
+  });
+
   describe('multi-language support', () => {
     it('should handle TypeScript code', async () => {
       const code = `
@@ -568,6 +1188,119 @@ fn add(a: i32, b: i32) -> i32 {
       expect(blocks.length).toBeGreaterThan(0);
     });
 
+    it('should find renamed clones when modelType is ast', async () => {
+      const astEngine = new NLCIEngine({
+        lsh: { dimension: 64 },
+        embedding: { modelType: 'ast' },
+        parser: { minBlockSize: 1, grammars: { nodeModules: false, baseUrl: false } },
+      });
+
+      await astEngine.indexCode('function add(a, b) {\n  return a + b;\n}', 'add.ts');
+
+      const results = await astEngine.query('function plus(x, y) {\n  return x + y;\n}', {
+        minSimilarity: 0.99,
+        language: 'typescript',
+      });
+      expect(results.clones.map((clone) => clone.target.filePath)).toEqual(['add.ts']);
+    });
+
+    it('should blend the models listed for a composite model', async () => {
+      const compositeEngine = new NLCIEngine({
+        lsh: { dimension: 64 },
+        embedding: {
+          modelType: 'composite',
+          composite: {
+            models: [{ modelType: 'tfidf' }, { modelType: 'ast', weight: 2 }],
+          },
+        },
+        parser: { minBlockSize: 1, grammars: { nodeModules: false, baseUrl: false } },
+      });
+
+      await compositeEngine.indexCode('function add(a, b) {\n  return a + b;\n}', 'add.ts');
+      const results = await compositeEngine.query('function plus(x, y) {\n  return x + y;\n}', {
+        minSimilarity: 0.5,
+        language: 'typescript',
+      });
+
+      expect(results.clones.map((clone) => clone.target.filePath)).toEqual(['add.ts']);
+    });
+
+    it('should reject a composite model without models', () => {
+      expect(
+        () => new NLCIEngine({ embedding: { modelType: 'composite', composite: { models: [] } } })
+      ).toThrow(/composite\.models/);
+    });
+
+    it('should reject a composite model that lists a model twice', () => {
+      expect(
+        () =>
+          new NLCIEngine({
+            embedding: {
+              modelType: 'composite',
+              composite: { models: [{ modelType: 'tfidf' }, { modelType: 'tfidf', weight: 2 }] },
+            },
+          })
+      ).toThrow(/'tfidf' more than once/);
+    });
+
+    it('should use a registered embedding model named by modelType', async () => {
+      const created: number[] = [];
+      registerEmbedder('counting', ({ dimension }) => {
+        created.push(dimension);
+        return new MockEmbeddingModel(dimension);
+      });
+
+      try {
+        const customEngine = new NLCIEngine({
+          lsh: { dimension: 32 },
+          embedding: {
+            modelType: 'composite',
+            composite: {
+              models: [{ modelType: 'counting', dimension: 16 }, { modelType: 'mock' }],
+            },
+          },
+          parser: { minBlockSize: 1 },
+        });
+        new NLCIEngine({ lsh: { dimension: 32 }, embedding: { modelType: 'counting' } });
+
+        expect(created).toEqual([16, 32]);
+        expect(
+          await customEngine.indexCode('function test() { return 42; }', 'test.ts')
+        ).not.toEqual([]);
+      } finally {
+        registerEmbedder('counting', undefined);
+      }
+    });
+
+    it('should reject an unknown modelType', () => {
+      expect(() => new NLCIEngine({ embedding: { modelType: 'no-such-model' } })).toThrow(
+        UnknownEmbedderError
+      );
+    });
+
+    it('should embed each language separately with a per-language embedding space', async () => {
+      const storagePath = await mkdtemp(join(tmpdir(), 'nlci-store-'));
+      const config = {
+        lsh: { dimension: 64 },
+        parser: { minBlockSize: 1 },
+        storage: { type: 'file' as const, path: storagePath },
+      };
+
+      try {
+        const routedEngine = new NLCIEngine({
+          ...config,
+          embedding: { modelType: 'tfidf', embeddingSpace: 'per-language' },
+        });
+        await routedEngine.indexCode('function test() { return 42; }', 'test.ts');
+        await routedEngine.save();
+
+        const sharedEngine = new NLCIEngine({ ...config, embedding: { modelType: 'tfidf' } });
+        await expect(sharedEngine.load()).rejects.toThrow(/per-language:tfidf:/);
+      } finally {
+        await rm(storagePath, { recursive: true, force: true });
+      }
+    });
+
     it('should produce different embeddings for different code with TFIDFEmbedder', async () => {
       const tfidfEngine = new NLCIEngine({
         lsh: { dimension: 128 },
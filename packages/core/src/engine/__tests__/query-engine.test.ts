@@ -4,11 +4,12 @@
  * Tests for QueryEngine class and clone detection functionality
  */
 
-import { beforeEach, describe, expect, it } from 'vitest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { LSHIndex } from '../../lsh/lsh-index.js';
-import type { CodeBlock } from '../../types/code-block.js';
+import type { PairSearchProgress } from '../../types/clone-result.js';
+import { createCodeBlock, type CodeBlock, type SupportedLanguage } from '../../types/code-block.js';
 import { MockEmbeddingModel } from '../indexer.js';
-import { QueryEngine, type QueryOptions } from '../query-engine.js';
+import { QUERY_FILE_PATH, QueryEngine, type QueryOptions } from '../query-engine.js';
 
 describe('QueryEngine', () => {
   let index: LSHIndex;
@@ -116,6 +117,40 @@ describe('QueryEngine', () => {
 
       expect(result.duration).toBeGreaterThanOrEqual(0);
     });
+
+    it('should use a synthetic block for the query snippet as source', async () => {
+      const code = 'function add(a, b) {\n  return a + b;\n}';
+      await insertBlock(createBlock('block-1', code));
+
+      const result = await queryEngine.query(code);
+
+      expect(result.clones.length).toBeGreaterThanOrEqual(1);
+      for (const clone of result.clones) {
+        expect(clone.source.filePath).toBe(QUERY_FILE_PATH);
+        expect(clone.source.content).toBe(code);
+        expect(clone.source.endLine).toBe(3);
+        expect(clone.target.id).toBe('block-1');
+      }
+    });
+
+    it('should embed the query in the language it is given', async () => {
+      await insertBlock(createBlock('block-1', 'function add(a, b) { return a + b; }'));
+
+      const languages: Array<string | undefined> = [];
+      const embed = embedder.embed.bind(embedder);
+      embedder.embed = (text: string, language?: SupportedLanguage) => {
+        languages.push(language);
+        return embed(text);
+      };
+
+      const code = 'function add(x, y) { return x + y; }';
+      const explicit = await queryEngine.query(code, { language: 'javascript', minSimilarity: 0 });
+      await queryEngine.query(code, { languages: ['typescript'], minSimilarity: 0 });
+      await queryEngine.query(code, { minSimilarity: 0 });
+
+      expect(languages).toEqual(['javascript', 'typescript', 'unknown']);
+      expect(explicit.clones[0]?.source.language).toBe('javascript');
+    });
   });
 
   describe('querySimilar()', () => {
@@ -147,6 +182,18 @@ describe('QueryEngine', () => {
       expect(sourceInResults).toBe(false);
     });
 
+    it('should use the indexed block as source', async () => {
+      const code = 'function same() { return 1; }';
+      await insertBlock(createBlock('block-1', code));
+      await insertBlock(createBlock('block-2', code));
+
+      const result = await queryEngine.querySimilar('block-1');
+
+      expect(result.clones.map((m) => [m.source.id, m.target.id])).toEqual([
+        ['block-1', 'block-2'],
+      ]);
+    });
+
     it('should return empty results for non-existent block ID', async () => {
       const result = await queryEngine.querySimilar('non-existent-id');
 
@@ -211,6 +258,65 @@ describe('QueryEngine', () => {
       }
     });
 
+    it('should summarize clusters with a medoid representative and payoff measures', async () => {
+      // b lies between a and c, so it is the most similar to the rest
+      const direction = (t: number): Float32Array => {
+        const v = new Float32Array(dimension);
+        v[0] = Math.cos(t);
+        v[1] = Math.sin(t);
+        return v;
+      };
+      const member = (id: string, filePath: string, lines: number, t: number) => {
+        const block = {
+          ...createBlock(id, `function ${id}() {}`, filePath),
+          endLine: lines,
+          tokenCount: lines * 2,
+        };
+        index.insert(block, direction(t));
+      };
+      member('a', 'one.ts', 10, 0);
+      member('b', 'two.ts', 20, 0.25);
+      member('c', 'one.ts', 5, 0.5);
+
+      const [cluster] = await queryEngine.findAllClones({ minSimilarity: 0.8 });
+
+      expect(cluster.blocks).toHaveLength(3);
+      expect(cluster.representative.id).toBe('b');
+      expect(cluster.duplicatedLines).toBe(15);
+      expect(cluster.fileCount).toBe(2);
+      expect(cluster.totalTokens).toBe(70);
+      expect(cluster.cohesion).toBeCloseTo(Math.cos(0.5), 5);
+      expect(cluster.avgSimilarity).toBeCloseTo((2 * Math.cos(0.25) + Math.cos(0.5)) / 3, 5);
+    });
+
+    it('should split chained clusters with a non-chaining strategy', async () => {
+      const direction = (t: number): Float32Array => {
+        const v = new Float32Array(dimension);
+        v[0] = Math.cos(t);
+        v[1] = Math.sin(t);
+        return v;
+      };
+      // Coarse hashes so that every neighbouring pair is found
+      index = new LSHIndex({ numTables: 20, numBits: 4, dimension });
+      queryEngine = new QueryEngine(index, embedder);
+
+      // Neighbours are ~0.96 similar, but the ends of the chain only ~0.83
+      for (const [i, id] of ['a', 'b', 'c'].entries()) {
+        index.insert(createBlock(id, `function ${id}() {}`, `${id}.ts`), direction(i * 0.3));
+      }
+
+      const single = await queryEngine.findAllClones({ minSimilarity: 0.9 });
+      const complete = await queryEngine.findAllClones({
+        minSimilarity: 0.9,
+        clustering: 'complete-linkage',
+      });
+
+      expect(single.map((c) => c.blocks.length)).toEqual([3]);
+      expect(single[0].cohesion).toBeLessThan(0.9);
+      expect(complete.map((c) => c.blocks.length)).toEqual([2]);
+      expect(complete[0].cohesion).toBeGreaterThanOrEqual(0.9);
+    });
+
     it('should not create single-block clusters', async () => {
       const block = createBlock('lonely', 'function uniqueCode() { return 999; }');
       await insertBlock(block);
@@ -249,6 +355,161 @@ describe('QueryEngine', () => {
     });
   });
 
+  describe('exact duplicates', () => {
+    const code = 'function double(value) {\n  return value * 2;\n}';
+
+    // Blocks with a real content hash, as the indexer builds them
+    const indexedBlock = (filePath: string, content: string = code): CodeBlock =>
+      createCodeBlock({
+        content,
+        filePath,
+        startLine: 1,
+        endLine: 3,
+        language: 'typescript',
+        blockType: 'function',
+      });
+
+    beforeEach(async () => {
+      await insertBlock(indexedBlock('a.ts'));
+      await insertBlock(indexedBlock('b.ts'));
+      await insertBlock(indexedBlock('c.ts', 'function triple(value) { return value * 3; }'));
+    });
+
+    it('should return exact duplicates first at similarity 1', async () => {
+      const result = await queryEngine.query(code);
+
+      expect(result.clones.slice(0, 2).map((c) => c.target.filePath)).toEqual(['a.ts', 'b.ts']);
+      expect(result.clones[0].similarity).toBe(1);
+      expect(result.clones[0].cloneType).toBe('type-1');
+    });
+
+    it('should not embed the query when duplicates fill the results', async () => {
+      let embedded = false;
+      const embed = embedder.embed.bind(embedder);
+      embedder.embed = (text: string) => {
+        embedded = true;
+        return embed(text);
+      };
+
+      const result = await queryEngine.query(code, { maxResults: 2 });
+
+      expect(result.clones).toHaveLength(2);
+      expect(embedded).toBe(false);
+    });
+
+    it('should report duplicates once in querySimilar()', async () => {
+      const result = await queryEngine.querySimilar('a.ts:1-3');
+      const ids = result.clones.map((c) => c.target.id);
+
+      expect(ids[0]).toBe('b.ts:1-3');
+      expect(new Set(ids).size).toBe(ids.length);
+      expect(ids).not.toContain('a.ts:1-3');
+    });
+
+    it('should report duplicate pairs once in findClonePairs()', async () => {
+      const pairs = await queryEngine.findClonePairs();
+      const duplicates = pairs.filter(
+        (p) => p.source.normalizedContent === p.target.normalizedContent
+      );
+
+      expect(duplicates).toHaveLength(1);
+      expect(duplicates[0].similarity).toBe(1);
+    });
+
+    it('should find exact duplicates whatever the embedder returns', async () => {
+      // Every block embeds to the same vector, so similarity alone cannot tell them apart
+      const flat = new Float32Array(dimension).fill(1);
+      index = new LSHIndex({ numTables: 10, numBits: 8, dimension });
+      queryEngine = new QueryEngine(index, embedder);
+      index.insert(indexedBlock('a.ts'), flat);
+      index.insert(indexedBlock('b.ts'), flat);
+      index.insert(indexedBlock('c.ts', 'function other() {}'), flat);
+
+      const clusters = await queryEngine.findExactDuplicates();
+
+      expect(clusters).toHaveLength(1);
+      expect(clusters[0].cloneType).toBe('type-1');
+      expect(clusters[0].blocks.map((b) => b.filePath)).toEqual(['a.ts', 'b.ts']);
+      expect(clusters[0].avgSimilarity).toBe(1);
+    });
+
+    it('should honour path filters in findExactDuplicates()', async () => {
+      const clusters = await queryEngine.findExactDuplicates({ excludePatterns: ['b.ts'] });
+      expect(clusters).toEqual([]);
+    });
+  });
+
+  describe('findClonePairs()', () => {
+    const code = 'function copy(a) { return a * 3; }';
+
+    beforeEach(async () => {
+      await insertBlock(createBlock('copy-1', code, 'file1.ts'));
+      await insertBlock(createBlock('copy-2', code, 'file2.ts'));
+      await insertBlock(createBlock('copy-3', code, 'file3.ts'));
+      await insertBlock(createBlock('other', 'class Unrelated { run() { go(); } }', 'file4.ts'));
+    });
+
+    it('should report each pair once with distinct source and target', async () => {
+      const pairs = await queryEngine.findClonePairs({ minSimilarity: 0.99 });
+
+      const keys = pairs.map((p) => [p.source.id, p.target.id].sort().join('|'));
+      expect(keys.sort()).toEqual(['copy-1|copy-2', 'copy-1|copy-3', 'copy-2|copy-3']);
+      expect(pairs.every((p) => p.source.id !== p.target.id)).toBe(true);
+    });
+
+    it('should compute token metrics for each pair', async () => {
+      const pairs = await queryEngine.findClonePairs({ minSimilarity: 0.99 });
+
+      for (const pair of pairs) {
+        expect(pair.metrics.sharedTokens).toBeGreaterThan(0);
+        expect(pair.metrics.sharedTokens).toBe(pair.metrics.totalTokens);
+        expect(pair.metrics.editDistance).toBe(0);
+      }
+    });
+
+    it('should filter pairs by clone type', async () => {
+      const pairs = await queryEngine.findClonePairs({
+        minSimilarity: 0.99,
+        cloneTypes: ['type-3'],
+      });
+
+      expect(pairs).toEqual([]);
+    });
+
+    it('should yield the same pairs from iterateClonePairs()', async () => {
+      const pairs = await queryEngine.findClonePairs({ minSimilarity: 0.99 });
+      const iterated = [];
+      for await (const pair of queryEngine.iterateClonePairs({ minSimilarity: 0.99 })) {
+        iterated.push(pair);
+      }
+
+      expect(iterated).toEqual(pairs);
+    });
+
+    it('should report pair search progress', async () => {
+      const progress: PairSearchProgress[] = [];
+      await queryEngine.findClonePairs({
+        minSimilarity: 0.99,
+        onProgress: (p) => progress.push(p),
+      });
+
+      expect(progress.length).toBeGreaterThan(0);
+      expect(progress[progress.length - 1].tablesScanned).toBe(
+        progress[progress.length - 1].totalTables
+      );
+    });
+
+    it('should allow stopping iteration early', async () => {
+      let count = 0;
+      for await (const _pair of queryEngine.iterateClonePairs({ minSimilarity: 0.99 })) {
+        count++;
+        break;
+      }
+
+      expect(count).toBe(1);
+    });
+  });
+
   describe('clone type classification', () => {
     it('should classify Type-1 clones (exact duplicates)', async () => {
       const code = 'function exact() { return 42; }';
@@ -272,6 +533,17 @@ describe('QueryEngine', () => {
         expect(['type-1', 'type-2']).toContain(exactCluster.cloneType);
       }
     });
+
+    it('should record the reason for each pair type', async () => {
+      const code = 'function exact() { return 42; }';
+      await insertBlock(createBlock('exact-1', code, 'file1.ts'));
+      await insertBlock(createBlock('exact-2', code, 'file2.ts'));
+
+      const [pair] = await queryEngine.findClonePairs({ minSimilarity: 0.95 });
+
+      expect(pair.cloneType).toBe('type-1');
+      expect(pair.cloneTypeReason).toBe('normalized-text');
+    });
   });
 
   describe('QueryOptions', () => {
@@ -313,6 +585,95 @@ describe('QueryEngine', () => {
     });
   });
 
+  describe('filtering and timeout', () => {
+    const code = 'function shared(value) { return value * 2; }';
+
+    beforeEach(async () => {
+      await insertBlock(createBlock('app', code, '/repo/src/app.ts'));
+      await insertBlock(createBlock('app-test', code, '/repo/src/app.test.ts'));
+      await insertBlock({
+        ...createBlock('script', code, '/repo/scripts/tool.py'),
+        language: 'python',
+      });
+    });
+
+    it('should restrict query results to included paths minus excluded ones', async () => {
+      const result = await queryEngine.query(code, {
+        minSimilarity: 0.9,
+        includePatterns: ['src/**'],
+        excludePatterns: ['**/*.test.ts'],
+        rootDir: '/repo',
+      });
+
+      expect(result.clones.map((c) => c.target.id)).toEqual(['app']);
+    });
+
+    it('should restrict query results to the given languages', async () => {
+      const result = await queryEngine.query(code, {
+        minSimilarity: 0.9,
+        languages: ['python'],
+      });
+
+      expect(result.clones.map((c) => c.target.id)).toEqual(['script']);
+    });
+
+    it('should apply filters to both blocks of clone pairs', async () => {
+      const pairs = await queryEngine.findClonePairs({
+        minSimilarity: 0.9,
+        languages: ['typescript'],
+      });
+
+      expect(pairs).toHaveLength(1);
+      expect([pairs[0].source.id, pairs[0].target.id].sort()).toEqual(['app', 'app-test']);
+    });
+
+    it('should apply filters in querySimilar()', async () => {
+      const result = await queryEngine.querySimilar('app', {
+        minSimilarity: 0.9,
+        excludePatterns: ['**/*.test.ts'],
+      });
+
+      expect(result.clones.map((c) => c.target.id)).toEqual(['script']);
+    });
+
+    it('should not flag complete results as truncated', async () => {
+      const result = await queryEngine.query(code, { minSimilarity: 0.9 });
+
+      expect(result.truncated).toBe(false);
+      expect(result.clones).toHaveLength(3);
+    });
+
+    it('should return partial results flagged as truncated on timeout', async () => {
+      const result = await queryEngine.query(code, { minSimilarity: 0.9, timeoutMs: -1 });
+
+      expect(result.truncated).toBe(true);
+      expect(result.clones).toEqual([]);
+    });
+
+    it('should stop finding pairs on timeout', async () => {
+      const pairs = await queryEngine.findClonePairs({ minSimilarity: 0.9, timeoutMs: -1 });
+
+      expect(pairs).toEqual([]);
+    });
+
+    it('should search the whole index unless a timeout is given', async () => {
+      // Every clock reading is a minute after the last, past the default timeout
+      let now = 0;
+      const clock = vi.spyOn(performance, 'now').mockImplementation(() => (now += 60_000));
+
+      try {
+        const pairs = await queryEngine.findClonePairs({ minSimilarity: 0.9 });
+        const clusters = await queryEngine.findAllClones({ minSimilarity: 0.9 });
+
+        expect(pairs.length).toBeGreaterThan(0);
+        expect(clusters.length).toBeGreaterThan(0);
+        expect(await queryEngine.findClonePairs({ minSimilarity: 0.9, timeoutMs: 1 })).toEqual([]);
+      } finally {
+        clock.mockRestore();
+      }
+    });
+  });
+
   describe('performance', () => {
     it('should handle querying large indexes', async () => {
       // Insert 100 blocks
@@ -0,0 +1,74 @@
+/**
+ * Tests for type-2 clone detection
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createCodeBlock, type SupportedLanguage } from '../../types/code-block.js';
+import { classifyClone } from '../clone-classifier.js';
+import { findType2Groups } from '../type2-detector.js';
+
+describe('findType2Groups()', () => {
+  const block = (filePath: string, content: string, language: SupportedLanguage = 'typescript') =>
+    createCodeBlock({ filePath, language, content, startLine: 1, endLine: 3 });
+
+  const paths = (groups: ReturnType<typeof findType2Groups>) =>
+    groups.map((group) => group.map((b) => b.filePath));
+
+  it('should group consistently renamed blocks with other literals', () => {
+    const groups = findType2Groups([
+      block('a.ts', 'function area(w, h) {\n  return w * h * 0.5; // half\n}'),
+      block('b.ts', 'function tri(base, height) {\n  return base * height * 2;\n}'),
+      block('c.ts', 'function area(w, h) {\n  return w + h;\n}'),
+    ]);
+
+    expect(paths(groups)).toEqual([['a.ts', 'b.ts']]);
+  });
+
+  it('should not group blocks that rename inconsistently', () => {
+    const groups = findType2Groups([
+      block('a.ts', 'const total = price * total;'),
+      block('b.ts', 'const sum = cost * sum;'),
+      block('c.ts', 'const sum = cost * total;'),
+    ]);
+
+    expect(paths(groups)).toEqual([['a.ts', 'b.ts']]);
+  });
+
+  it('should leave out groups of exact duplicates', () => {
+    const code = 'function square(x) {\n  return x * x;\n}';
+
+    expect(findType2Groups([block('a.ts', code), block('b.ts', code)])).toEqual([]);
+  });
+
+  it('should only group blocks of the same language', () => {
+    const groups = findType2Groups([
+      block('a.py', 'x = y + 1', 'python'),
+      block('b.rb', 'a = b + 2', 'ruby'),
+    ]);
+
+    expect(groups).toEqual([]);
+  });
+
+  it('should agree with classifyClone() on which pairs are type-2', () => {
+    const pairs = [
+      ['const t = a + a;', 'const s = x + x;'],
+      ['const t = a + a;', 'const s = x + y;'],
+      ['return "hi";', 'return "hello";'],
+      ['return "hi";', 'return 42;'],
+      [
+        'function sum(l){let t=0;for(const v of l){t+=v}return t}',
+        'function add(xs){let a=0;for(const x of xs){a+=x}return a}',
+      ],
+      ['f(a, b);', 'f(b, a);'],
+    ];
+
+    for (const [source, target] of pairs) {
+      const a = block('a.ts', source);
+      const b = block('b.ts', target);
+
+      expect(findType2Groups([a, b]).length === 1, `${source} | ${target}`).toBe(
+        classifyClone(a, b).cloneType === 'type-2'
+      );
+    }
+  });
+});
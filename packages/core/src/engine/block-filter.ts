@@ -0,0 +1,80 @@
+/**
+ * @nlci/core - Block Filter
+ *
+ * Restricts queries to blocks of given languages and file paths, as set by
+ * the `languages`, `includePatterns` and `excludePatterns` query options.
+ */
+
+import { Minimatch } from 'minimatch';
+import * as path from 'path';
+
+import type { QueryOptions } from '../types/clone-result.js';
+import type { CodeBlock } from '../types/code-block.js';
+
+/**
+ * Decides whether a block takes part in a query.
+ */
+export type BlockFilter = (block: CodeBlock) => boolean;
+
+/**
+ * Builds the filter for a query's language and path options.
+ *
+ * Indexed paths are usually absolute, so paths under `rootDir` are matched
+ * relative to it: with `rootDir` `/repo`, `src/**` matches `/repo/src/a.ts`
+ * and `build/**` leaves `/ci/build/repo/a.ts` alone (the directories above
+ * the root are never matched). Other paths are matched as they are indexed,
+ * so `**\/*.test.ts` still matches any test file. Empty `languages` and
+ * `includePatterns` allow everything.
+ *
+ * @param options - Query options
+ * @returns The filter, or `undefined` when the options filter nothing out
+ */
+export function createBlockFilter(
+  options: Pick<QueryOptions, 'languages' | 'includePatterns' | 'excludePatterns' | 'rootDir'>
+): BlockFilter | undefined {
+  const languages = options.languages?.length ? new Set(options.languages) : undefined;
+  const include = compilePatterns(options.includePatterns);
+  const exclude = compilePatterns(options.excludePatterns);
+
+  if (!languages && !include && !exclude) return undefined;
+
+  const root = resolveRoot(options.rootDir ?? '.');
+
+  return (block) => {
+    if (languages && !languages.has(block.language)) return false;
+    if (!include && !exclude) return true;
+
+    const candidate = relativePath(block.filePath, root);
+    const matches = (patterns: Minimatch[]): boolean =>
+      patterns.some((pattern) => pattern.match(candidate));
+
+    if (include && !matches(include)) return false;
+    return !(exclude && matches(exclude));
+  };
+}
+
+/**
+ * Compiles glob patterns, or returns `undefined` when there are none.
+ */
+function compilePatterns(patterns: readonly string[] | undefined): Minimatch[] | undefined {
+  if (!patterns?.length) return undefined;
+  return patterns.map((pattern) => new Minimatch(pattern.replace(/\\/g, '/'), { dot: true }));
+}
+
+/**
+ * Resolves the root directory, with forward slashes and no trailing slash.
+ */
+function resolveRoot(rootDir: string): string {
+  const absolute =
+    path.isAbsolute(rootDir) || path.win32.isAbsolute(rootDir) ? rootDir : path.resolve(rootDir);
+  return absolute.replace(/\\/g, '/').replace(/\/+$/, '');
+}
+
+/**
+ * Gets the path patterns are matched against: relative to the root when the
+ * path is under it, otherwise the path as indexed (with forward slashes).
+ */
+function relativePath(filePath: string, root: string): string {
+  const normalized = filePath.replace(/\\/g, '/');
+  return normalized.startsWith(`${root}/`) ? normalized.slice(root.length + 1) : normalized;
+}
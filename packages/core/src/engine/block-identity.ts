@@ -0,0 +1,99 @@
+/**
+ * @nlci/core - Block Identity
+ *
+ * Matches the blocks of a file before and after it is re-indexed, so state
+ * keyed by block ID (suppressions, history, editor views) can follow blocks
+ * whose line numbers moved.
+ */
+
+import { generateStableId, type CodeBlock } from '../types/code-block.js';
+
+/**
+ * Maps the IDs of a file's previous blocks to the IDs of its new blocks.
+ *
+ * Blocks with the same stable ID are matched first, in order of appearance.
+ * A remaining named block is then matched to the one remaining block of the
+ * same kind and name, so an edited function keeps its place. Blocks without a
+ * match are left out, as are blocks whose ID did not change.
+ *
+ * @param previous - Blocks indexed from the old version of the file
+ * @param current - Blocks indexed from the new version
+ * @returns New block ID by old block ID
+ */
+export function mapBlockIds(
+  previous: readonly CodeBlock[],
+  current: readonly CodeBlock[]
+): Map<string, string> {
+  const matches = new Map<string, string>();
+  const unmatched = new Set(current);
+
+  // Stable IDs repeat when a file holds identical blocks
+  const byStableId = new Map<string, CodeBlock[]>();
+  for (const block of sortByPosition(current)) {
+    const key = stableIdOf(block);
+    const blocks = byStableId.get(key);
+    if (blocks) blocks.push(block);
+    else byStableId.set(key, [block]);
+  }
+
+  const leftover: CodeBlock[] = [];
+  for (const block of sortByPosition(previous)) {
+    const match = byStableId.get(stableIdOf(block))?.shift();
+    if (match) {
+      matches.set(block.id, match.id);
+      unmatched.delete(match);
+    } else {
+      leftover.push(block);
+    }
+  }
+
+  // Edited blocks: match by kind and name when that is unambiguous
+  const byName = groupByName(leftover);
+  const candidates = groupByName(unmatched);
+  for (const [key, blocks] of byName) {
+    const targets = candidates.get(key);
+    if (blocks.length === 1 && targets?.length === 1) {
+      matches.set(blocks[0].id, targets[0].id);
+    }
+  }
+
+  for (const [oldId, newId] of matches) {
+    if (oldId === newId) matches.delete(oldId);
+  }
+
+  return matches;
+}
+
+/**
+ * Gets a block's stable ID, deriving it for blocks indexed before it existed.
+ *
+ * @param block - An indexed block
+ */
+export function stableIdOf(block: CodeBlock): string {
+  return (
+    block.stableId ??
+    generateStableId(block.filePath, block.blockType, block.name, block.contentHash)
+  );
+}
+
+/**
+ * Groups named blocks by kind and name.
+ */
+function groupByName(blocks: Iterable<CodeBlock>): Map<string, CodeBlock[]> {
+  const groups = new Map<string, CodeBlock[]>();
+  for (const block of blocks) {
+    if (!block.name) continue;
+    const key = `${block.blockType}:${block.name}`;
+    const group = groups.get(key);
+    if (group) group.push(block);
+    else groups.set(key, [block]);
+  }
+  return groups;
+}
+
+/**
+ * Orders blocks by where they start in the file.
+ */
+function sortByPosition(blocks: readonly CodeBlock[]): CodeBlock[] {
+  return [...blocks].sort((a, b) => a.startLine - b.startLine || a.startColumn - b.startColumn);
+}
@@ -0,0 +1,102 @@
+/**
+ * @nlci/core - Clone Classifier
+ *
+ * Structural clone-type classification. Each clone type is decided by its
+ * own check on the two blocks, most specific first; embedding similarity
+ * only decides type-4.
+ */
+
+import { CodeTokenizer } from '../embeddings/tokenizer.js';
+import type { CloneType, CloneTypeReason } from '../types/clone-result.js';
+import type { CodeBlock, SupportedLanguage } from '../types/code-block.js';
+import { DEFAULT_EDIT_DISTANCE_BAND, tokenEditDistance } from './clone-metrics.js';
+
+/**
+ * Largest normalized edit distance between abstracted token sequences that
+ * still counts as a type-3 (near-miss) clone.
+ */
+export const DEFAULT_TYPE3_MAX_EDIT_DISTANCE = 0.3;
+
+/**
+ * Clone type of a pair of blocks and the check that decided it.
+ */
+export interface CloneClassification {
+  readonly cloneType: CloneType;
+  readonly reason: CloneTypeReason;
+}
+
+/**
+ * Classifies the clone type of two blocks.
+ *
+ * - type-1: normalized text is identical
+ * - type-2: token sequences are identical once identifiers are numbered by
+ *   first appearance and literals reduced to their types
+ * - type-3: abstracted tokens align within `maxEditDistance` (gapped alignment)
+ * - type-4: anything else; the pair is only similar by embedding
+ *
+ * @param source - Source block
+ * @param target - Target block
+ * @param tokenCache - Tokens by block content, shared with {@link computeCloneMetrics}
+ * @param maxEditDistance - Type-3 threshold on the normalized edit distance
+ */
+export function classifyClone(
+  source: CodeBlock,
+  target: CodeBlock,
+  tokenCache: Map<string, string[]> = new Map(),
+  maxEditDistance: number = DEFAULT_TYPE3_MAX_EDIT_DISTANCE
+): CloneClassification {
+  if (source.normalizedContent === target.normalizedContent) {
+    return { cloneType: 'type-1', reason: 'normalized-text' };
+  }
+
+  const a = abstractTokensOf(source, tokenCache);
+  const b = abstractTokensOf(target, tokenCache);
+
+  if (a.length === b.length && a.every((token, i) => token === b[i])) {
+    return { cloneType: 'type-2', reason: 'abstracted-tokens' };
+  }
+
+  const longest = Math.max(a.length, b.length);
+  // The band never needs to be wider than the threshold; large blocks stay bounded
+  const limit = longest * maxEditDistance;
+  const band = Math.min(DEFAULT_EDIT_DISTANCE_BAND, Math.ceil(limit));
+  if (longest > 0 && tokenEditDistance(a, b, band, limit) / longest <= maxEditDistance) {
+    return { cloneType: 'type-3', reason: 'token-alignment' };
+  }
+
+  return { cloneType: 'type-4', reason: 'embedding-similarity' };
+}
+
+/**
+ * Tokenizes code with identifiers replaced by positional placeholders
+ * (`$1`, `$2`… in first-seen order) and literals by their types.
+ *
+ * Every identifier and literal is kept, however short, so single-letter
+ * renames and literal-only changes still align token for token, while an
+ * inconsistent rename (`a + a` against `x + y`) does not match.
+ *
+ * @param code - Code to tokenize
+ * @param language - Language of the code (keywords default to TypeScript's)
+ * @returns Comparison tokens (`type:value`), comments left out
+ */
+export function abstractTokens(code: string, language: SupportedLanguage): string[] {
+  return new CodeTokenizer(language, { mode: 'abstract' })
+    .tokenize(code)
+    .map((token) => `${token.type}:${token.value}`);
+}
+
+/**
+ * Gets a block's abstracted tokens from the cache, tokenizing on a miss.
+ *
+ * @param block - Block to tokenize
+ * @param cache - Tokens by block content; keys do not collide with those of tokensOf()
+ */
+function abstractTokensOf(block: CodeBlock, cache: Map<string, string[]>): string[] {
+  const key = `abstract\0${block.language}\0${block.content}`;
+  let tokens = cache.get(key);
+  if (!tokens) {
+    tokens = abstractTokens(block.content, block.language);
+    cache.set(key, tokens);
+  }
+  return tokens;
+}
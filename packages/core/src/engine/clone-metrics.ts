@@ -0,0 +1,173 @@
+/**
+ * @nlci/core - Clone Metrics
+ *
+ * Token-level comparison of two code blocks: how many tokens they share and
+ * how many token edits separate them.
+ */
+
+import { CodeTokenizer } from '../embeddings/tokenizer.js';
+import type { CloneMetrics } from '../types/clone-result.js';
+import type { CodeBlock, SupportedLanguage } from '../types/code-block.js';
+
+/**
+ * Default half-width of the alignment band, in tokens.
+ *
+ * Blocks whose edit distance is within the band (after allowing for their
+ * length difference) get an exact distance.
+ */
+export const DEFAULT_EDIT_DISTANCE_BAND = 128;
+
+/**
+ * Tokenizes code into the keys used for comparison (`type:value`).
+ *
+ * @param code - Code to tokenize
+ * @param language - Language of the code (keywords default to TypeScript's)
+ */
+export function comparisonTokens(code: string, language: SupportedLanguage): string[] {
+  return new CodeTokenizer(language)
+    .tokenize(code)
+    .filter((token) => token.type !== 'comment')
+    .map((token) => `${token.type}:${token.value}`);
+}
+
+/**
+ * Compares two token sequences.
+ *
+ * - `sharedTokens`: size of the multiset intersection
+ * - `totalTokens`: size of the multiset union
+ * - `editDistance`: token Levenshtein distance divided by the longer length;
+ *   when the lengths alone differ by more than `maxEditDistance`, their
+ *   normalized difference (a lower bound) without aligning
+ *
+ * @param source - Source tokens
+ * @param target - Target tokens
+ * @param band - Alignment band half-width (see {@link tokenEditDistance})
+ * @param maxEditDistance - Normalized distance beyond which sequences are not aligned
+ */
+export function compareTokens(
+  source: readonly string[],
+  target: readonly string[],
+  band: number = DEFAULT_EDIT_DISTANCE_BAND,
+  maxEditDistance: number = 1
+): CloneMetrics {
+  const counts = new Map<string, number>();
+  for (const token of source) {
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+
+  let sharedTokens = 0;
+  for (const token of target) {
+    const count = counts.get(token) ?? 0;
+    if (count > 0) {
+      sharedTokens++;
+      counts.set(token, count - 1);
+    }
+  }
+
+  const longest = Math.max(source.length, target.length);
+
+  return {
+    sharedTokens,
+    totalTokens: source.length + target.length - sharedTokens,
+    editDistance:
+      longest === 0
+        ? 0
+        : tokenEditDistance(source, target, band, longest * maxEditDistance) / longest,
+  };
+}
+
+/**
+ * Computes the token Levenshtein distance with a banded alignment.
+ *
+ * Only cells within `band + |source.length - target.length|` of the
+ * diagonal are filled, so the cost is O(n * band) instead of O(n * m).
+ * The result is exact when the true distance fits in the band and an
+ * upper bound otherwise. Since the distance is at least the length
+ * difference, sequences whose lengths differ by more than `maxDistance` are
+ * not aligned and the length difference is returned; a long block against a
+ * short one would otherwise fill a band as wide as the long block.
+ *
+ * @param source - Source tokens
+ * @param target - Target tokens
+ * @param band - Band half-width beyond the length difference
+ * @param maxDistance - Largest distance worth computing exactly
+ * @returns Number of token insertions, deletions and substitutions
+ */
+export function tokenEditDistance(
+  source: readonly string[],
+  target: readonly string[],
+  band: number = DEFAULT_EDIT_DISTANCE_BAND,
+  maxDistance: number = Infinity
+): number {
+  // Iterate over the shorter sequence
+  const [a, b] = source.length <= target.length ? [source, target] : [target, source];
+  const n = a.length;
+  const m = b.length;
+  if (n === 0 || m - n > maxDistance) return m - n;
+
+  const width = m - n + band;
+  let previous = new Array<number>(m + 1).fill(Infinity);
+  let current = new Array<number>(m + 1).fill(Infinity);
+
+  for (let j = 0; j <= Math.min(m, width); j++) {
+    previous[j] = j;
+  }
+
+  for (let i = 1; i <= n; i++) {
+    const from = Math.max(1, i - band);
+    const to = Math.min(m, i + width);
+
+    // Cells just outside the band are unreachable; the rest of the row is never read
+    current[from - 1] = from === 1 && i <= band ? i : Infinity;
+    if (to < m) current[to + 1] = Infinity;
+
+    for (let j = from; j <= to; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      const deletion = previous[j] + 1;
+      const insertion = current[j - 1] + 1;
+      current[j] = Math.min(substitution, deletion, insertion);
+    }
+
+    [previous, current] = [current, previous];
+  }
+
+  return previous[m];
+}
+
+/**
+ * Computes clone metrics for two blocks.
+ *
+ * @param source - Source block
+ * @param target - Target block
+ * @param tokenCache - Tokens by block content, reused across calls
+ * @param maxEditDistance - Normalized distance beyond which blocks are not aligned
+ */
+export function computeCloneMetrics(
+  source: CodeBlock,
+  target: CodeBlock,
+  tokenCache: Map<string, string[]> = new Map(),
+  maxEditDistance: number = 1
+): CloneMetrics {
+  return compareTokens(
+    tokensOf(source, tokenCache),
+    tokensOf(target, tokenCache),
+    DEFAULT_EDIT_DISTANCE_BAND,
+    maxEditDistance
+  );
+}
+
+/**
+ * Gets a block's comparison tokens from the cache, tokenizing on a miss.
+ *
+ * @param block - Block to tokenize
+ * @param cache - Tokens by block content
+ */
+export function tokensOf(block: CodeBlock, cache: Map<string, string[]>): string[] {
+  const key = `${block.language}\0${block.content}`;
+  let tokens = cache.get(key);
+  if (!tokens) {
+    tokens = comparisonTokens(block.content, block.language);
+    cache.set(key, tokens);
+  }
+  return tokens;
+}
@@ -0,0 +1,169 @@
+/**
+ * @nlci/core - Clone Clustering
+ *
+ * Groups clone pairs into clusters. Single-linkage joins anything connected
+ * by a chain of pairs; the other strategies refuse merges that would put
+ * dissimilar blocks in one cluster.
+ */
+
+import type { ClusteringStrategy } from '../types/clone-result.js';
+
+/**
+ * A similar pair of blocks, by ID.
+ */
+export interface ClusterLink {
+  readonly sourceId: string;
+  readonly targetId: string;
+  readonly similarity: number;
+}
+
+/**
+ * Settings for {@link clusterLinks}.
+ */
+export interface ClusteringOptions {
+  /** How clusters are formed */
+  readonly strategy: ClusteringStrategy;
+
+  /** Linkage threshold for complete- and average-linkage */
+  readonly minSimilarity: number;
+
+  /** Largest number of links between two members under `diameter-limited` */
+  readonly maxDiameter: number;
+
+  /** Similarity between any two blocks (used by complete- and average-linkage) */
+  readonly similarity: (idA: string, idB: string) => number;
+}
+
+/**
+ * A cluster being built.
+ */
+interface Cluster {
+  members: string[];
+  /** Upper bound on the cluster's diameter in links */
+  diameter: number;
+}
+
+/**
+ * Groups linked blocks into clusters.
+ *
+ * Links are merged greedily from most to least similar; a link whose
+ * clusters may not be merged under the strategy is dropped:
+ *
+ * - `single-linkage`: always merge (connected components)
+ * - `complete-linkage`: every cross pair must reach `minSimilarity`
+ * - `average-linkage`: the mean cross-pair similarity must reach `minSimilarity`
+ * - `diameter-limited`: any two members must stay within `maxDiameter` links
+ *
+ * @param ids - Block IDs to cluster
+ * @param links - Similar pairs among those blocks
+ * @param options - Clustering settings
+ * @returns Clusters as lists of block IDs, including single blocks
+ */
+export function clusterLinks(
+  ids: readonly string[],
+  links: readonly ClusterLink[],
+  options: ClusteringOptions
+): string[][] {
+  const clusterOf = new Map<string, Cluster>();
+  for (const id of ids) {
+    clusterOf.set(id, { members: [id], diameter: 0 });
+  }
+
+  // Accepted links, for measuring distances in diameter-limited clusters
+  const adjacency = new Map<string, string[]>();
+  const addLink = (a: string, b: string): void => {
+    adjacency
+      .set(a, adjacency.get(a) ?? [])
+      .get(a)!
+      .push(b);
+    adjacency
+      .set(b, adjacency.get(b) ?? [])
+      .get(b)!
+      .push(a);
+  };
+
+  const ordered = [...links].sort((a, b) => b.similarity - a.similarity);
+
+  for (const { sourceId, targetId } of ordered) {
+    const a = clusterOf.get(sourceId);
+    const b = clusterOf.get(targetId);
+    if (!a || !b) continue;
+
+    if (a === b) {
+      if (options.strategy === 'diameter-limited') addLink(sourceId, targetId);
+      continue;
+    }
+
+    let diameter = 0;
+    switch (options.strategy) {
+      case 'complete-linkage':
+        if (!crossSimilarities(a, b, options).every((s) => s >= options.minSimilarity)) continue;
+        break;
+      case 'average-linkage': {
+        const similarities = crossSimilarities(a, b, options);
+        const mean = similarities.reduce((sum, s) => sum + s, 0) / similarities.length;
+        if (mean < options.minSimilarity) continue;
+        break;
+      }
+      case 'diameter-limited':
+        // A path between the two clusters crosses this link, so this bounds the new diameter
+        diameter = Math.max(
+          a.diameter,
+          b.diameter,
+          eccentricity(sourceId, adjacency) + 1 + eccentricity(targetId, adjacency)
+        );
+        if (diameter > options.maxDiameter) continue;
+        addLink(sourceId, targetId);
+        break;
+      default:
+        break;
+    }
+
+    // Merge the smaller cluster into the larger
+    const [into, from] = a.members.length >= b.members.length ? [a, b] : [b, a];
+    for (const id of from.members) {
+      into.members.push(id);
+      clusterOf.set(id, into);
+    }
+    into.diameter = diameter;
+  }
+
+  return [...new Set(clusterOf.values())].map((cluster) => cluster.members);
+}
+
+/**
+ * Lists the similarities between every member of one cluster and every member of another.
+ */
+function crossSimilarities(a: Cluster, b: Cluster, options: ClusteringOptions): number[] {
+  const similarities: number[] = [];
+  for (const idA of a.members) {
+    for (const idB of b.members) {
+      similarities.push(options.similarity(idA, idB));
+    }
+  }
+  return similarities;
+}
+
+/**
+ * Finds the largest number of links from a block to another block it is connected to.
+ */
+function eccentricity(start: string, adjacency: ReadonlyMap<string, readonly string[]>): number {
+  const distances = new Map([[start, 0]]);
+  const queue = [start];
+  let farthest = 0;
+
+  for (let i = 0; i < queue.length; i++) {
+    const id = queue[i];
+    const distance = distances.get(id)!;
+    farthest = Math.max(farthest, distance);
+
+    for (const next of adjacency.get(id) ?? []) {
+      if (!distances.has(next)) {
+        distances.set(next, distance + 1);
+        queue.push(next);
+      }
+    }
+  }
+
+  return farthest;
+}
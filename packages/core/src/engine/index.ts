@@ -7,6 +7,8 @@
 // Main engine
 export {
   NLCIEngine,
+  EmbedderMismatchError,
+  type LoadOptions,
   type ScanOptions,
   type ScanProgress,
   DEFAULT_SCAN_OPTIONS,
@@ -25,4 +27,32 @@ export {
 } from './indexer.js';
 
 // Query engine
-export { QueryEngine } from './query-engine.js';
+export { QueryEngine, QUERY_FILE_PATH } from './query-engine.js';
+
+// Clone metrics
+export {
+  computeCloneMetrics,
+  compareTokens,
+  tokenEditDistance,
+  DEFAULT_EDIT_DISTANCE_BAND,
+} from './clone-metrics.js';
+
+// Clone classification
+export {
+  classifyClone,
+  abstractTokens,
+  DEFAULT_TYPE3_MAX_EDIT_DISTANCE,
+  type CloneClassification,
+} from './clone-classifier.js';
+
+// Type-2 clone detection
+export { findType2Groups } from './type2-detector.js';
+
+// Query filtering
+export { createBlockFilter, type BlockFilter } from './block-filter.js';
+
+// Clone clustering
+export { clusterLinks, type ClusterLink, type ClusteringOptions } from './clustering.js';
+
+// Block identity
+export { mapBlockIds, stableIdOf } from './block-identity.js';
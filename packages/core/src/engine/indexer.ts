@@ -47,6 +47,9 @@ export interface CodeParser {
   /** Parse source code into blocks (language inferred from filePath if not provided) */
   parse(source: string, filePath: string, language?: SupportedLanguage): ParseResult;
 
+  /** Asynchronous parse, preferred by the engine when present (e.g. tree-sitter) */
+  parseAsync?(source: string, filePath: string, language?: SupportedLanguage): Promise<ParseResult>;
+
   /** Supported languages */
   readonly supportedLanguages: readonly SupportedLanguage[];
 }
@@ -55,14 +58,34 @@ export interface CodeParser {
  * Interface for embedding models.
  */
 export interface EmbeddingModel {
-  /** Generate embedding for code text */
-  embed(code: string): Promise<Float32Array>;
+  /** Generate embedding for code text, written in `language` if known */
+  embed(code: string, language?: SupportedLanguage): Promise<Float32Array>;
 
   /** Generate embeddings for multiple code texts (batch) */
-  embedBatch(codes: string[]): Promise<Float32Array[]>;
+  embedBatch(codes: string[], language?: SupportedLanguage): Promise<Float32Array[]>;
 
   /** Embedding dimension */
   readonly dimension: number;
+
+  /**
+   * Identifies the model type and settings. Embeddings from models with
+   * different fingerprints are not comparable.
+   */
+  readonly fingerprint?: string;
+
+  /** Exports state learned from embedded code (such as a vocabulary) as JSON-safe data */
+  exportState?(): unknown;
+
+  /** Restores state returned by exportState() */
+  importState?(state: unknown): void;
+
+  /**
+   * Settles what the embeddings of a language depend on at run time, such
+   * as whether its grammar loads, and records it in exportState().
+   *
+   * @returns false if it differs from what the imported state recorded
+   */
+  prepare?(language: SupportedLanguage): Promise<boolean>;
 }
 
 /**
@@ -355,9 +378,11 @@ export class SimpleCodeParser implements CodeParser {
  */
 export class MockEmbeddingModel implements EmbeddingModel {
   readonly dimension: number;
+  readonly fingerprint: string;
 
   constructor(dimension: number = 384) {
     this.dimension = dimension;
+    this.fingerprint = `mock:${dimension}`;
   }
 
   async embed(code: string): Promise<Float32Array> {
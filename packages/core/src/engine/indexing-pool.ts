@@ -0,0 +1,323 @@
+/**
+ * @nlci/core - Indexing Pool
+ *
+ * Runs the per-file half of indexing (parsing, tokenizing and, for models
+ * whose output depends only on their input, embedding) in worker threads.
+ * Workers return prepared files; the engine inserts them into the single
+ * LSH index on the main thread, in discovery order, so the resulting index
+ * is the same whatever the number of workers.
+ */
+
+import { existsSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { Worker } from 'worker_threads';
+
+import { ASTEmbedder } from '../embeddings/ast-embedder.js';
+import { createTFIDFEmbedder } from '../embeddings/tfidf-embedder.js';
+import { createCodeParser, createGrammarLoader } from '../parser/auto-parser.js';
+import type { CodeBlock, SupportedLanguage } from '../types/code-block.js';
+import type { EmbeddingConfig, GrammarSourceConfig, ParserEngine } from '../types/config.js';
+import {
+  MockEmbeddingModel,
+  getLanguageForFile,
+  type CodeParser,
+  type EmbeddingModel,
+} from './indexer.js';
+
+/**
+ * Settings a worker needs to rebuild the engine's parser and embedding stage.
+ */
+export interface IndexingWorkerData {
+  /** Embedding model type from the engine configuration */
+  modelType: EmbeddingConfig['modelType'];
+
+  /** TF-IDF tokenizer mode from the engine configuration (default: 'split') */
+  tokenizerMode?: EmbeddingConfig['tokenizerMode'];
+
+  /** Embedding dimension (the LSH dimension; model default when unset) */
+  dimension?: number;
+
+  /** Parser engine from the engine configuration (default: 'simple') */
+  parserEngine?: ParserEngine;
+
+  /** Tree-sitter grammar locations from the engine configuration */
+  grammars?: GrammarSourceConfig;
+}
+
+/**
+ * A file whose content should be parsed into blocks.
+ */
+export interface IndexingTask {
+  filePath: string;
+  content: string;
+  minBlockSize: number;
+
+  /** Language override (inferred from the file extension otherwise) */
+  language?: SupportedLanguage;
+}
+
+/**
+ * Blocks extracted from one file, ready to be inserted into the index.
+ */
+export interface PreparedFile {
+  filePath: string;
+
+  /** Blocks of at least `minBlockSize` tokens, in source order */
+  blocks: CodeBlock[];
+
+  /** Finished embeddings, one per block */
+  embeddings?: Float32Array[];
+
+  /** TF-IDF term frequencies, one list per block, embedded on the main thread */
+  termFrequencies?: Array<Array<[string, number]>>;
+
+  /** Set when the file could not be parsed */
+  error?: string;
+}
+
+/**
+ * Parses a file and keeps the blocks large enough to index.
+ *
+ * Uses the parser's `parseAsync` when it has one.
+ */
+export async function prepareFile(task: IndexingTask, parser: CodeParser): Promise<PreparedFile> {
+  const language = task.language ?? getLanguageForFile(task.filePath) ?? 'typescript';
+  const { blocks } = parser.parseAsync
+    ? await parser.parseAsync(task.content, task.filePath, language)
+    : parser.parse(task.content, task.filePath, language);
+
+  return {
+    filePath: task.filePath,
+    blocks: blocks.filter((block) => (block.tokenCount ?? 0) >= task.minBlockSize),
+  };
+}
+
+/**
+ * Creates the model a worker embeds blocks with, or null when blocks are
+ * embedded on the main thread.
+ */
+function createStatelessModel(data: IndexingWorkerData): EmbeddingModel | null {
+  switch (data.modelType) {
+    case 'tfidf':
+    case 'onnx':
+    case 'composite':
+      return null;
+    case 'ast':
+      return new ASTEmbedder({
+        dimension: data.dimension,
+        grammarLoader: createGrammarLoader(data.grammars),
+      });
+    case 'mock':
+      return new MockEmbeddingModel(data.dimension);
+    default:
+      // Registered models exist only in the main thread's registry
+      return null;
+  }
+}
+
+/**
+ * Creates the function a worker runs for each batch of tasks.
+ *
+ * TF-IDF embeddings depend on every document embedded before them, so for
+ * that model only the term frequencies are computed here. The ONNX runtime
+ * can only be loaded by one thread, so for ONNX models blocks are only parsed
+ * here and embedded on the main thread, as they are for composite models
+ * (which may contain either) and registered models. The remaining built-in
+ * models are stateless and embed in the worker.
+ */
+export function createTaskRunner(
+  data: IndexingWorkerData
+): (tasks: IndexingTask[]) => Promise<PreparedFile[]> {
+  const parser = createCodeParser(data.parserEngine, data.grammars);
+  const tfidf =
+    data.modelType === 'tfidf'
+      ? createTFIDFEmbedder('typescript', data.dimension, data.tokenizerMode)
+      : null;
+  const model = createStatelessModel(data);
+
+  return async (tasks) => {
+    const results: PreparedFile[] = [];
+
+    for (const task of tasks) {
+      try {
+        const prepared = await prepareFile(task, parser);
+        const contents = prepared.blocks.map((block) => block.content);
+
+        if (tfidf) {
+          prepared.termFrequencies = prepared.blocks.map((block) => [
+            ...tfidf.termFrequencies(block.content, block.language),
+          ]);
+        } else if (model) {
+          prepared.embeddings = await model.embedBatch(contents, prepared.blocks[0]?.language);
+        }
+        results.push(prepared);
+      } catch (error) {
+        results.push({
+          filePath: task.filePath,
+          blocks: [],
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return results;
+  };
+}
+
+/**
+ * Message sent to a worker.
+ */
+export interface IndexingRequest {
+  id: number;
+  tasks: IndexingTask[];
+}
+
+/**
+ * Message sent back by a worker.
+ */
+export interface IndexingResponse {
+  id: number;
+  results?: PreparedFile[];
+  error?: string;
+}
+
+interface PendingJob {
+  request: IndexingRequest;
+  resolve: (results: PreparedFile[]) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Fixed-size pool of indexing workers.
+ *
+ * Batches are queued and handed to the next idle worker; each call to
+ * `run()` resolves with that batch's results.
+ */
+export class IndexingPool {
+  private readonly workers: Worker[] = [];
+  private readonly idle: Worker[] = [];
+  private readonly queue: PendingJob[] = [];
+  private readonly active = new Map<Worker, PendingJob>();
+  private nextId = 0;
+  private terminated = false;
+
+  /**
+   * Creates a pool and starts its workers.
+   *
+   * @param size - Number of worker threads
+   * @param workerScript - Path or URL of the built worker entry
+   * @param data - Settings passed to every worker
+   */
+  constructor(size: number, workerScript: string | URL, data: IndexingWorkerData) {
+    for (let i = 0; i < size; i++) {
+      const worker = new Worker(workerScript, { workerData: data });
+      worker.on('message', (response: IndexingResponse) => this.settle(worker, response));
+      worker.on('error', (error) => this.fail(worker, error));
+      // A worker that exits on its own (even cleanly) would leave its batch unsettled
+      worker.on('exit', (code) => {
+        if (!this.terminated) {
+          this.fail(worker, new Error(`Indexing worker exited unexpectedly with code ${code}`));
+        }
+      });
+      this.workers.push(worker);
+      this.idle.push(worker);
+    }
+  }
+
+  /**
+   * Locates the built worker entry next to this module.
+   *
+   * @returns The worker script path, or null when running from TypeScript
+   *   sources (or a bundle without the worker), where workers can't start
+   */
+  static resolveWorkerScript(): string | null {
+    for (const candidate of ['./indexing-worker.js', './engine/indexing-worker.js']) {
+      const script = fileURLToPath(new URL(candidate, import.meta.url));
+      if (existsSync(script)) {
+        return script;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Number of worker threads.
+   */
+  get size(): number {
+    return this.workers.length;
+  }
+
+  /**
+   * Prepares a batch of files on the next idle worker.
+   */
+  run(tasks: IndexingTask[]): Promise<PreparedFile[]> {
+    if (this.terminated) {
+      return Promise.reject(new Error('Indexing pool has been terminated'));
+    }
+    if (this.workers.length === 0) {
+      return Promise.reject(new Error('Every indexing worker has stopped'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ request: { id: this.nextId++, tasks }, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Stops all workers. Queued batches are rejected.
+   */
+  async terminate(): Promise<void> {
+    this.terminated = true;
+
+    for (const job of this.queue.splice(0)) {
+      job.reject(new Error('Indexing pool has been terminated'));
+    }
+
+    await Promise.all(this.workers.map((worker) => worker.terminate()));
+    this.workers.length = 0;
+    this.idle.length = 0;
+  }
+
+  private dispatch(): void {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.pop()!;
+      const job = this.queue.shift()!;
+      this.active.set(worker, job);
+      worker.postMessage(job.request);
+    }
+  }
+
+  private settle(worker: Worker, response: IndexingResponse): void {
+    const job = this.active.get(worker);
+    if (!job || job.request.id !== response.id) return;
+
+    this.active.delete(worker);
+    this.idle.push(worker);
+
+    if (response.error !== undefined) {
+      job.reject(new Error(response.error));
+    } else {
+      job.resolve(response.results ?? []);
+    }
+
+    this.dispatch();
+  }
+
+  private fail(worker: Worker, error: Error): void {
+    const job = this.active.get(worker);
+    this.active.delete(worker);
+    job?.reject(error);
+
+    // A crashed worker can't take more work; reject the rest if none are left
+    for (const list of [this.workers, this.idle]) {
+      const index = list.indexOf(worker);
+      if (index >= 0) list.splice(index, 1);
+    }
+    if (this.workers.length === 0) {
+      for (const queued of this.queue.splice(0)) {
+        queued.reject(error);
+      }
+    }
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * @nlci/core - Indexing Worker
+ *
+ * Worker thread entry for IndexingPool. Built as its own file so the pool
+ * can start it; not part of the public API.
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+
+import {
+  createTaskRunner,
+  type IndexingRequest,
+  type IndexingResponse,
+  type IndexingWorkerData,
+} from './indexing-pool.js';
+
+const runTasks = createTaskRunner(workerData as IndexingWorkerData);
+
+parentPort?.on('message', (request: IndexingRequest) => {
+  runTasks(request.tasks).then(
+    (results) => {
+      const response: IndexingResponse = { id: request.id, results };
+      parentPort?.postMessage(response);
+    },
+    (error: unknown) => {
+      const response: IndexingResponse = {
+        id: request.id,
+        error: error instanceof Error ? error.message : String(error),
+      };
+      parentPort?.postMessage(response);
+    }
+  );
+});
@@ -5,28 +5,43 @@
  * Provides the high-level API for indexing codebases and finding clones.
  */
 
-import { createTFIDFEmbedder } from '../embeddings/tfidf-embedder.js';
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { glob } from 'glob';
+
+import { ASTEmbedder } from '../embeddings/ast-embedder.js';
+import { CompositeEmbedder } from '../embeddings/composite-embedder.js';
+import { EmbeddingCache, type EmbeddingCacheStats } from '../embeddings/embedding-cache.js';
+import { LanguageRoutedEmbedder } from '../embeddings/language-router.js';
+import { ONNXEmbedder } from '../embeddings/onnx-embedder.js';
+import { UnknownEmbedderError, getEmbedder } from '../embeddings/registry.js';
+import { TFIDFEmbedder, createTFIDFEmbedder } from '../embeddings/tfidf-embedder.js';
 import { ChromaStorage } from '../lsh/chroma-storage.js';
-import { FileStorage, MemoryStorage } from '../lsh/bucket-store.js';
+import { FileStorage, MemoryStorage, type BucketStorage } from '../lsh/bucket-store.js';
 import { LSHIndex, type LSHIndexStats } from '../lsh/lsh-index.js';
 import { ScanMemory } from '../memory/scan-memory.js';
+import { createCodeParser, createGrammarLoader } from '../parser/auto-parser.js';
 import type {
   CloneCluster,
+  CloneResult,
   CloneType,
   QueryOptions,
   QueryResult,
   ScanSummary,
 } from '../types/clone-result.js';
 import type { CodeBlock, SupportedLanguage } from '../types/code-block.js';
-import type { DeepPartial, NLCIConfig } from '../types/config.js';
+import type { DeepPartial, EmbeddingModelName, NLCIConfig } from '../types/config.js';
 import { mergeConfig } from '../types/config.js';
+import { mapBlockIds } from './block-identity.js';
 import {
-  MockEmbeddingModel,
-  SimpleCodeParser,
-  getLanguageForFile,
-  type CodeParser,
-  type EmbeddingModel,
-} from './indexer.js';
+  IndexingPool,
+  prepareFile,
+  type IndexingTask,
+  type PreparedFile,
+} from './indexing-pool.js';
+import { MockEmbeddingModel, type CodeParser, type EmbeddingModel } from './indexer.js';
 import { QueryEngine } from './query-engine.js';
 
 /**
@@ -45,8 +60,23 @@ export interface ScanOptions {
   /** Minimum block size to index (in tokens) */
   minBlockSize?: number;
 
+  /**
+   * Skip files whose content is unchanged since the last scan recorded in
+   * scan memory. Requires `memory.enabled`; load the previous index first.
+   */
+  incremental?: boolean;
+
   /** Progress callback */
   onProgress?: (progress: ScanProgress) => void;
+
+  /** Called when a file cannot be read or indexed (the scan continues) */
+  onError?: (filePath: string, error: Error) => void;
+
+  /**
+   * Called when re-indexing a file gives some of its blocks new IDs, with
+   * the new ID of each moved block keyed by its old ID
+   */
+  onBlockIdsChanged?: (filePath: string, changes: ReadonlyMap<string, string>) => void;
 }
 
 /**
@@ -77,20 +107,107 @@ export const DEFAULT_SCAN_OPTIONS: Required<ScanOptions> = {
   exclude: ['**/node_modules/**', '**/dist/**', '**/build/**', '**/.git/**'],
   maxFileSize: 1024 * 1024, // 1MB
   minBlockSize: 10,
+  incremental: false,
   onProgress: () => {},
+  onError: () => {},
+  onBlockIdsChanged: () => {},
 };
 
+/**
+ * Options for loading a saved index.
+ */
+export interface LoadOptions {
+  /**
+   * What to do when the index was saved with a different embedding model:
+   * throw an EmbedderMismatchError (default) or embed every block again
+   */
+  onEmbedderMismatch?: 'error' | 're-embed';
+}
+
+/**
+ * Thrown by load() when the saved index was built with a different embedding model.
+ */
+export class EmbedderMismatchError extends Error {
+  constructor(
+    public readonly savedFingerprint: string | null,
+    public readonly currentFingerprint: string | null
+  ) {
+    super(
+      (savedFingerprint === currentFingerprint
+        ? `Index was built with embedding model ${savedFingerprint ?? '(unrecorded)'} ` +
+          `but it now embeds some languages differently (has a grammar become available?); `
+        : `Index was built with embedding model ${savedFingerprint ?? '(unrecorded)'} ` +
+          `but the engine uses ${currentFingerprint ?? '(unrecorded)'}; `) +
+        `rebuild the index or load it with onEmbedderMismatch: 're-embed'`
+    );
+    this.name = 'EmbedderMismatchError';
+  }
+}
+
+/**
+ * Embedding model record saved next to the index.
+ */
+interface SavedEmbedder {
+  fingerprint: string | null;
+  state: unknown;
+}
+
+/**
+ * Storage key of the embedding model record.
+ */
+const EMBEDDER_STATE_KEY = 'embedder-state';
+
+/**
+ * Timing and file counts recorded by the last directory scan.
+ */
+interface ScanTiming {
+  filesScanned: number;
+  filesUnchanged: number;
+  filesRemoved: number;
+  scanTimeMs: number;
+  indexBuildTimeMs: number;
+}
+
+/**
+ * A discovered file after reading, before indexing.
+ */
+type LoadedFile =
+  | { filePath: string; status: 'skipped' | 'unchanged' }
+  | { filePath: string; status: 'changed'; content: string; contentHash: string }
+  | { filePath: string; status: 'failed'; error: Error };
+
+/**
+ * Files of a scan window and the blocks prepared from those that changed.
+ */
+interface PreparedWindow {
+  window: LoadedFile[];
+  prepared: Map<string, PreparedFile>;
+}
+
 /**
  * The main NLCI engine.
  */
 export class NLCIEngine {
   private readonly config: NLCIConfig;
   private readonly index: LSHIndex;
+  private readonly storage: BucketStorage;
   private readonly parser: CodeParser;
   private readonly embeddingModel: EmbeddingModel;
   private readonly queryEngine: QueryEngine;
   private readonly _scanMemory: ScanMemory | undefined;
-  private scanSummary: ScanSummary | null = null;
+  private readonly embeddingCache: EmbeddingCache | undefined;
+  private readonly workerScript: string | URL | null;
+  private scanTiming: ScanTiming | null = null;
+
+  // Cache scope of the embedding model's current state, computed on first use
+  private cacheScope: string | undefined;
+
+  // Languages the embedding model has been prepared for
+  private readonly preparedLanguages = new Set<SupportedLanguage>();
+
+  // Whether the loaded index has no embedding model record, so its blocks
+  // are embedded again by the next scan
+  private embedderUnrecorded = false;
 
   /**
    * Creates a new NLCI engine.
@@ -103,13 +220,15 @@ export class NLCIEngine {
     dependencies?: {
       parser?: CodeParser;
       embeddingModel?: EmbeddingModel;
+      /** Built indexing worker script (located next to the engine by default) */
+      indexingWorker?: string | URL;
     }
   ) {
     this.config = mergeConfig(config);
 
     // Initialize LSH storage backend
     const storagePath = this.config.storage.path;
-    const storage = (() => {
+    this.storage = (() => {
       switch (this.config.storage.type) {
         case 'chromadb':
           return new ChromaStorage({
@@ -130,23 +249,36 @@ export class NLCIEngine {
       this._scanMemory = new ScanMemory(this.config.memory.path ?? storagePath);
     }
 
+    // Cache embeddings alongside the index, unless the cache has no room
+    if (this.config.storage.maxCacheSizeMB > 0) {
+      this.embeddingCache = new EmbeddingCache(this.storage, this.config.storage.maxCacheSizeMB);
+    }
+
     this.index = new LSHIndex({
       numTables: this.config.lsh.numTables,
       numBits: this.config.lsh.numBits,
       dimension: this.config.lsh.dimension,
       ...(this.config.lsh.seed !== undefined && { seed: this.config.lsh.seed }),
       multiProbe: this.config.lsh.multiProbe,
-      storage,
+      storage: this.storage,
     });
 
-    // Initialize parser (use injected or default)
-    this.parser = dependencies?.parser ?? new SimpleCodeParser();
+    // Initialize parser (use injected or create based on config)
+    this.parser =
+      dependencies?.parser ??
+      createCodeParser(this.config.parser.engine, this.config.parser.grammars);
 
     // Initialize embedding model (use injected or create based on config)
     this.embeddingModel = dependencies?.embeddingModel ?? this.createEmbeddingModel();
 
     // Initialize query engine
     this.queryEngine = new QueryEngine(this.index, this.embeddingModel);
+
+    // Workers rebuild the parser and model from config, so injected ones keep scans in-process
+    this.workerScript =
+      dependencies?.parser || dependencies?.embeddingModel
+        ? null
+        : (dependencies?.indexingWorker ?? IndexingPool.resolveWorkerScript());
   }
 
   /**
@@ -154,25 +286,86 @@ export class NLCIEngine {
    * @returns The configured embedding model
    */
   private createEmbeddingModel(): EmbeddingModel {
-    const modelType = this.config.embedding.modelType;
+    const { modelType = 'tfidf', composite } = this.config.embedding;
     const dimension = this.config.lsh.dimension;
+    if (modelType !== 'composite') return this.createModel(modelType, dimension);
+
+    const models = composite?.models ?? [];
+    const combination = composite?.combination ?? 'concatenate';
+    if (models.length === 0) {
+      throw new Error("embedding.composite.models must list the models of a 'composite' model");
+    }
+
+    const seen = new Set<string>();
+    const members = models.map((member) => {
+      if (member.modelType === 'composite') {
+        throw new Error('Composite embedding models cannot be nested');
+      }
+      if (seen.has(member.modelType)) {
+        throw new Error(`embedding.composite.models lists '${member.modelType}' more than once`);
+      }
+      seen.add(member.modelType);
+
+      // A weighted sum adds coordinates, so its members all output the LSH dimension
+      const memberDimension =
+        combination === 'concatenate' ? (member.dimension ?? dimension) : dimension;
+      return {
+        model: this.createModel(member.modelType, memberDimension),
+        weight: member.weight,
+        normalize: member.normalize,
+      };
+    });
+
+    return new CompositeEmbedder(members, { dimension, combination });
+  }
 
+  /**
+   * Creates a single (non-composite) embedding model.
+   * @param modelType - Type or registered name of the model
+   * @param dimension - Dimension the model outputs (default: the model's own)
+   * @throws UnknownEmbedderError if no model has that name
+   */
+  private createModel(modelType: EmbeddingModelName, dimension?: number): EmbeddingModel {
     switch (modelType) {
-      case 'tfidf':
-        // TF-IDF embedder with TypeScript as default language
-        return createTFIDFEmbedder('typescript', dimension);
-
-      case 'onnx':
-        // ONNX model not yet implemented, fall back to mock
-        console.warn(
-          'ONNX embedding model not yet implemented, using mock embedder. ' +
-            'Set embedding.modelType to "tfidf" for production use.'
-        );
-        return new MockEmbeddingModel(dimension);
+      case 'tfidf': {
+        // One TF-IDF model per language, or one shared model (TypeScript by default)
+        const { embeddingSpace, tokenizerMode } = this.config.embedding;
+        return embeddingSpace === 'per-language'
+          ? new LanguageRoutedEmbedder((language) =>
+              createTFIDFEmbedder(language, dimension, tokenizerMode)
+            )
+          : createTFIDFEmbedder('typescript', dimension, tokenizerMode);
+      }
+
+      case 'onnx': {
+        // Loaded on first use; a model whose output does not match the dimension is rejected then
+        const { modelPath, vocabPath, maxSequenceLength, batchSize, normalize } =
+          this.config.embedding;
+        return new ONNXEmbedder({
+          modelPath: modelPath ?? './models/code-embedder-small/model.onnx',
+          vocabPath,
+          dimension,
+          maxSequenceLength,
+          batchSize,
+          normalize,
+        });
+      }
+
+      case 'ast':
+        // Parses with the same grammars as the parser; falls back to token types without one
+        return new ASTEmbedder({
+          dimension,
+          grammarLoader: createGrammarLoader(this.config.parser.grammars),
+        });
 
       case 'mock':
-      default:
         return new MockEmbeddingModel(dimension);
+
+      default: {
+        const factory = getEmbedder(modelType);
+        if (!factory) throw new UnknownEmbedderError(modelType);
+        return factory({ dimension: dimension ?? 384, config: this.config });
+      }
     }
   }
 
@@ -189,34 +382,391 @@ export class NLCIEngine {
     filePath: string,
     language?: SupportedLanguage
   ): Promise<CodeBlock[]> {
-    const lang = language ?? getLanguageForFile(filePath) ?? 'typescript';
+    return this.indexSource(code, filePath, language, this.config.parser.minBlockSize ?? 10);
+  }
+
+  /**
+   * Parses source code and indexes every block of at least `minBlockSize` tokens.
+   */
+  private async indexSource(
+    code: string,
+    filePath: string,
+    language: SupportedLanguage | undefined,
+    minBlockSize: number
+  ): Promise<CodeBlock[]> {
+    const prepared = await prepareFile(
+      { filePath, content: code, language, minBlockSize },
+      this.parser
+    );
+    return this.insertPrepared(prepared);
+  }
 
-    // Parse code into blocks
-    const parseResult = this.parser.parse(code, filePath, lang);
+  /**
+   * Scans a directory tree and indexes every matching source file.
+   *
+   * Options not given fall back to the parser configuration, then to
+   * DEFAULT_SCAN_OPTIONS. Files larger than `maxFileSize` are skipped and
+   * `onProgress` is called once per discovered file.
+   *
+   * The blocks previously indexed from a file are removed before it is
+   * re-indexed. When scan memory is enabled, files recorded under `root` that
+   * no longer exist have their blocks removed and the memory is saved at the
+   * end. With `incremental`, files whose content hash is unchanged (and whose
+   * blocks are all still in the index) are not re-indexed.
+   *
+   * A TF-IDF model that is not frozen yet (one per language with
+   * `embedding.embeddingSpace: 'per-language'`) is first fitted to the blocks
+   * of the files being indexed, then frozen, so that every block is embedded
+   * against the same statistics. Blocks loaded from an index saved without an
+   * embedding model record are embedded again first.
+   *
+   * @param root - Directory to scan
+   * @param options - Scan options
+   * @returns Summary of the scan, including clone statistics
+   */
+  async scanDirectory(root: string, options: ScanOptions = {}): Promise<ScanSummary> {
+    const startTime = performance.now();
+    const opts = this.resolveScanOptions(options);
+    const memory = this._scanMemory;
 
-    // Index each block
-    const indexedBlocks: CodeBlock[] = [];
+    if (opts.incremental && !memory) {
+      throw new Error('Incremental scans require scan memory (set memory.enabled in the config)');
+    }
+    await memory?.load();
 
-    // Runtime: mergeConfig() ensures parser is always present, but use type guard
-    // for TypeScript's strict null checking during DTS generation
-    const parser = this.config.parser;
-    if (!parser) {
-      throw new Error(
-        'Parser config missing - this should never happen as mergeConfig ensures complete config'
+    const files = await this.discoverFiles(root, opts);
+    const windowSize = this.scanWindowSize;
+    const pool = this.createIndexingPool(files.length);
+
+    let processedFiles = 0;
+    let filesScanned = 0;
+    let filesUnchanged = 0;
+    let blocksIndexed = 0;
+    let indexBuildTimeMs = 0;
+
+    try {
+      if (this.embedderUnrecorded) {
+        await this.reembed();
+        this.embedderUnrecorded = false;
+      }
+      // The last window prepared to fit the embedding model is not read again
+      const fitWindow = await this.fitEmbedder(files, opts, pool);
+
+      // Files are read and prepared a window at a time, then merged in discovery
+      // order so the index doesn't depend on which worker finished first
+      for (let start = 0; start < files.length; start += windowSize) {
+        const indexStart = performance.now();
+        const { window, prepared } =
+          fitWindow && start + windowSize >= files.length
+            ? fitWindow
+            : await this.prepareWindow(files.slice(start, start + windowSize), opts, pool);
+
+        for (const loaded of window) {
+          try {
+            if (loaded.status === 'failed') {
+              throw loaded.error;
+            } else if (loaded.status === 'unchanged') {
+              filesUnchanged++;
+            } else if (loaded.status === 'changed') {
+              const result = prepared.get(loaded.filePath);
+              if (!result || result.error !== undefined) {
+                throw new Error(result?.error ?? 'File was not prepared');
+              }
+
+              const blocks = await this.reindex(
+                loaded.filePath,
+                () => this.insertPrepared(result),
+                opts.onBlockIdsChanged
+              );
+
+              memory?.record(
+                loaded.filePath,
+                loaded.contentHash,
+                blocks.length,
+                blocks.map((b) => b.id)
+              );
+              blocksIndexed += blocks.length;
+              filesScanned++;
+            }
+          } catch (error) {
+            opts.onError(
+              loaded.filePath,
+              error instanceof Error ? error : new Error(String(error))
+            );
+          }
+
+          processedFiles++;
+          opts.onProgress({
+            totalFiles: files.length,
+            processedFiles,
+            currentFile: loaded.filePath,
+            blocksIndexed,
+            elapsed: performance.now() - startTime,
+          });
+        }
+        indexBuildTimeMs += performance.now() - indexStart;
+      }
+    } finally {
+      await pool?.terminate();
+    }
+
+    let filesRemoved = 0;
+    if (memory) {
+      filesRemoved = this.forgetMissingFiles(root, new Set(files));
+      await memory.save();
+    }
+
+    this.scanTiming = {
+      filesScanned,
+      filesUnchanged,
+      filesRemoved,
+      scanTimeMs: performance.now() - startTime,
+      indexBuildTimeMs,
+    };
+
+    return this.generateSummary();
+  }
+
+  /**
+   * Number of files read and prepared together during a scan.
+   */
+  private get scanWindowSize(): number {
+    return Math.max(1, this.config.performance.maxConcurrentFiles);
+  }
+
+  /**
+   * Fits the TF-IDF models that are not frozen yet to the blocks of the
+   * files a scan will index, then freezes them.
+   *
+   * Files are prepared a window at a time and each window is dropped once
+   * fitted, so memory stays bounded by the scan window; the scan prepares
+   * them again to index them. Only the last window is returned to be
+   * indexed as it is, so a scan that fits in one window reads each file once.
+   *
+   * @returns The last prepared window, or null when no model needed fitting
+   */
+  private async fitEmbedder(
+    files: string[],
+    opts: Required<ScanOptions>,
+    pool: IndexingPool | null
+  ): Promise<PreparedWindow | null> {
+    const model = this.lexicalModel();
+    if (
+      model instanceof TFIDFEmbedder ? model.frozen : !(model instanceof LanguageRoutedEmbedder)
+    ) {
+      return null;
+    }
+
+    const fitted = new Set<TFIDFEmbedder>();
+    let last: PreparedWindow | null = null;
+    const windowSize = this.scanWindowSize;
+    for (let start = 0; start < files.length; start += windowSize) {
+      const { window, prepared } = await this.prepareWindow(
+        files.slice(start, start + windowSize),
+        opts,
+        pool
       );
+      last = { window, prepared };
+
+      // Fitted in discovery order, which decides the vocabulary's layout
+      for (const loaded of window) {
+        const result = prepared.get(loaded.filePath);
+        if (!result || result.error !== undefined) continue;
+
+        result.blocks.forEach((block, i) => {
+          const tfidf = this.tfidfFor(block.language, model);
+          if (!tfidf || tfidf.frozen) return;
+
+          const terms = result.termFrequencies?.[i];
+          if (terms) tfidf.partialFitTermFrequencies(new Map(terms));
+          else tfidf.partialFit(block.content, block.language);
+          fitted.add(tfidf);
+        });
+      }
     }
 
-    for (const block of parseResult.blocks) {
-      // Skip small blocks - use default (10) if minBlockSize is undefined
-      const minSize = parser.minBlockSize ?? 10;
-      if ((block.tokenCount ?? 0) < minSize) {
-        continue;
+    // Only models that saw blocks are frozen; an empty one would embed everything as zeros
+    for (const tfidf of fitted) {
+      tfidf.freeze();
+    }
+    this.cacheScope = undefined;
+
+    return last;
+  }
+
+  /**
+   * Reads the files of a scan window and prepares the ones that changed.
+   */
+  private async prepareWindow(
+    files: string[],
+    opts: Required<ScanOptions>,
+    pool: IndexingPool | null
+  ): Promise<PreparedWindow> {
+    const window = await Promise.all(files.map((file) => this.loadScanFile(file, opts)));
+    const prepared = await this.prepareFiles(this.scanTasks(window, opts), pool);
+    return { window, prepared };
+  }
+
+  /**
+   * Gets the TF-IDF model that embeds a language, if the engine uses TF-IDF.
+   *
+   * @param model - Model to look in (default: the embedding model)
+   */
+  private tfidfFor(
+    language: SupportedLanguage,
+    model: EmbeddingModel = this.embeddingModel
+  ): TFIDFEmbedder | undefined {
+    const routed = model instanceof LanguageRoutedEmbedder ? model.modelFor(language) : model;
+    return routed instanceof TFIDFEmbedder ? routed : undefined;
+  }
+
+  /**
+   * Gets the model that needs fitting to the indexed code: the TF-IDF member
+   * of a composite model, or else the embedding model itself.
+   */
+  private lexicalModel(): EmbeddingModel {
+    const model = this.embeddingModel;
+    if (!(model instanceof CompositeEmbedder)) return model;
+
+    return model.models.find((member) => this.tfidfFor('unknown', member) !== undefined) ?? model;
+  }
+
+  /**
+   * Lists the indexing tasks for the files of a scan window that changed.
+   */
+  private scanTasks(window: LoadedFile[], opts: Required<ScanOptions>): IndexingTask[] {
+    const tasks: IndexingTask[] = [];
+    for (const loaded of window) {
+      if (loaded.status === 'changed') {
+        tasks.push({
+          filePath: loaded.filePath,
+          content: loaded.content,
+          minBlockSize: opts.minBlockSize,
+        });
+      }
+    }
+    return tasks;
+  }
+
+  /**
+   * Reads a discovered file and decides whether it needs indexing.
+   */
+  private async loadScanFile(filePath: string, opts: Required<ScanOptions>): Promise<LoadedFile> {
+    try {
+      const stat = await fs.stat(filePath);
+      if (stat.size > opts.maxFileSize) {
+        return { filePath, status: 'skipped' };
+      }
+
+      const content = await fs.readFile(filePath, 'utf-8');
+      const contentHash = hashFileContent(content);
+
+      if (opts.incremental && this.isFileUnchanged(filePath, contentHash)) {
+        return { filePath, status: 'unchanged' };
+      }
+      return { filePath, status: 'changed', content, contentHash };
+    } catch (error) {
+      return {
+        filePath,
+        status: 'failed',
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  }
+
+  /**
+   * Starts a worker pool for a scan, or returns null to index on this thread.
+   *
+   * Workers are only used when the parser and embedding model come from the
+   * configuration (injected instances can't be rebuilt in a worker), the
+   * built worker script is available, and more than one worker would run.
+   */
+  private createIndexingPool(fileCount: number): IndexingPool | null {
+    if (!this.workerScript) return null;
+
+    const { numWorkers } = this.config.performance;
+    const size = Math.min(numWorkers > 0 ? numWorkers : availableParallelism(), fileCount);
+    if (size < 2) return null;
+
+    return new IndexingPool(size, this.workerScript, {
+      modelType: this.config.embedding.modelType,
+      tokenizerMode: this.config.embedding.tokenizerMode,
+      dimension: this.config.lsh.dimension,
+      parserEngine: this.config.parser.engine,
+      grammars: this.config.parser.grammars,
+    });
+  }
+
+  /**
+   * Parses files into blocks, on the pool when there is one.
+   *
+   * Tasks are batched up to `performance.chunkSizeKB` of source per worker
+   * message.
+   *
+   * @returns Prepared files keyed by path
+   */
+  private async prepareFiles(
+    tasks: IndexingTask[],
+    pool: IndexingPool | null
+  ): Promise<Map<string, PreparedFile>> {
+    let results: PreparedFile[];
+
+    if (pool) {
+      const chunkSize = this.config.performance.chunkSizeKB * 1024;
+      const batches: IndexingTask[][] = [];
+      let batch: IndexingTask[] = [];
+      let batchSize = 0;
+
+      for (const task of tasks) {
+        if (batch.length > 0 && batchSize + task.content.length > chunkSize) {
+          batches.push(batch);
+          batch = [];
+          batchSize = 0;
+        }
+        batch.push(task);
+        batchSize += task.content.length;
       }
+      if (batch.length > 0) batches.push(batch);
+
+      results = (await Promise.all(batches.map((b) => pool.run(b)))).flat();
+    } else {
+      results = [];
+      for (const task of tasks) {
+        try {
+          results.push(await prepareFile(task, this.parser));
+        } catch (error) {
+          results.push({
+            filePath: task.filePath,
+            blocks: [],
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    }
+
+    return new Map(results.map((result) => [result.filePath, result]));
+  }
+
+  /**
+   * Embeds (if not already embedded) and indexes the blocks of a prepared file.
+   *
+   * @returns The blocks that were inserted
+   */
+  private async insertPrepared(prepared: PreparedFile): Promise<CodeBlock[]> {
+    await this.embeddingCache?.load();
+    if (prepared.blocks.length > 0) await this.prepareLanguage(prepared.blocks[0].language);
 
-      // Generate embedding
-      const embedding = await this.embeddingModel.embed(block.content);
+    const indexedBlocks: CodeBlock[] = [];
+    const embeddings = prepared.embeddings ?? (await this.embedPrepared(prepared));
+
+    for (let i = 0; i < prepared.blocks.length; i++) {
+      const block = prepared.blocks[i];
+      const workerEmbedding = prepared.embeddings?.[i];
+      if (workerEmbedding) this.cacheEmbedding(block, workerEmbedding);
+
+      const embedding =
+        embeddings?.[i] ?? (await this.embedBlock(block, prepared.termFrequencies?.[i]));
 
-      // Add to index
       if (this.index.insert(block, embedding)) {
         indexedBlocks.push(block);
       }
@@ -225,12 +775,217 @@ export class NLCIEngine {
     return indexedBlocks;
   }
 
+  /**
+   * Embeds a prepared file's blocks in one batch when the model is not TF-IDF
+   * (whose embeddings must be computed in order) and no worker embedded them.
+   * Only blocks without a cached embedding are embedded.
+   */
+  private async embedPrepared(prepared: PreparedFile): Promise<Float32Array[] | undefined> {
+    const [first] = prepared.blocks;
+    if (!first || prepared.termFrequencies || this.tfidfFor(first.language)) return undefined;
+
+    const embeddings = prepared.blocks.map((block) => this.cachedEmbedding(block));
+    const missing = prepared.blocks.filter((_, i) => !embeddings[i]);
+    if (missing.length === 0) return embeddings as Float32Array[];
+
+    const computed = await this.embeddingModel.embedBatch(
+      missing.map((block) => block.content),
+      first.language
+    );
+    missing.forEach((block, i) => this.cacheEmbedding(block, computed[i]));
+
+    let next = 0;
+    return embeddings.map((embedding) => embedding ?? computed[next++]);
+  }
+
+  /**
+   * Embeds a block, from its cached embedding or its term frequencies if
+   * possible, and caches the result.
+   *
+   * @param terms - The block's term frequencies, computed by a worker
+   */
+  private async embedBlock(
+    block: CodeBlock,
+    terms?: Array<[string, number]>
+  ): Promise<Float32Array> {
+    await this.prepareLanguage(block.language);
+    const cached = this.cachedEmbedding(block);
+    if (cached) return cached;
+
+    const tfidf = terms && this.tfidfFor(block.language);
+    const embedding = tfidf
+      ? tfidf.embedTermFrequencies(new Map(terms))
+      : await this.embeddingModel.embed(block.content, block.language);
+
+    this.cacheEmbedding(block, embedding);
+    return embedding;
+  }
+
+  /**
+   * Prepares the embedding model for a language the first time it is met,
+   * before any of its embeddings are cached, since that may change the
+   * model's state.
+   *
+   * @returns false if the model embeds the language differently than its
+   *   imported state recorded
+   */
+  private async prepareLanguage(language: SupportedLanguage): Promise<boolean> {
+    if (!this.embeddingModel.prepare || this.preparedLanguages.has(language)) return true;
+
+    this.preparedLanguages.add(language);
+    this.cacheScope = undefined;
+    return this.embeddingModel.prepare(language);
+  }
+
+  /**
+   * Looks up a block's cached embedding.
+   */
+  private cachedEmbedding(block: CodeBlock): Float32Array | undefined {
+    const scope = this.embeddingScope(block.language);
+    return scope === null
+      ? undefined
+      : this.embeddingCache?.get(scope, block.language, block.contentHash);
+  }
+
+  /**
+   * Caches a block's embedding.
+   */
+  private cacheEmbedding(block: CodeBlock, embedding: Float32Array): void {
+    const scope = this.embeddingScope(block.language);
+    if (scope !== null) {
+      this.embeddingCache?.set(scope, block.language, block.contentHash, embedding);
+    }
+  }
+
+  /**
+   * Gets the cache scope of the embeddings the model produces for a
+   * language: its fingerprint and a hash of its learned state. Returns null
+   * when they cannot be cached, because the model has no fingerprint or
+   * the language's TF-IDF model is still learning.
+   */
+  private embeddingScope(language: SupportedLanguage): string | null {
+    const fingerprint = this.embeddingModel.fingerprint;
+    if (!this.embeddingCache || !fingerprint) return null;
+
+    const tfidf = this.tfidfFor(language, this.lexicalModel());
+    if (tfidf && !tfidf.frozen) {
+      // Its state changes with every block it embeds
+      this.cacheScope = undefined;
+      return null;
+    }
+
+    if (this.cacheScope === undefined) {
+      const state = this.embeddingModel.exportState?.();
+      this.cacheScope =
+        state === undefined
+          ? fingerprint
+          : `${fingerprint}:${createHash('sha256')
+              .update(JSON.stringify(state))
+              .digest('hex')
+              .slice(0, 16)}`;
+    }
+    return this.cacheScope;
+  }
+
+  /**
+   * Replaces the blocks of a file and reports the IDs of blocks that moved.
+   *
+   * @param insert - Indexes the file's new blocks
+   * @param onBlockIdsChanged - Called with the moved blocks, if any
+   * @returns The blocks that were inserted
+   */
+  private async reindex(
+    filePath: string,
+    insert: () => Promise<CodeBlock[]>,
+    onBlockIdsChanged: NonNullable<ScanOptions['onBlockIdsChanged']>
+  ): Promise<CodeBlock[]> {
+    const previous = this.index.getFileBlocks(filePath);
+    this.index.removeFile(filePath);
+    const blocks = await insert();
+
+    const changes = mapBlockIds(previous, blocks);
+    if (changes.size > 0) onBlockIdsChanged(filePath, changes);
+
+    return blocks;
+  }
+
+  /**
+   * Returns true if scan memory holds the same content hash for the file and
+   * every block recorded for it is still in the index.
+   */
+  private isFileUnchanged(filePath: string, contentHash: string): boolean {
+    const memory = this._scanMemory;
+    if (!memory || memory.isChanged(filePath, contentHash)) return false;
+
+    const blockIds = memory.getEntry(filePath)?.blockIds;
+    return blockIds !== undefined && blockIds.every((id) => this.index.has(id));
+  }
+
+  /**
+   * Removes the blocks of files recorded under `root` that were not found by
+   * this scan, and drops them from scan memory.
+   *
+   * @returns Number of files forgotten
+   */
+  private forgetMissingFiles(root: string, found: Set<string>): number {
+    const memory = this._scanMemory;
+    if (!memory) return 0;
+
+    let removed = 0;
+    for (const { filePath } of memory.getHistory()) {
+      const relative = path.relative(root, filePath);
+      const underRoot = !relative.startsWith('..') && !path.isAbsolute(relative);
+
+      if (underRoot && !found.has(filePath)) {
+        this.index.removeFile(filePath);
+        memory.forget(filePath);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Fills in scan options from the parser configuration and defaults.
+   */
+  private resolveScanOptions(options: ScanOptions): Required<ScanOptions> {
+    const parser = this.config.parser;
+    const configInclude = parser.includePatterns?.length ? parser.includePatterns : undefined;
+
+    return {
+      include: options.include ?? configInclude ?? DEFAULT_SCAN_OPTIONS.include,
+      exclude: options.exclude ?? parser.excludePatterns ?? DEFAULT_SCAN_OPTIONS.exclude,
+      maxFileSize: options.maxFileSize ?? DEFAULT_SCAN_OPTIONS.maxFileSize,
+      minBlockSize:
+        options.minBlockSize ?? parser.minBlockSize ?? DEFAULT_SCAN_OPTIONS.minBlockSize,
+      incremental: options.incremental ?? DEFAULT_SCAN_OPTIONS.incremental,
+      onProgress: options.onProgress ?? DEFAULT_SCAN_OPTIONS.onProgress,
+      onError: options.onError ?? DEFAULT_SCAN_OPTIONS.onError,
+      onBlockIdsChanged: options.onBlockIdsChanged ?? DEFAULT_SCAN_OPTIONS.onBlockIdsChanged,
+    };
+  }
+
+  /**
+   * Finds the files under `root` matching the scan globs, in a stable order.
+   */
+  private async discoverFiles(root: string, options: Required<ScanOptions>): Promise<string[]> {
+    const files = await glob(options.include, {
+      cwd: root,
+      absolute: true,
+      ignore: options.exclude,
+      nodir: true,
+    });
+
+    return files.sort();
+  }
+
   /**
    * Indexes a single code block directly.
    */
   async indexBlock(block: CodeBlock): Promise<boolean> {
-    const embedding = await this.embeddingModel.embed(block.content);
-    return this.index.insert(block, embedding);
+    await this.embeddingCache?.load();
+    return this.index.insert(block, await this.embedBlock(block));
   }
 
   /**
@@ -265,14 +1020,66 @@ export class NLCIEngine {
     return this.queryEngine.findAllClones(options);
   }
 
+  /**
+   * Finds groups of blocks with identical normalized content.
+   *
+   * Works from content hashes alone, whatever the embedding model.
+   *
+   * @param options - Query options (`languages`, `includePatterns` and `excludePatterns` apply)
+   * @returns Type-1 clusters, largest first
+   */
+  async findExactDuplicates(options?: Partial<QueryOptions>): Promise<CloneCluster[]> {
+    return this.queryEngine.findExactDuplicates(options);
+  }
+
+  /**
+   * Finds groups of type-2 clones: blocks whose tokens match once identifiers
+   * are numbered by first appearance and literals reduced to their types.
+   *
+   * Works from tokens alone, whatever the embedding model.
+   *
+   * @param options - Query options (`languages`, `includePatterns` and `excludePatterns` apply)
+   * @returns Type-2 clusters, largest first
+   */
+  async findType2Clones(options?: Partial<QueryOptions>): Promise<CloneCluster[]> {
+    return this.queryEngine.findType2Clones(options);
+  }
+
+  /**
+   * Finds all pairs of similar blocks in the index.
+   *
+   * Each A↔B pair is reported once, with the block indexed first as
+   * `source`.
+   *
+   * @param options - Query options (all but `maxResults` and `includeSelf` apply)
+   * @returns Deduplicated clone pairs
+   */
+  async findClonePairs(options?: Partial<QueryOptions>): Promise<CloneResult[]> {
+    return this.queryEngine.findClonePairs(options);
+  }
+
+  /**
+   * Yields deduplicated clone pairs as they are found.
+   *
+   * @param options - Query options (all but `maxResults` and `includeSelf` apply)
+   */
+  iterateClonePairs(options?: Partial<QueryOptions>): AsyncGenerator<CloneResult> {
+    return this.queryEngine.iterateClonePairs(options);
+  }
+
   /**
    * Generates a scan summary.
    *
+   * File counts come from the last scanDirectory(); without one, every
+   * indexed file counts as scanned.
+   *
    * @returns Summary of indexed code
    */
   async generateSummary(): Promise<ScanSummary> {
     const blocks = this.index.getAllBlocks();
+    const cloneStart = performance.now();
     const clusters = await this.findAllClones({ minSimilarity: 0.85 });
+    const cloneTimeMs = performance.now() - cloneStart;
 
     // Count clone types
     const typeDistribution: Record<CloneType, number> = {
@@ -293,19 +1100,21 @@ export class NLCIEngine {
     const files = new Set(blocks.map((b) => b.filePath));
     const languages = [...new Set(blocks.map((b) => b.language))] as SupportedLanguage[];
 
-    const summary: ScanSummary = {
-      filesScanned: files.size,
+    // Pair search time, amortized over the blocks it compared
+    const avgQueryTimeMs = blocks.length > 0 ? cloneTimeMs / blocks.length : 0;
+
+    return {
+      filesScanned: this.scanTiming?.filesScanned ?? files.size,
+      filesUnchanged: this.scanTiming?.filesUnchanged ?? 0,
+      filesRemoved: this.scanTiming?.filesRemoved ?? 0,
       blocksIndexed: blocks.length,
       clonePairsFound: clusters.reduce((sum, c) => sum + c.blocks.length - 1, 0),
       clonesByType: typeDistribution,
       languages,
-      scanTimeMs: this.scanSummary?.scanTimeMs ?? 0,
-      indexBuildTimeMs: 0,
-      avgQueryTimeMs: 0,
+      scanTimeMs: this.scanTiming?.scanTimeMs ?? 0,
+      indexBuildTimeMs: this.scanTiming?.indexBuildTimeMs ?? 0,
+      avgQueryTimeMs,
     };
-
-    this.scanSummary = summary;
-    return summary;
   }
 
   /**
@@ -315,6 +1124,14 @@ export class NLCIEngine {
     return this.index.getStats();
   }
 
+  /**
+   * Gets embedding cache statistics, or undefined when the cache is disabled
+   * (`storage.maxCacheSizeMB` is 0).
+   */
+  getEmbeddingCacheStats(): EmbeddingCacheStats | undefined {
+    return this.embeddingCache?.getStats();
+  }
+
   /**
    * Gets a block by ID.
    */
@@ -336,6 +1153,45 @@ export class NLCIEngine {
     return this.index.remove(blockId);
   }
 
+  /**
+   * Removes every block indexed from a file.
+   *
+   * @param filePath - Path of the file, as it was given when indexing
+   * @returns Number of blocks removed
+   */
+  removeFile(filePath: string): number {
+    return this.index.removeFile(filePath);
+  }
+
+  /**
+   * Re-indexes a file, replacing all of its previously indexed blocks.
+   *
+   * @param filePath - Path of the file
+   * @param code - The file's new content
+   * @param language - Programming language
+   * @param onBlockIdsChanged - Called with the new ID of each block whose ID changed
+   * @returns The newly indexed blocks
+   */
+  async replaceFile(
+    filePath: string,
+    code: string,
+    language?: SupportedLanguage,
+    onBlockIdsChanged: (changes: ReadonlyMap<string, string>) => void = () => {}
+  ): Promise<CodeBlock[]> {
+    return this.reindex(
+      filePath,
+      () => this.indexCode(code, filePath, language),
+      (_, changes) => onBlockIdsChanged(changes)
+    );
+  }
+
+  /**
+   * Lists the files that have blocks in the index.
+   */
+  listFiles(): string[] {
+    return this.index.listFiles();
+  }
+
   /**
    * Checks if a block exists in the index.
    */
@@ -348,7 +1204,7 @@ export class NLCIEngine {
    */
   clear(): void {
     this.index.clear();
-    this.scanSummary = null;
+    this.scanTiming = null;
   }
 
   /**
@@ -378,17 +1234,121 @@ export class NLCIEngine {
   }
 
   /**
-   * Persists the index to storage.
+   * Persists the index to storage, with the embedding model's fingerprint
+   * and learned state, and the embedding cache.
    */
   async save(): Promise<void> {
     await this.index.save();
+    await this.embeddingCache?.save();
+
+    // Blocks not embedded again yet keep the index's unknown model
+    if (this.embedderUnrecorded) return;
+
+    const saved: SavedEmbedder = {
+      fingerprint: this.embeddingModel.fingerprint ?? null,
+      state: this.embeddingModel.exportState?.() ?? null,
+    };
+    await this.storage.save(EMBEDDER_STATE_KEY, JSON.stringify(saved));
+  }
+
+  /**
+   * Loads the index from storage and restores the embedding model's state.
+   *
+   * If the index was saved with a different embedding model, its embeddings
+   * can't be compared with new ones: by default the index is left empty and
+   * an EmbedderMismatchError is thrown; with `onEmbedderMismatch: 're-embed'`
+   * every block is embedded again. The same goes for an index whose model
+   * now embeds one of its languages differently, such as an AST model that
+   * can load a grammar it fell back to tokens without.
+   *
+   * An index saved before the model was recorded is loaded as it is, since
+   * its model is unknown rather than known to differ; the next
+   * scanDirectory() embeds its blocks again (as does `onEmbedderMismatch:
+   * 're-embed'`, right away).
+   *
+   * @param options - Load options
+   * @returns Whether an index was found
+   * @throws EmbedderMismatchError if the embedding models differ
+   */
+  async load(options: LoadOptions = {}): Promise<boolean> {
+    this.embedderUnrecorded = false;
+    const loaded = await this.index.load();
+    await this.embeddingCache?.load();
+    if (!loaded) return false;
+
+    const json = await this.storage.load(EMBEDDER_STATE_KEY);
+    const saved = json ? (JSON.parse(json) as SavedEmbedder) : undefined;
+    const fingerprint = this.embeddingModel.fingerprint ?? null;
+
+    if (saved && saved.fingerprint === fingerprint) {
+      if (saved.state !== null) {
+        this.embeddingModel.importState?.(saved.state);
+        this.cacheScope = undefined;
+      }
+      if (await this.prepareIndexedLanguages()) return true;
+    }
+
+    if (options.onEmbedderMismatch === 're-embed') {
+      await this.reembed();
+      return true;
+    }
+
+    if (!saved) {
+      this.embedderUnrecorded = true;
+      return true;
+    }
+
+    this.index.clear();
+    throw new EmbedderMismatchError(saved.fingerprint, fingerprint);
+  }
+
+  /**
+   * Prepares the embedding model again for every indexed language.
+   *
+   * @returns false if the model embeds one of them differently than its
+   *   imported state recorded
+   */
+  private async prepareIndexedLanguages(): Promise<boolean> {
+    this.preparedLanguages.clear();
+    if (!this.embeddingModel.prepare) return true;
+    const languages = new Set([...this.index.getAllBlocks()].map((block) => block.language));
+
+    let unchanged = true;
+    for (const language of languages) {
+      if (!(await this.prepareLanguage(language))) unchanged = false;
+    }
+    return unchanged;
   }
 
   /**
-   * Loads the index from storage.
+   * Embeds every indexed block again with the current model, first fitting
+   * the TF-IDF models that are not frozen to the indexed code.
    */
-  async load(): Promise<boolean> {
-    return this.index.load();
+  private async reembed(): Promise<void> {
+    const blocks = [...this.index.getAllBlocks()];
+
+    const lexical = this.lexicalModel();
+    const fitted = new Set<TFIDFEmbedder>();
+    for (const block of blocks) {
+      const tfidf = this.tfidfFor(block.language, lexical);
+      if (!tfidf || (tfidf.frozen && !fitted.has(tfidf))) continue;
+
+      // Restart from scratch, like fit(), the first time a model is met
+      if (!fitted.has(tfidf)) {
+        tfidf.reset();
+        fitted.add(tfidf);
+      }
+      tfidf.partialFit(block.content, block.language);
+    }
+    for (const tfidf of fitted) {
+      tfidf.freeze();
+    }
+    this.cacheScope = undefined;
+
+    this.index.clear();
+    for (const block of blocks) {
+      this.index.insert(block, await this.embedBlock(block));
+    }
   }
 
   /**
@@ -414,4 +1374,21 @@ export class NLCIEngine {
   }
 }
 
+/**
+ * Hashes raw file content for scan-memory change detection.
+ */
+function hashFileContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Number of threads the process can run in parallel.
+ * `os.availableParallelism()` only exists from Node 18.14.
+ */
+function availableParallelism(): number {
+  return typeof os.availableParallelism === 'function'
+    ? os.availableParallelism()
+    : Math.max(1, os.cpus().length);
+}
+
 export { NLCIEngine as default };
@@ -13,8 +13,16 @@ import type {
   QueryResult,
 } from '../types/clone-result.js';
 import { DEFAULT_QUERY_OPTIONS } from '../types/clone-result.js';
-import type { CodeBlock } from '../types/code-block.js';
+import { createCodeBlock, type CodeBlock } from '../types/code-block.js';
+import { createBlockFilter, type BlockFilter } from './block-filter.js';
+import { classifyClone, DEFAULT_TYPE3_MAX_EDIT_DISTANCE } from './clone-classifier.js';
+import { clusterLinks } from './clustering.js';
+import { computeCloneMetrics } from './clone-metrics.js';
 import type { EmbeddingModel } from './indexer.js';
+import { findType2Groups } from './type2-detector.js';
+
+/** File path of the synthetic block that stands for a query snippet */
+export const QUERY_FILE_PATH = '<query>';
 
 /**
  * Query engine for finding similar code blocks.
@@ -31,6 +39,9 @@ export class QueryEngine {
   /**
    * Queries for similar code blocks.
    *
+   * Indexed exact duplicates of the code are found by content hash and
+   * ranked first; the embedding is only computed if more results are needed.
+   *
    * @param code - The code to search for
    * @param options - Query options
    * @returns Query result with matches
@@ -38,19 +49,49 @@ export class QueryEngine {
   async query(code: string, options: Partial<QueryOptions> = {}): Promise<QueryResult> {
     const opts = { ...DEFAULT_QUERY_OPTIONS, ...options };
     const startTime = performance.now();
+    const filter = createBlockFilter(opts);
+    const tokenCache = new Map<string, string[]>();
+    const language =
+      opts.language === 'unknown' && opts.languages.length === 1
+        ? opts.languages[0]
+        : opts.language;
+
+    const source = createCodeBlock({
+      content: code,
+      filePath: QUERY_FILE_PATH,
+      startLine: 1,
+      endLine: code.split('\n').length,
+      language,
+      blockType: 'block',
+    });
+    const duplicates = this.exactDuplicates(source, opts, filter, tokenCache);
 
-    // Generate embedding for query
-    const embedding = await this.embeddingModel.embed(code);
+    let clones = duplicates;
+    let truncated = false;
 
-    // Query the LSH index
-    const candidates = this.index.query(embedding, {
-      maxResults: opts.maxResults * 2, // Get extra for filtering
-      minSimilarity: opts.minSimilarity * 0.8, // Lower threshold, filter later
-      computeActualSimilarity: true,
-    });
+    if (duplicates.length < opts.maxResults) {
+      // Generate embedding for query
+      const embedding = await this.embeddingModel.embed(code, language);
 
-    // Filter and classify results
-    const clones = this.filterAndClassify(candidates, opts);
+      // Query the LSH index
+      const candidates = this.index.query(embedding, {
+        maxResults: opts.maxResults * 2, // Get extra for filtering
+        minSimilarity: opts.minSimilarity * 0.8, // Lower threshold, filter later
+        computeActualSimilarity: true,
+        filter,
+      });
+
+      // Filter and classify results
+      const similar = this.filterAndClassify(
+        this.withoutDuplicates(candidates, duplicates),
+        opts,
+        source,
+        startTime + opts.timeoutMs,
+        tokenCache
+      );
+      clones = [...duplicates, ...similar.clones];
+      truncated = similar.truncated;
+    }
 
     // Limit results
     const limitedClones = clones.slice(0, opts.maxResults);
@@ -62,6 +103,7 @@ export class QueryEngine {
       clones: limitedClones,
       totalMatches: clones.length,
       duration,
+      truncated,
     };
   }
 
@@ -72,7 +114,7 @@ export class QueryEngine {
    * @param options - Query options
    * @returns Query result with matches
    */
-  async querySimilar(blockId: string, options: Partial<QueryOptions> = {}): Promise<QueryResult> {
+  querySimilar(blockId: string, options: Partial<QueryOptions> = {}): Promise<QueryResult> {
     const opts = { ...DEFAULT_QUERY_OPTIONS, ...options };
     const startTime = performance.now();
 
@@ -80,233 +122,390 @@ export class QueryEngine {
     const block = this.index.get(blockId);
 
     if (!embedding || !block) {
-      return {
+      return Promise.resolve({
         query: '',
         clones: [],
         totalMatches: 0,
         duration: performance.now() - startTime,
-      };
+        truncated: false,
+      });
     }
 
+    const filter = createBlockFilter(opts);
+    const tokenCache = new Map<string, string[]>();
+    const duplicates = this.exactDuplicates(block, opts, filter, tokenCache);
+
     // Query the LSH index
     const candidates = this.index.query(embedding, {
       maxResults: opts.maxResults * 2 + 1, // +1 for self
       minSimilarity: opts.minSimilarity * 0.8,
       computeActualSimilarity: true,
+      filter,
     });
 
-    // Filter out self and classify
-    const filteredCandidates = candidates.filter((c) => c.block.id !== blockId);
-    const clones = this.filterAndClassify(filteredCandidates, opts);
+    // Filter out self and duplicates, and classify
+    const filteredCandidates = this.withoutDuplicates(candidates, duplicates).filter(
+      (c) => c.block.id !== blockId
+    );
+    const similar = this.filterAndClassify(
+      filteredCandidates,
+      opts,
+      block,
+      startTime + opts.timeoutMs,
+      tokenCache
+    );
+    const clones = [...duplicates, ...similar.clones];
     const limitedClones = clones.slice(0, opts.maxResults);
 
     const duration = performance.now() - startTime;
 
-    return {
+    return Promise.resolve({
       query: block.content,
       clones: limitedClones,
       totalMatches: clones.length,
       duration,
-    };
+      truncated: similar.truncated,
+    });
   }
 
   /**
-   * Finds all clone clusters in the index.
+   * Finds groups of blocks with identical normalized content.
    *
-   * Uses a union-find based approach to group similar blocks.
+   * Uses only content hashes, so it does not depend on the embedding model.
+   *
+   * @param options - Query options (`languages`, `includePatterns` and `excludePatterns` apply)
+   * @returns Type-1 clusters, largest first
    */
-  async findAllClones(options: Partial<QueryOptions> = {}): Promise<CloneCluster[]> {
+  findExactDuplicates(options: Partial<QueryOptions> = {}): Promise<CloneCluster[]> {
     const opts = { ...DEFAULT_QUERY_OPTIONS, ...options };
-    const blocks = this.index.getAllBlocks();
-
-    // Union-find for clustering
-    const parent = new Map<string, string>();
-    const rank = new Map<string, number>();
+    const result: CloneCluster[] = [];
 
-    const find = (x: string): string => {
-      if (!parent.has(x)) {
-        parent.set(x, x);
-        rank.set(x, 0);
-      }
-      if (parent.get(x) !== x) {
-        parent.set(x, find(parent.get(x)!));
-      }
-      return parent.get(x)!;
-    };
+    for (const blocks of this.index.duplicateGroups(createBlockFilter(opts))) {
+      result.push({
+        id: `cluster-${result.length}`,
+        blocks,
+        cloneType: 'type-1',
+        ...this.summarizeCluster(blocks, () => 1),
+      });
+    }
 
-    const union = (x: string, y: string): void => {
-      const px = find(x);
-      const py = find(y);
-      if (px === py) return;
-
-      const rx = rank.get(px) ?? 0;
-      const ry = rank.get(py) ?? 0;
-
-      if (rx < ry) {
-        parent.set(px, py);
-      } else if (rx > ry) {
-        parent.set(py, px);
-      } else {
-        parent.set(py, px);
-        rank.set(px, rx + 1);
-      }
-    };
+    result.sort((a, b) => b.blocks.length - a.blocks.length);
 
-    // Find similar pairs and union them
-    const clonePairs: Array<{
-      source: CodeBlock;
-      target: CodeBlock;
-      similarity: number;
-      cloneType: CloneType;
-    }> = [];
+    return Promise.resolve(result);
+  }
 
-    for (const block of blocks) {
-      const embedding = this.index.getEmbedding(block.id);
-      if (!embedding) continue;
+  /**
+   * Finds groups of consistently renamed blocks (type-2 clones) from their
+   * abstracted tokens, whatever the embedding model.
+   *
+   * Groups of exact duplicates alone are left to findExactDuplicates().
+   */
+  findType2Clones(options: Partial<QueryOptions> = {}): Promise<CloneCluster[]> {
+    const opts = { ...DEFAULT_QUERY_OPTIONS, ...options };
+    const filter = createBlockFilter(opts);
+    const blocks = filter ? this.index.getAllBlocks().filter(filter) : this.index.getAllBlocks();
+    const result: CloneCluster[] = [];
 
-      const candidates = this.index.query(embedding, {
-        maxResults: 50,
-        minSimilarity: opts.minSimilarity,
-        computeActualSimilarity: true,
+    for (const group of findType2Groups(blocks)) {
+      result.push({
+        id: `cluster-${result.length}`,
+        blocks: group,
+        cloneType: 'type-2',
+        ...this.summarizeCluster(group),
       });
-
-      for (const candidate of candidates) {
-        if (candidate.block.id === block.id) continue;
-        if (candidate.actualSimilarity && candidate.actualSimilarity >= opts.minSimilarity) {
-          // Union the blocks
-          union(block.id, candidate.block.id);
-
-          // Record the pair
-          clonePairs.push({
-            source: block,
-            target: candidate.block,
-            similarity: candidate.actualSimilarity,
-            cloneType: this.classifyCloneType(block, candidate.block, candidate.actualSimilarity),
-          });
-        }
-      }
     }
 
-    // Build clusters from union-find
-    const clusters = new Map<
-      string,
+    result.sort((a, b) => b.blocks.length - a.blocks.length);
+
+    return Promise.resolve(result);
+  }
+
+  /**
+   * Finds all clone clusters in the index.
+   *
+   * Groups similar blocks with the `clustering` strategy. Only blocks
+   * passing the language and path filters are clustered. The whole index is
+   * searched unless `timeoutMs` is given; once it elapses, clusters are built
+   * from the pairs found so far.
+   */
+  findAllClones(options: Partial<QueryOptions> = {}): Promise<CloneCluster[]> {
+    const opts = { ...DEFAULT_QUERY_OPTIONS, ...options };
+    const deadline = wholeIndexDeadline(options);
+    const filter = createBlockFilter(opts);
+    const blocks = filter ? this.index.getAllBlocks().filter(filter) : this.index.getAllBlocks();
+
+    // Find similar pairs and group them
+    const clonePairs = [...this.clonePairs(opts, filter, deadline)];
+    const groups = clusterLinks(
+      blocks.map((block) => block.id),
+      clonePairs.map((pair) => ({
+        sourceId: pair.source.id,
+        targetId: pair.target.id,
+        similarity: pair.similarity,
+      })),
       {
-        blocks: CodeBlock[];
-        avgSimilarity: number;
-        similaritySum: number;
-        count: number;
-      }
-    >();
-
-    for (const block of blocks) {
-      const root = find(block.id);
-      if (!clusters.has(root)) {
-        clusters.set(root, {
-          blocks: [],
-          avgSimilarity: 0,
-          similaritySum: 0,
-          count: 0,
-        });
+        strategy: opts.clustering,
+        minSimilarity: opts.minSimilarity,
+        maxDiameter: opts.maxClusterDiameter,
+        similarity: (a, b) => this.index.similarity(a, b) ?? 0,
       }
-      clusters.get(root)!.blocks.push(block);
+    );
+
+    type Cluster = { blocks: CodeBlock[]; cloneType: CloneType };
+    const clusterOf = new Map<string, Cluster>();
+    const blocksById = new Map(blocks.map((block) => [block.id, block]));
+
+    for (const ids of groups) {
+      const cluster: Cluster = {
+        blocks: ids.map((id) => blocksById.get(id)!),
+        cloneType: 'type-1',
+      };
+      for (const id of ids) clusterOf.set(id, cluster);
     }
 
-    // Calculate average similarity for each cluster
+    // A cluster's type is that of its loosest pair within it
     for (const pair of clonePairs) {
-      const root = find(pair.source.id);
-      const cluster = clusters.get(root);
-      if (cluster) {
-        cluster.similaritySum += pair.similarity;
-        cluster.count++;
+      const cluster = clusterOf.get(pair.source.id);
+      if (
+        cluster &&
+        cluster === clusterOf.get(pair.target.id) &&
+        pair.cloneType > cluster.cloneType
+      ) {
+        cluster.cloneType = pair.cloneType;
       }
     }
 
     // Filter to clusters with 2+ blocks and convert to result format
     const result: CloneCluster[] = [];
 
-    for (const cluster of clusters.values()) {
+    for (const cluster of new Set(clusterOf.values())) {
       if (cluster.blocks.length < 2) continue;
 
-      cluster.avgSimilarity = cluster.count > 0 ? cluster.similaritySum / cluster.count : 0;
-
-      // Determine clone type for cluster
-      let cloneType: CloneType = 'type-4';
-      if (cluster.avgSimilarity >= 0.99) cloneType = 'type-1';
-      else if (cluster.avgSimilarity >= 0.95) cloneType = 'type-2';
-      else if (cluster.avgSimilarity >= 0.85) cloneType = 'type-3';
-
       result.push({
         id: `cluster-${result.length}`,
         blocks: cluster.blocks,
-        cloneType,
-        avgSimilarity: cluster.avgSimilarity,
+        cloneType: cluster.cloneType,
+        ...this.summarizeCluster(cluster.blocks),
       });
     }
 
     // Sort by cluster size
     result.sort((a, b) => b.blocks.length - a.blocks.length);
 
-    return result;
+    return Promise.resolve(result);
+  }
+
+  /**
+   * Computes a cluster's representative, average similarity and size measures.
+   *
+   * Similarities are taken over every pair of blocks, not only the pairs
+   * that linked the cluster, so the representative is the true medoid.
+   */
+  private summarizeCluster(
+    blocks: readonly CodeBlock[],
+    similarityOf: (idA: string, idB: string) => number = (a, b) => this.index.similarity(a, b) ?? 0
+  ): Omit<CloneCluster, 'id' | 'blocks' | 'cloneType'> {
+    const similaritySums = new Array<number>(blocks.length).fill(0);
+    let total = 0;
+    let lowest = 1;
+
+    for (let i = 0; i < blocks.length; i++) {
+      for (let j = i + 1; j < blocks.length; j++) {
+        const similarity = similarityOf(blocks[i].id, blocks[j].id);
+        similaritySums[i] += similarity;
+        similaritySums[j] += similarity;
+        total += similarity;
+        lowest = Math.min(lowest, similarity);
+      }
+    }
+
+    let medoid = 0;
+    for (let i = 1; i < blocks.length; i++) {
+      if (similaritySums[i] > similaritySums[medoid]) medoid = i;
+    }
+
+    const representative = blocks[medoid];
+    const lineCount = (block: CodeBlock): number => block.endLine - block.startLine + 1;
+    const pairCount = (blocks.length * (blocks.length - 1)) / 2;
+
+    return {
+      avgSimilarity: pairCount > 0 ? total / pairCount : 0,
+      cohesion: pairCount > 0 ? lowest : 0,
+      representative,
+      duplicatedLines:
+        blocks.reduce((sum, block) => sum + lineCount(block), 0) - lineCount(representative),
+      fileCount: new Set(blocks.map((block) => block.filePath)).size,
+      totalTokens: blocks.reduce((sum, block) => sum + block.tokenCount, 0),
+    };
+  }
+
+  /**
+   * Finds all pairs of similar blocks in the index.
+   *
+   * Each pair is reported once, with the block indexed first as `source`.
+   * Pairs come from shared LSH buckets, probed as `querySimilar()` probes
+   * them, rather than from a query per block. `maxResults` is not applied;
+   * use `iterateClonePairs()` to stop early. The whole index is searched
+   * unless `timeoutMs` is given; then only the pairs found before it
+   * elapses are returned.
+   *
+   * @param options - Query options (all but `maxResults` and `includeSelf` apply)
+   * @returns Deduplicated clone pairs
+   */
+  async findClonePairs(options: Partial<QueryOptions> = {}): Promise<CloneResult[]> {
+    const pairs: CloneResult[] = [];
+    for await (const pair of this.iterateClonePairs(options)) {
+      pairs.push(pair);
+    }
+    return pairs;
+  }
+
+  /**
+   * Yields deduplicated clone pairs as they are found.
+   *
+   * @param options - Query options (all but `maxResults` and `includeSelf` apply)
+   */
+  async *iterateClonePairs(options: Partial<QueryOptions> = {}): AsyncGenerator<CloneResult> {
+    const opts = { ...DEFAULT_QUERY_OPTIONS, ...options };
+    const deadline = wholeIndexDeadline(options);
+
+    for await (const pair of this.clonePairs(opts, createBlockFilter(opts), deadline)) {
+      if (opts.cloneTypes && !opts.cloneTypes.includes(pair.cloneType)) continue;
+      yield pair;
+    }
   }
 
   /**
-   * Filters candidates and classifies clone types.
+   * Yields every similar pair once, exact duplicates first and then pairs
+   * from LSH bucket co-membership, stopping at the deadline.
+   */
+  private *clonePairs(
+    opts: Required<QueryOptions>,
+    filter: BlockFilter | undefined,
+    deadline: number
+  ): Generator<CloneResult> {
+    const tokenCache = new Map<string, string[]>();
+
+    // Exact duplicates come straight from the content hash index
+    for (const group of this.index.duplicateGroups(filter)) {
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) {
+          if (performance.now() > deadline) return;
+          yield this.createCloneResult(group[i], group[j], 1, tokenCache);
+        }
+      }
+    }
+
+    const pairs = this.index.similarPairs({
+      minSimilarity: opts.minSimilarity,
+      minCollisions: opts.minCollisions,
+      maxPairsInMemory: opts.maxCandidatePairs,
+      filter,
+      onProgress: opts.onProgress,
+      shouldStop: () => performance.now() > deadline,
+    });
+
+    for (const pair of pairs) {
+      if (pair.source.normalizedContent === pair.target.normalizedContent) continue;
+      yield this.createCloneResult(pair.source, pair.target, pair.similarity, tokenCache);
+    }
+  }
+
+  /**
+   * Filters candidates and classifies clone types until the deadline.
    */
   private filterAndClassify(
     candidates: readonly LSHQueryResult[],
-    options: QueryOptions
-  ): CloneResult[] {
+    options: QueryOptions,
+    source: CodeBlock,
+    deadline: number,
+    tokenCache: Map<string, string[]>
+  ): { clones: CloneResult[]; truncated: boolean } {
     const results: CloneResult[] = [];
 
     for (const candidate of candidates) {
+      if (performance.now() > deadline) {
+        return { clones: results, truncated: true };
+      }
+
       const similarity = candidate.actualSimilarity ?? candidate.estimatedSimilarity;
 
       if (similarity < (options.minSimilarity ?? 0.8)) continue;
 
-      // Classify clone type
-      const cloneType = this.classifyCloneTypeBySimilarity(similarity);
+      const result = this.createCloneResult(source, candidate.block, similarity, tokenCache);
 
       // Filter by requested clone types
-      if (options.cloneTypes && !options.cloneTypes.includes(cloneType)) {
+      if (options.cloneTypes && !options.cloneTypes.includes(result.cloneType)) {
         continue;
       }
 
-      results.push({
-        source: candidate.block,
-        target: candidate.block,
-        similarity,
-        cloneType,
-        metrics: {
-          sharedTokens: 0, // Would need actual comparison
-          totalTokens: candidate.block.tokenCount ?? 0,
-          editDistance: 0,
-        },
-      });
+      results.push(result);
     }
 
-    return results;
+    return { clones: results, truncated: false };
   }
 
   /**
-   * Classifies clone type by similarity score.
+   * Finds indexed blocks with the same normalized content as `source`.
    */
-  private classifyCloneTypeBySimilarity(similarity: number): CloneType {
-    if (similarity >= 0.99) return 'type-1';
-    if (similarity >= 0.95) return 'type-2';
-    if (similarity >= 0.85) return 'type-3';
-    return 'type-4';
+  private exactDuplicates(
+    source: CodeBlock,
+    opts: Required<QueryOptions>,
+    filter: BlockFilter | undefined,
+    tokenCache: Map<string, string[]>
+  ): CloneResult[] {
+    if (!opts.cloneTypes.includes('type-1')) return [];
+
+    return this.index
+      .getByContentHash(source.contentHash)
+      .filter(
+        (block) =>
+          block.id !== source.id &&
+          block.normalizedContent === source.normalizedContent &&
+          (!filter || filter(block))
+      )
+      .map((block) => this.createCloneResult(source, block, 1, tokenCache));
   }
 
   /**
-   * Classifies clone type by comparing two blocks.
+   * Drops LSH candidates already reported as exact duplicates.
    */
-  private classifyCloneType(source: CodeBlock, target: CodeBlock, similarity: number): CloneType {
-    // Check for exact match (Type-1)
-    if (source.contentHash === target.contentHash) {
-      return 'type-1';
-    }
+  private withoutDuplicates(
+    candidates: readonly LSHQueryResult[],
+    duplicates: readonly CloneResult[]
+  ): LSHQueryResult[] {
+    const ids = new Set(duplicates.map((duplicate) => duplicate.target.id));
+    return candidates.filter((candidate) => !ids.has(candidate.block.id));
+  }
+
+  /**
+   * Builds the result for a pair of blocks, classifying its clone type.
+   */
+  private createCloneResult(
+    source: CodeBlock,
+    target: CodeBlock,
+    similarity: number,
+    tokenCache: Map<string, string[]>
+  ): CloneResult {
+    const { cloneType, reason } = classifyClone(source, target, tokenCache);
 
-    // Use similarity for other types
-    return this.classifyCloneTypeBySimilarity(similarity);
+    return {
+      source,
+      target,
+      similarity,
+      cloneType,
+      cloneTypeReason: reason,
+      metrics: computeCloneMetrics(source, target, tokenCache, DEFAULT_TYPE3_MAX_EDIT_DISTANCE),
+    };
   }
 }
+
+/**
+ * Gets the deadline of an operation over the whole index.
+ *
+ * Whole-index results have no way to flag truncation, so the default
+ * `timeoutMs` does not apply; only a timeout the caller asked for does.
+ */
+function wholeIndexDeadline(options: Partial<QueryOptions>): number {
+  return performance.now() + (options.timeoutMs ?? Number.POSITIVE_INFINITY);
+}
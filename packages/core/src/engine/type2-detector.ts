@@ -0,0 +1,40 @@
+/**
+ * @nlci/core - Type-2 Clone Detector
+ *
+ * Groups blocks that are consistent renames of each other, from their tokens
+ * alone: CodeTokenizer's 'abstract' mode replaces identifiers with positional
+ * placeholders and literals with type tags, so such blocks tokenize alike.
+ * The tokens are those classifyClone() compares, so every pair in a group is
+ * classified type-2 (or type-1) there too.
+ */
+
+import type { CodeBlock } from '../types/code-block.js';
+import { abstractTokens } from './clone-classifier.js';
+
+/**
+ * Groups blocks whose abstracted token sequences are identical.
+ *
+ * Placeholders follow first appearance, so `a + a` and `x + y` do not match:
+ * renaming must be consistent throughout the block. Only blocks of the same
+ * language are grouped. Groups whose blocks all share the same normalized
+ * content are exact (type-1) duplicates and are left out.
+ *
+ * @param blocks - Blocks to compare
+ * @returns Groups of two or more type-2 clones, in order of first appearance
+ */
+export function findType2Groups(blocks: Iterable<CodeBlock>): CodeBlock[][] {
+  const groups = new Map<string, CodeBlock[]>();
+
+  for (const block of blocks) {
+    const key = `${block.language}\0${abstractTokens(block.content, block.language).join(' ')}`;
+    const group = groups.get(key);
+    if (group) group.push(block);
+    else groups.set(key, [block]);
+  }
+
+  return [...groups.values()].filter(
+    (group) =>
+      group.length >= 2 &&
+      group.some((block) => block.normalizedContent !== group[0].normalizedContent)
+  );
+}
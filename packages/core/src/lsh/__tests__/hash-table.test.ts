@@ -219,6 +219,19 @@ describe('HashTable', () => {
     });
   });
 
+  describe('bucketContents() method', () => {
+    it('should yield each bucket with its overflow chain', () => {
+      const ht = new HashTable({ maxBucketSize: 1 });
+      ht.insert(hash(1), createMockBlock(1));
+      ht.insert(hash(1), createMockBlock(2));
+      ht.insert(hash(2), createMockBlock(3));
+
+      const buckets = [...ht.bucketContents()].map((blocks) => blocks.map((b) => b.id));
+
+      expect(buckets).toEqual([['block-1', 'block-2'], ['block-3']]);
+    });
+  });
+
   describe('clear() method', () => {
     it('should clear all data', () => {
       const ht = new HashTable();
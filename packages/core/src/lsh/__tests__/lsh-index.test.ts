@@ -3,6 +3,7 @@
  */
 
 import { beforeEach, describe, expect, it } from 'vitest';
+import type { PairSearchProgress } from '../../types/clone-result.js';
 import type { CodeBlock } from '../../types/code-block.js';
 import { LSHIndex } from '../lsh-index.js';
 
@@ -146,6 +147,28 @@ describe('LSHIndex', () => {
       expect(results[0].actualSimilarity).toBeCloseTo(1.0, 5);
     });
 
+    it('should compute the similarity of two indexed blocks', () => {
+      const embedding = createRandomEmbedding(dimension, 42);
+      index.insert(createCodeBlock('a'), embedding);
+      index.insert(createCodeBlock('b'), embedding);
+
+      expect(index.similarity('a', 'b')).toBeCloseTo(1, 5);
+      expect(index.similarity('a', 'missing')).toBeUndefined();
+    });
+
+    it('should skip candidates rejected by the filter', () => {
+      const embedding = createRandomEmbedding(dimension, 42);
+      index.insert(createCodeBlock('kept'), embedding);
+      index.insert(createCodeBlock('skipped'), embedding);
+
+      const results = index.query(embedding, {
+        minSimilarity: 0.9,
+        filter: (block) => block.id !== 'skipped',
+      });
+
+      expect(results.map((r) => r.block.id)).toEqual(['kept']);
+    });
+
     it('should find similar embeddings', () => {
       const block = createCodeBlock('block-1');
       const embedding = createRandomEmbedding(dimension, 42);
@@ -207,6 +230,167 @@ describe('LSHIndex', () => {
     });
   });
 
+  describe('similarPairs()', () => {
+    let index: LSHIndex;
+    const dimension = 64;
+
+    beforeEach(() => {
+      index = new LSHIndex({ numTables: 10, numBits: 8, dimension });
+
+      // Two groups of three near-identical blocks
+      for (const [group, seed] of [
+        ['a', 1],
+        ['b', 2],
+      ] as const) {
+        const base = createRandomEmbedding(dimension, seed);
+        for (let i = 0; i < 3; i++) {
+          index.insert(createCodeBlock(`${group}-${i}`), createSimilarEmbedding(base, 0.001));
+        }
+      }
+    });
+
+    const pairKeys = (pairs: Iterable<{ source: CodeBlock; target: CodeBlock }>): string[] =>
+      [...pairs].map((p) => `${p.source.id}|${p.target.id}`).sort();
+
+    it('should yield each similar pair once, in insertion order', () => {
+      const pairs = [...index.similarPairs({ minSimilarity: 0.9 })];
+
+      expect(pairKeys(pairs)).toEqual([
+        'a-0|a-1',
+        'a-0|a-2',
+        'a-1|a-2',
+        'b-0|b-1',
+        'b-0|b-2',
+        'b-1|b-2',
+      ]);
+      for (const pair of pairs) {
+        expect(pair.similarity).toBeGreaterThan(0.9);
+        expect(pair.collisions).toBeGreaterThanOrEqual(1);
+        expect(pair.collisions).toBeLessThanOrEqual(10);
+      }
+    });
+
+    it('should find the same pairs when split into passes', () => {
+      const single = pairKeys(index.similarPairs({ minSimilarity: 0.9 }));
+      const split = pairKeys(index.similarPairs({ minSimilarity: 0.9, maxPairsInMemory: 1 }));
+
+      expect(split).toEqual(single);
+    });
+
+    it('should skip pairs below the collision threshold', () => {
+      expect([...index.similarPairs({ minSimilarity: 0.9, minCollisions: 11 })]).toEqual([]);
+    });
+
+    it('should skip blocks rejected by the filter', () => {
+      const pairs = index.similarPairs({
+        minSimilarity: 0.9,
+        filter: (block) => block.id.startsWith('a'),
+      });
+
+      expect(pairKeys(pairs)).toEqual(['a-0|a-1', 'a-0|a-2', 'a-1|a-2']);
+    });
+
+    it('should report progress for every table of every pass', () => {
+      const progress: PairSearchProgress[] = [];
+      [...index.similarPairs({ maxPairsInMemory: 1, onProgress: (p) => progress.push(p) })];
+
+      const last = progress[progress.length - 1];
+      expect(progress).toHaveLength(last.totalTables);
+      expect(last.tablesScanned).toBe(last.totalTables);
+      expect(last.totalTables % 10).toBe(0);
+      expect(last.totalTables).toBeGreaterThan(10);
+    });
+
+    it('should stop when asked to', () => {
+      expect([...index.similarPairs({ shouldStop: () => true })]).toEqual([]);
+    });
+
+    it('should find the pairs that querying every block finds', () => {
+      const base = createRandomEmbedding(dimension, 3);
+      const embeddings = Array.from({ length: 12 }, () => createSimilarEmbedding(base, 0.4));
+      const build = (enabled: boolean): LSHIndex => {
+        const noisy = new LSHIndex({
+          numTables: 10,
+          numBits: 8,
+          dimension,
+          multiProbe: { enabled, numProbes: 5 },
+        });
+        embeddings.forEach((embedding, i) => noisy.insert(createCodeBlock(`n${i}`), embedding));
+        return noisy;
+      };
+      const unordered = (a: string, b: string): string => [a, b].sort().join('|');
+
+      // query() skips candidates matching in fewer than minSimilarity / 2 of the tables
+      const found = (noisy: LSHIndex): string[] =>
+        [...noisy.similarPairs({ minSimilarity: 0.5, minCollisions: 3 })]
+          .map((p) => unordered(p.source.id, p.target.id))
+          .sort();
+      const queried = (noisy: LSHIndex): string[] => {
+        const keys = new Set<string>();
+        embeddings.forEach((embedding, i) => {
+          for (const { block } of noisy.query(embedding, { minSimilarity: 0.5, maxResults: 100 })) {
+            if (block.id !== `n${i}`) keys.add(unordered(`n${i}`, block.id));
+          }
+        });
+        return [...keys].sort();
+      };
+
+      const probed = build(true);
+      expect(found(probed)).toEqual(queried(probed));
+
+      // Probing neighbouring buckets finds the pairs split across them
+      expect(found(build(false)).length).toBeLessThan(found(probed).length);
+    });
+  });
+
+  describe('exact duplicates', () => {
+    let index: LSHIndex;
+    const dimension = 64;
+
+    const withHash = (id: string, content: string, contentHash: string): CodeBlock => ({
+      ...createCodeBlock(id, content),
+      contentHash,
+    });
+
+    beforeEach(() => {
+      index = new LSHIndex({ numTables: 5, numBits: 8, dimension });
+      index.insert(withHash('a', 'same()', 'h1'), createRandomEmbedding(dimension, 1));
+      index.insert(withHash('b', 'same()', 'h1'), createRandomEmbedding(dimension, 2));
+      index.insert(withHash('c', 'other()', 'h2'), createRandomEmbedding(dimension, 3));
+    });
+
+    it('should look blocks up by content hash', () => {
+      expect(index.getByContentHash('h1').map((b) => b.id)).toEqual(['a', 'b']);
+      expect(index.getByContentHash('h2').map((b) => b.id)).toEqual(['c']);
+      expect(index.getByContentHash('missing')).toEqual([]);
+    });
+
+    it('should group blocks with identical content', () => {
+      const groups = [...index.duplicateGroups()];
+      expect(groups.map((group) => group.map((b) => b.id))).toEqual([['a', 'b']]);
+    });
+
+    it('should not group colliding hashes with different content', () => {
+      index.insert(withHash('d', 'different()', 'h1'), createRandomEmbedding(dimension, 4));
+
+      const groups = [...index.duplicateGroups()];
+      expect(groups.map((group) => group.map((b) => b.id))).toEqual([['a', 'b']]);
+    });
+
+    it('should apply the filter', () => {
+      expect([...index.duplicateGroups((block) => block.id !== 'b')]).toEqual([]);
+    });
+
+    it('should forget removed and cleared blocks', () => {
+      index.remove('b');
+      expect(index.getByContentHash('h1').map((b) => b.id)).toEqual(['a']);
+      expect([...index.duplicateGroups()]).toEqual([]);
+
+      index.clear();
+      expect(index.getByContentHash('h1')).toEqual([]);
+    });
+  });
+
   describe('remove()', () => {
     let index: LSHIndex;
     const dimension = 64;
@@ -239,6 +423,59 @@ describe('LSHIndex', () => {
     });
   });
 
+  describe('file operations', () => {
+    let index: LSHIndex;
+    const dimension = 64;
+
+    const blockInFile = (id: string, filePath: string): CodeBlock => ({
+      ...createCodeBlock(id),
+      filePath,
+    });
+
+    beforeEach(() => {
+      index = new LSHIndex({
+        numTables: 5,
+        numBits: 8,
+        dimension,
+      });
+      index.insert(blockInFile('a-1', 'a.ts'), createRandomEmbedding(dimension, 1));
+      index.insert(blockInFile('a-2', 'a.ts'), createRandomEmbedding(dimension, 2));
+      index.insert(blockInFile('b-1', 'b.ts'), createRandomEmbedding(dimension, 3));
+    });
+
+    it('should list files with indexed blocks', () => {
+      expect(index.listFiles().sort()).toEqual(['a.ts', 'b.ts']);
+    });
+
+    it('should return the blocks of a file', () => {
+      const ids = index.getFileBlocks('a.ts').map((b) => b.id);
+      expect(ids.sort()).toEqual(['a-1', 'a-2']);
+      expect(index.getFileBlocks('missing.ts')).toEqual([]);
+    });
+
+    it('should remove all blocks of a file', () => {
+      expect(index.removeFile('a.ts')).toBe(2);
+
+      expect(index.size).toBe(1);
+      expect(index.has('b-1')).toBe(true);
+      expect(index.listFiles()).toEqual(['b.ts']);
+    });
+
+    it('should drop a file once its last block is removed', () => {
+      index.remove('b-1');
+      expect(index.listFiles()).toEqual(['a.ts']);
+      expect(index.removeFile('b.ts')).toBe(0);
+    });
+
+    it('should rebuild the file index on importState()', () => {
+      const restored = new LSHIndex({ numTables: 5, numBits: 8, dimension });
+      restored.importState(index.exportState());
+
+      expect(restored.listFiles().sort()).toEqual(['a.ts', 'b.ts']);
+      expect(restored.removeFile('a.ts')).toBe(2);
+    });
+  });
+
   describe('has() and get()', () => {
     let index: LSHIndex;
     const dimension = 64;
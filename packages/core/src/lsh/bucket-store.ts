@@ -125,6 +125,8 @@ export class MemoryStorage implements BucketStorage {
 export class BucketStore {
   private tables: Map<number, HashTable>;
   private blockIndex: Map<string, Set<number>>; // blockId -> table indices
+  private fileIndex: Map<string, Set<string>>; // filePath -> block IDs
+  private blockFiles: Map<string, string>; // blockId -> filePath
   private storage: BucketStorage;
   private readonly maxBucketSize: number;
   private isDirty: boolean;
@@ -143,6 +145,8 @@ export class BucketStore {
   ) {
     this.tables = new Map();
     this.blockIndex = new Map();
+    this.fileIndex = new Map();
+    this.blockFiles = new Map();
     this.storage = storage;
     this.maxBucketSize = maxBucketSize;
     this.isDirty = false;
@@ -170,13 +174,7 @@ export class BucketStore {
     const inserted = table.insert(hash, block);
 
     if (inserted) {
-      // Update block index
-      let tableSet = this.blockIndex.get(block.id);
-      if (!tableSet) {
-        tableSet = new Set();
-        this.blockIndex.set(block.id, tableSet);
-      }
-      tableSet.add(tableIndex);
+      this.trackBlock(tableIndex, block);
       this.isDirty = true;
     }
 
@@ -199,6 +197,20 @@ export class BucketStore {
     return table.getMultiple(hashes);
   }
 
+  /**
+   * Yields the blocks of each bucket in a table.
+   *
+   * @param tableIndex - Index of the hash table
+   */
+  tableBuckets(tableIndex: number): Generator<readonly CodeBlock[]> {
+    const table = this.tables.get(tableIndex);
+    if (!table) {
+      throw new Error(`Table index ${tableIndex} out of range`);
+    }
+
+    return table.bucketContents();
+  }
+
   /**
    * Queries all tables and returns unique code blocks.
    *
@@ -243,7 +255,7 @@ export class BucketStore {
       }
     }
 
-    this.blockIndex.delete(blockId);
+    this.untrackBlock(blockId);
 
     if (removed > 0) {
       this.isDirty = true;
@@ -266,6 +278,57 @@ export class BucketStore {
     return this.blockIndex.get(blockId) ?? new Set();
   }
 
+  /**
+   * Gets the IDs of the blocks stored for a file.
+   */
+  getFileBlocks(filePath: string): ReadonlySet<string> {
+    return this.fileIndex.get(filePath) ?? new Set();
+  }
+
+  /**
+   * Lists the files that have at least one stored block.
+   */
+  listFiles(): string[] {
+    return Array.from(this.fileIndex.keys());
+  }
+
+  /**
+   * Records a block's table membership and owning file.
+   */
+  private trackBlock(tableIndex: number, block: CodeBlock): void {
+    let tableSet = this.blockIndex.get(block.id);
+    if (!tableSet) {
+      tableSet = new Set();
+      this.blockIndex.set(block.id, tableSet);
+    }
+    tableSet.add(tableIndex);
+
+    let fileBlocks = this.fileIndex.get(block.filePath);
+    if (!fileBlocks) {
+      fileBlocks = new Set();
+      this.fileIndex.set(block.filePath, fileBlocks);
+    }
+    fileBlocks.add(block.id);
+    this.blockFiles.set(block.id, block.filePath);
+  }
+
+  /**
+   * Drops a block from the block and file indexes.
+   */
+  private untrackBlock(blockId: string): void {
+    this.blockIndex.delete(blockId);
+
+    const filePath = this.blockFiles.get(blockId);
+    if (filePath === undefined) return;
+
+    this.blockFiles.delete(blockId);
+    const fileBlocks = this.fileIndex.get(filePath);
+    fileBlocks?.delete(blockId);
+    if (fileBlocks?.size === 0) {
+      this.fileIndex.delete(filePath);
+    }
+  }
+
   /**
    * Returns statistics for all tables.
    */
@@ -321,21 +384,16 @@ export class BucketStore {
       const data = JSON.parse(json) as SerializedBucketStoreData;
 
       this.tables.clear();
-      this.blockIndex.clear();
+      this.clearIndexes();
 
       for (const { index, data: tableData } of data.tables) {
         const table = HashTable.fromJSON(tableData);
         this.tables.set(index, table);
 
-        // Rebuild block index
+        // Rebuild block and file indexes
         for (const bucket of tableData.buckets) {
           for (const block of bucket.blocks) {
-            let tableSet = this.blockIndex.get(block.id);
-            if (!tableSet) {
-              tableSet = new Set();
-              this.blockIndex.set(block.id, tableSet);
-            }
-            tableSet.add(index);
+            this.trackBlock(index, block);
           }
         }
       }
@@ -354,10 +412,19 @@ export class BucketStore {
     for (const table of this.tables.values()) {
       table.clear();
     }
-    this.blockIndex.clear();
+    this.clearIndexes();
     this.isDirty = true;
   }
 
+  /**
+   * Empties the block and file indexes.
+   */
+  private clearIndexes(): void {
+    this.blockIndex.clear();
+    this.fileIndex.clear();
+    this.blockFiles.clear();
+  }
+
   /**
    * Exports the bucket store state for in-memory serialization.
    */
@@ -401,15 +468,10 @@ export class BucketStore {
           })),
         });
 
-        // Rebuild block index
+        // Rebuild block and file indexes
         for (const bucket of tableData.buckets) {
           for (const block of bucket.blocks) {
-            let tableSet = this.blockIndex.get(block.id);
-            if (!tableSet) {
-              tableSet = new Set();
-              this.blockIndex.set(block.id, tableSet);
-            }
-            tableSet.add(tableData.tableIndex);
+            this.trackBlock(tableData.tableIndex, block);
           }
         }
       }
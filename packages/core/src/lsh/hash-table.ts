@@ -455,6 +455,23 @@ export class HashTable {
     return false;
   }
 
+  /**
+   * Yields the blocks of each bucket, overflow chain included.
+   *
+   * Unlike `get()`, this does not count as an access for analytics or LRU.
+   */
+  *bucketContents(): Generator<readonly CodeBlock[]> {
+    for (const bucket of this.buckets.values()) {
+      const blocks = [...bucket.blocks];
+      let overflow = bucket.overflowChain;
+      while (overflow) {
+        blocks.push(...overflow.blocks);
+        overflow = overflow.next;
+      }
+      yield blocks;
+    }
+  }
+
   /**
    * Returns the number of unique buckets.
    */
@@ -7,9 +7,12 @@
 // Main LSH index
 export {
   DEFAULT_LSH_INDEX_CONFIG,
+  DEFAULT_MAX_PAIRS_IN_MEMORY,
   LSHIndex,
   type LSHIndexConfig,
   type LSHIndexStats,
+  type LSHPair,
+  type LSHPairOptions,
   type LSHQueryResult,
 } from './lsh-index.js';
 
@@ -15,6 +15,7 @@
  * - With proper parameters, query is effectively O(1)
  */
 
+import type { PairSearchProgress } from '../types/clone-result.js';
 import type { CodeBlock } from '../types/code-block.js';
 import type { LSHConfig } from '../types/config.js';
 import { BucketStore, MemoryStorage, type BucketStorage } from './bucket-store.js';
@@ -80,6 +81,51 @@ export interface LSHQueryResult {
   actualSimilarity?: number;
 }
 
+/**
+ * Default number of candidate pairs `similarPairs()` counts at once.
+ */
+export const DEFAULT_MAX_PAIRS_IN_MEMORY = 1_000_000;
+
+/**
+ * A pair of indexed blocks that share buckets.
+ */
+export interface LSHPair {
+  /** The block indexed first */
+  source: CodeBlock;
+
+  /** The block indexed later */
+  target: CodeBlock;
+
+  /** Number of tables where both blocks are in the same bucket */
+  collisions: number;
+
+  /** Cosine similarity of the two embeddings */
+  similarity: number;
+}
+
+/**
+ * Options for {@link LSHIndex.similarPairs}.
+ */
+export interface LSHPairOptions {
+  /** Minimum cosine similarity (default: 0.7) */
+  minSimilarity?: number;
+
+  /** Tables a pair must share a bucket in before its similarity is computed (default: 1) */
+  minCollisions?: number;
+
+  /** Most candidate pairs counted at once; more are split into passes (default: 1,000,000) */
+  maxPairsInMemory?: number;
+
+  /** Skips blocks it rejects */
+  filter?: (block: CodeBlock) => boolean;
+
+  /** Called after each table is scanned */
+  onProgress?: (progress: PairSearchProgress) => void;
+
+  /** Checked between tables and pairs; returning true ends the search */
+  shouldStop?: () => boolean;
+}
+
 /**
  * Statistics about the LSH index.
  */
@@ -147,6 +193,8 @@ export class LSHIndex {
   private readonly hashFunctions: HyperplaneHashFunction[];
   private readonly bucketStore: BucketStore;
   private readonly blockMetadata: Map<string, BlockMetadata>;
+  /** Block IDs by content hash, for exact-duplicate lookups */
+  private readonly contentIndex: Map<string, Set<string>>;
 
   /** Cache for recent query hash computations (LRU-like) */
   private readonly queryHashCache: Map<string, Map<number, bigint>>;
@@ -160,6 +208,7 @@ export class LSHIndex {
   constructor(config: Partial<LSHIndexConfig> = {}) {
     this.config = { ...DEFAULT_LSH_INDEX_CONFIG, ...config };
     this.blockMetadata = new Map();
+    this.contentIndex = new Map();
     this.queryHashCache = new Map();
 
     // Create hash functions for each table
@@ -222,7 +271,7 @@ export class LSHIndex {
 
     // Store metadata if we inserted into at least one table
     if (insertedCount > 0) {
-      this.blockMetadata.set(block.id, {
+      this.setMetadata({
         block,
         embedding: embeddingArray,
         hashes,
@@ -282,7 +331,7 @@ export class LSHIndex {
             embedding,
             hashes: new Map(),
           };
-          this.blockMetadata.set(block.id, metadata);
+          this.setMetadata(metadata);
         }
 
         metadata.hashes.set(tableIndex, hash);
@@ -321,9 +370,16 @@ export class LSHIndex {
       maxResults?: number;
       minSimilarity?: number;
       computeActualSimilarity?: boolean;
+      /** Skips candidates it rejects, before any similarity is computed */
+      filter?: (block: CodeBlock) => boolean;
     } = {}
   ): LSHQueryResult[] {
-    const { maxResults = 50, minSimilarity = 0.7, computeActualSimilarity = true } = options;
+    const {
+      maxResults = 50,
+      minSimilarity = 0.7,
+      computeActualSimilarity = true,
+      filter,
+    } = options;
 
     if (embedding.length !== this.config.dimension) {
       throw new Error(
@@ -339,31 +395,7 @@ export class LSHIndex {
 
     for (let i = 0; i < this.config.numTables; i++) {
       const hash = computeHash(embeddingArray, this.hashFunctions[i]);
-
-      if (this.config.multiProbe.enabled) {
-        // Use scored probes if configured (better multi-probe ordering)
-        if (this.config.useScoredProbes) {
-          const scoredProbes = generateScoredProbes(
-            hash,
-            embeddingArray,
-            this.hashFunctions[i],
-            this.config.multiProbe.numProbes!
-          );
-          hashesPerTable.set(
-            i,
-            scoredProbes.map((p) => p.hash)
-          );
-        } else {
-          const probes = generateProbes(
-            hash,
-            this.config.numBits,
-            this.config.multiProbe.numProbes!
-          );
-          hashesPerTable.set(i, probes);
-        }
-      } else {
-        hashesPerTable.set(i, [hash]);
-      }
+      hashesPerTable.set(i, this.probeHashes(i, hash, embeddingArray));
     }
 
     // Query all tables
@@ -373,6 +405,8 @@ export class LSHIndex {
     const results: LSHQueryResult[] = [];
 
     for (const { block, tableMatches } of candidates.values()) {
+      if (filter && !filter(block)) continue;
+
       // Estimate similarity from table match rate
       const estimatedSimilarity = tableMatches / this.config.numTables;
 
@@ -410,6 +444,194 @@ export class LSHIndex {
     return results.slice(0, maxResults);
   }
 
+  /**
+   * Yields every pair of blocks that share a bucket in at least
+   * `minCollisions` tables and reach `minSimilarity`, each pair once.
+   *
+   * Candidates come from bucket co-membership, so no per-block query is
+   * run and similarity is only computed for pairs that collide often
+   * enough. With multi-probe enabled, a block also collides with the
+   * blocks of the buckets `query()` would probe for it in a table, so a
+   * pair is found whenever either block's query would find the other.
+   * Collision counts are kept for at most `maxPairsInMemory` pairs at a
+   * time: when the buckets could hold more, the search runs in several
+   * passes, each counting the pairs of a share of the blocks.
+   *
+   * Time complexity: O(passes * (sum over buckets of size² + n * L * probed blocks))
+   *
+   * @param options - Pair search options
+   */
+  *similarPairs(options: LSHPairOptions = {}): Generator<LSHPair> {
+    const {
+      minSimilarity = 0.7,
+      minCollisions = 1,
+      maxPairsInMemory = DEFAULT_MAX_PAIRS_IN_MEMORY,
+      filter,
+      onProgress,
+      shouldStop,
+    } = options;
+    const numTables = this.config.numTables;
+
+    // Number the blocks so that a pair is keyed by a single integer
+    const entries: BlockMetadata[] = [];
+    const numbers = new Map<string, number>();
+    for (const metadata of this.blockMetadata.values()) {
+      if (filter && !filter(metadata.block)) continue;
+      numbers.set(metadata.block.id, entries.length);
+      entries.push(metadata);
+    }
+    const n = entries.length;
+
+    const bucketNumbers = (blocks: readonly CodeBlock[]): number[] => {
+      const result: number[] = [];
+      for (const block of blocks) {
+        const number = numbers.get(block.id);
+        if (number !== undefined) result.push(number);
+      }
+      return result.sort((a, b) => a - b);
+    };
+
+    // Probes are generated one block at a time rather than kept, so memory
+    // stays bounded by the pairs counted in a pass
+    const probing = this.config.multiProbe.enabled;
+    const probeHashes = (table: number, block: number): bigint[] => {
+      const { embedding, hashes } = entries[block];
+      const hash = hashes.get(table);
+      if (hash === undefined) return [];
+      return this.probeHashes(table, hash, embedding).filter((probe) => probe !== hash);
+    };
+    const probedBlocks = (table: number, block: number): number[] =>
+      probeHashes(table, block).flatMap((probe) =>
+        bucketNumbers(this.bucketStore.query(table, [probe]))
+      );
+
+    // Bound the distinct pairs to choose how many passes fit in memory
+    let pairBound = 0;
+    for (let table = 0; table < numTables; table++) {
+      for (const blocks of this.bucketStore.tableBuckets(table)) {
+        pairBound += (blocks.length * (blocks.length - 1)) / 2;
+      }
+    }
+    if (probing) {
+      for (let table = 0; table < numTables; table++) {
+        for (let block = 0; block < n; block++) {
+          pairBound += probedBlocks(table, block).length;
+        }
+      }
+    }
+    pairBound = Math.min(pairBound, (n * (n - 1)) / 2);
+    const passes = Math.max(1, Math.ceil(pairBound / maxPairsInMemory));
+
+    let pairsFound = 0;
+
+    for (let pass = 0; pass < passes; pass++) {
+      const collisions = new Map<number, number>();
+
+      for (let table = 0; table < numTables; table++) {
+        if (shouldStop?.()) return;
+
+        for (const blocks of this.bucketStore.tableBuckets(table)) {
+          const members = bucketNumbers(blocks);
+          for (let i = 0; i < members.length; i++) {
+            if (members[i] % passes !== pass) continue;
+            for (let j = i + 1; j < members.length; j++) {
+              const key = members[i] * n + members[j];
+              collisions.set(key, (collisions.get(key) ?? 0) + 1);
+            }
+          }
+        }
+
+        if (probing) {
+          for (let i = 0; i < n; i++) {
+            for (const j of probedBlocks(table, i)) {
+              const [a, b] = i < j ? [i, j] : [j, i];
+              if (a % passes !== pass) continue;
+
+              // A pair both blocks probe for counts once per table, from its first block
+              const hash = entries[i].hashes.get(table)!;
+              if (j === a && probeHashes(table, j).includes(hash)) continue;
+
+              const key = a * n + b;
+              collisions.set(key, (collisions.get(key) ?? 0) + 1);
+            }
+          }
+        }
+
+        onProgress?.({
+          tablesScanned: pass * numTables + table + 1,
+          totalTables: passes * numTables,
+          pairsFound,
+        });
+      }
+
+      for (const [key, count] of collisions) {
+        if (count < minCollisions) continue;
+        if (shouldStop?.()) return;
+
+        const source = entries[Math.floor(key / n)];
+        const target = entries[key % n];
+        const similarity = this.cosineSimilarity(source.embedding, target.embedding);
+        if (similarity < minSimilarity) continue;
+
+        pairsFound++;
+        yield { source: source.block, target: target.block, collisions: count, similarity };
+      }
+    }
+  }
+
+  /**
+   * Gets the hashes `query()` looks up in a table: the hash itself, plus
+   * its probes when multi-probe is enabled.
+   */
+  private probeHashes(table: number, hash: bigint, embedding: Float32Array): readonly bigint[] {
+    if (!this.config.multiProbe.enabled) return [hash];
+
+    const numProbes = this.config.multiProbe.numProbes!;
+    // Scored probes order the flips by how close the embedding is to each hyperplane
+    return this.config.useScoredProbes
+      ? generateScoredProbes(hash, embedding, this.hashFunctions[table], numProbes).map(
+          (p) => p.hash
+        )
+      : generateProbes(hash, this.config.numBits, numProbes);
+  }
+
+  /**
+   * Gets the indexed blocks whose content hash matches.
+   *
+   * Time complexity: O(matches)
+   *
+   * @param contentHash - Hash of the normalized content
+   */
+  getByContentHash(contentHash: string): CodeBlock[] {
+    const ids = this.contentIndex.get(contentHash) ?? [];
+    return Array.from(ids, (id) => this.blockMetadata.get(id)!.block);
+  }
+
+  /**
+   * Yields each group of two or more blocks with identical normalized content.
+   *
+   * @param filter - Skips blocks it rejects
+   */
+  *duplicateGroups(filter?: (block: CodeBlock) => boolean): Generator<CodeBlock[]> {
+    for (const ids of this.contentIndex.values()) {
+      if (ids.size < 2) continue;
+
+      // Equal hashes may still hide different content
+      const byContent = new Map<string, CodeBlock[]>();
+      for (const id of ids) {
+        const block = this.blockMetadata.get(id)!.block;
+        if (filter && !filter(block)) continue;
+        const group = byContent.get(block.normalizedContent);
+        if (group) group.push(block);
+        else byContent.set(block.normalizedContent, [block]);
+      }
+
+      for (const group of byContent.values()) {
+        if (group.length >= 2) yield group;
+      }
+    }
+  }
+
   /**
    * Removes a code block from the index.
    *
@@ -421,11 +643,50 @@ export class LSHIndex {
     if (!metadata) return false;
 
     this.bucketStore.remove(blockId, metadata.hashes);
-    this.blockMetadata.delete(blockId);
+    this.deleteMetadata(blockId);
 
     return true;
   }
 
+  /**
+   * Removes every block that belongs to a file.
+   *
+   * Time complexity: O(blocks in file * L)
+   *
+   * @param filePath - Path of the file, as stored on its blocks
+   * @returns Number of blocks removed
+   */
+  removeFile(filePath: string): number {
+    let removed = 0;
+    for (const blockId of [...this.bucketStore.getFileBlocks(filePath)]) {
+      if (this.remove(blockId)) {
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Gets the blocks indexed for a file.
+   */
+  getFileBlocks(filePath: string): readonly CodeBlock[] {
+    const blocks: CodeBlock[] = [];
+    for (const blockId of this.bucketStore.getFileBlocks(filePath)) {
+      const block = this.blockMetadata.get(blockId)?.block;
+      if (block) {
+        blocks.push(block);
+      }
+    }
+    return blocks;
+  }
+
+  /**
+   * Lists the files that have blocks in the index.
+   */
+  listFiles(): string[] {
+    return this.bucketStore.listFiles();
+  }
+
   /**
    * Checks if a block is in the index.
    */
@@ -447,6 +708,17 @@ export class LSHIndex {
     return this.blockMetadata.get(blockId)?.embedding;
   }
 
+  /**
+   * Computes the cosine similarity between two indexed blocks.
+   *
+   * @returns The similarity, or `undefined` if either block is not indexed
+   */
+  similarity(blockIdA: string, blockIdB: string): number | undefined {
+    const a = this.blockMetadata.get(blockIdA)?.embedding;
+    const b = this.blockMetadata.get(blockIdB)?.embedding;
+    return a && b ? this.cosineSimilarity(a, b) : undefined;
+  }
+
   /**
    * Returns all indexed blocks.
    */
@@ -568,14 +840,14 @@ export class LSHIndex {
     try {
       const metadata = JSON.parse(metadataJson) as SerializedBlockMetadata[];
 
-      this.blockMetadata.clear();
+      this.clearMetadata();
       for (const item of metadata) {
         const hashes = new Map<number, bigint>();
         for (const [ti, h] of item.hashes) {
           hashes.set(ti, BigInt(h));
         }
 
-        this.blockMetadata.set(item.id, {
+        this.setMetadata({
           block: item.block,
           embedding: new Float32Array(item.embedding),
           hashes,
@@ -593,7 +865,7 @@ export class LSHIndex {
    */
   clear(): void {
     this.bucketStore.clear();
-    this.blockMetadata.clear();
+    this.clearMetadata();
     this.queryHashCache.clear();
   }
 
@@ -625,7 +897,7 @@ export class LSHIndex {
    * Unlike load(), this accepts data directly for in-memory transfer.
    */
   importState(state: { metadata: SerializedBlockMetadata[]; buckets: unknown }): void {
-    this.blockMetadata.clear();
+    this.clearMetadata();
 
     for (const item of state.metadata) {
       const hashes = new Map<number, bigint>();
@@ -633,7 +905,7 @@ export class LSHIndex {
         hashes.set(ti, BigInt(h));
       }
 
-      this.blockMetadata.set(item.id, {
+      this.setMetadata({
         block: item.block,
         embedding: new Float32Array(item.embedding),
         hashes,
@@ -643,6 +915,40 @@ export class LSHIndex {
     this.bucketStore.importState(state.buckets as ReturnType<BucketStore['exportState']>);
   }
 
+  /**
+   * Stores a block's metadata and indexes its content hash.
+   */
+  private setMetadata(metadata: BlockMetadata): void {
+    const id = metadata.block.id;
+    this.deleteMetadata(id);
+    this.blockMetadata.set(id, metadata);
+
+    const ids = this.contentIndex.get(metadata.block.contentHash);
+    if (ids) ids.add(id);
+    else this.contentIndex.set(metadata.block.contentHash, new Set([id]));
+  }
+
+  /**
+   * Drops a block's metadata and content hash entry.
+   */
+  private deleteMetadata(blockId: string): void {
+    const existing = this.blockMetadata.get(blockId);
+    if (!existing) return;
+
+    this.blockMetadata.delete(blockId);
+    const ids = this.contentIndex.get(existing.block.contentHash);
+    ids?.delete(blockId);
+    if (ids?.size === 0) this.contentIndex.delete(existing.block.contentHash);
+  }
+
+  /**
+   * Drops all block metadata.
+   */
+  private clearMetadata(): void {
+    this.blockMetadata.clear();
+    this.contentIndex.clear();
+  }
+
   /**
    * Returns the number of blocks in the index.
    */
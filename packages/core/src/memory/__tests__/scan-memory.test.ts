@@ -64,6 +64,11 @@ describe('ScanMemory', () => {
       expect(memory.size).toBe(1);
     });
 
+    it('stores block IDs when given', () => {
+      memory.record('src/foo.ts', 'abc123', 2, ['src/foo.ts:1-3', 'src/foo.ts:5-9']);
+      expect(memory.getEntry('src/foo.ts')!.blockIds).toEqual(['src/foo.ts:1-3', 'src/foo.ts:5-9']);
+    });
+
     it('increments size per unique file', () => {
       memory.record('src/a.ts', 'h1', 3);
       memory.record('src/b.ts', 'h2', 7);
@@ -14,6 +14,8 @@ export interface ScanEntry {
   contentHash: string;
   scannedAt: string;
   blockCount: number;
+  /** IDs of the blocks indexed from this file (absent in memory files from older versions) */
+  blockIds?: string[];
 }
 
 export class ScanMemory {
@@ -53,13 +55,14 @@ export class ScanMemory {
     return !entry || entry.contentHash !== contentHash;
   }
 
-  /** Records a completed scan for a file. */
-  record(filePath: string, contentHash: string, blockCount: number): void {
+  /** Records a completed scan for a file, optionally with the IDs of the blocks it produced. */
+  record(filePath: string, contentHash: string, blockCount: number, blockIds?: string[]): void {
     this.entries.set(filePath, {
       filePath,
       contentHash,
       scannedAt: new Date().toISOString(),
       blockCount,
+      ...(blockIds && { blockIds }),
     });
   }
 
@@ -0,0 +1,97 @@
+/**
+ * Tests for Auto Parser
+ *
+ * Grammar availability is stubbed so no WASM is loaded.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { SimpleCodeParser } from '../../engine/indexer.js';
+import type { SupportedLanguage } from '../../types/code-block.js';
+import { AutoParser, createCodeParser } from '../auto-parser.js';
+import type { GrammarLoader } from '../tree-sitter/grammar-loader.js';
+import { TreeSitterParser } from '../tree-sitter/tree-sitter-parser.js';
+
+const sampleCode = `
+function add(a, b) {
+  const sum = a + b;
+  return sum;
+}
+`;
+
+/**
+ * Creates a tree-sitter parser whose grammars are available only for `languages`.
+ */
+function createTreeSitter(languages: SupportedLanguage[]): TreeSitterParser {
+  const treeSitter = new TreeSitterParser();
+  vi.spyOn(treeSitter, 'isLanguageAvailable').mockImplementation((language) =>
+    Promise.resolve(languages.includes(language))
+  );
+  vi.spyOn(treeSitter, 'parseAsync').mockResolvedValue({
+    blocks: [],
+    errors: [],
+    parseTime: 0,
+  });
+  return treeSitter;
+}
+
+describe('AutoParser', () => {
+  it('should use tree-sitter for languages with a grammar', async () => {
+    const treeSitter = createTreeSitter(['typescript']);
+    const parser = new AutoParser(treeSitter);
+
+    await parser.parseAsync(sampleCode, 'a.ts');
+
+    expect(treeSitter.parseAsync).toHaveBeenCalledWith(sampleCode, 'a.ts', 'typescript');
+  });
+
+  it('should fall back to the regex parser when a grammar is unavailable', async () => {
+    const treeSitter = createTreeSitter(['typescript']);
+    const parser = new AutoParser(treeSitter);
+
+    const result = await parser.parseAsync(sampleCode, 'a.js');
+    const expected = new SimpleCodeParser().parse(sampleCode, 'a.js');
+
+    expect(treeSitter.parseAsync).not.toHaveBeenCalled();
+    expect(result.blocks.map((b) => b.name)).toEqual(expected.blocks.map((b) => b.name));
+    expect(await parser.getFallbackLanguages()).toEqual(['javascript']);
+  });
+
+  it('should check each language only once', async () => {
+    const treeSitter = createTreeSitter([]);
+    const parser = new AutoParser(treeSitter);
+
+    await parser.parseAsync(sampleCode, 'a.py');
+    await parser.parseAsync(sampleCode, 'b.py');
+
+    expect(treeSitter.isLanguageAvailable).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back when the grammar fails to load', async () => {
+    const loader = {
+      initialize: () => Promise.resolve(),
+      isSupported: () => true,
+      getParser: () => Promise.reject(new Error('network unavailable')),
+    } as unknown as GrammarLoader;
+    const parser = new AutoParser(new TreeSitterParser({ grammarLoader: loader }));
+
+    const result = await parser.parseAsync(sampleCode, 'a.ts');
+
+    expect(result.blocks.map((b) => b.name)).toContain('add');
+    expect(await parser.getFallbackLanguages()).toEqual(['typescript']);
+  });
+
+  it('should parse synchronously with the fallback parser', () => {
+    const parser = new AutoParser(createTreeSitter(['typescript']));
+
+    expect(parser.parse(sampleCode, 'a.ts').blocks.map((b) => b.name)).toContain('add');
+  });
+});
+
+describe('createCodeParser()', () => {
+  it('should create the parser for each engine', () => {
+    expect(createCodeParser()).toBeInstanceOf(SimpleCodeParser);
+    expect(createCodeParser('simple')).toBeInstanceOf(SimpleCodeParser);
+    expect(createCodeParser('tree-sitter')).toBeInstanceOf(TreeSitterParser);
+    expect(createCodeParser('auto')).toBeInstanceOf(AutoParser);
+  });
+});
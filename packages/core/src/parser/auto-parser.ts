@@ -0,0 +1,145 @@
+/**
+ * @nlci/core - Auto Parser
+ *
+ * Uses tree-sitter for languages whose grammar loads and the regex parser
+ * for everything else, deciding once per language.
+ */
+
+import {
+  SimpleCodeParser,
+  getLanguageForFile,
+  type CodeParser,
+  type ParseResult,
+} from '../engine/indexer.js';
+import type { SupportedLanguage } from '../types/code-block.js';
+import type { GrammarSourceConfig, ParserEngine } from '../types/config.js';
+import { GrammarLoader, defaultGrammarLoader } from './tree-sitter/grammar-loader.js';
+import { TreeSitterParser } from './tree-sitter/tree-sitter-parser.js';
+
+/**
+ * Parser that prefers tree-sitter and falls back to a regex parser per language.
+ *
+ * @example
+ * ```typescript
+ * const parser = new AutoParser();
+ *
+ * // Tree-sitter if the TypeScript grammar loads, regex parsing otherwise
+ * const result = await parser.parseAsync(sourceCode, 'path/to/file.ts');
+ * ```
+ */
+export class AutoParser implements CodeParser {
+  private readonly treeSitter: TreeSitterParser;
+  private readonly fallback: CodeParser;
+  private readonly availability = new Map<SupportedLanguage, Promise<boolean>>();
+
+  readonly supportedLanguages: readonly SupportedLanguage[];
+
+  /**
+   * Creates a new auto parser.
+   *
+   * @param treeSitter - Tree-sitter parser to prefer (default: shared grammar loader)
+   * @param fallback - Parser for languages without a usable grammar
+   */
+  constructor(
+    treeSitter: TreeSitterParser = new TreeSitterParser(),
+    fallback: CodeParser = new SimpleCodeParser()
+  ) {
+    this.treeSitter = treeSitter;
+    this.fallback = fallback;
+    this.supportedLanguages = [
+      ...new Set([...treeSitter.supportedLanguages, ...fallback.supportedLanguages]),
+    ];
+  }
+
+  /**
+   * Parses with the fallback parser; tree-sitter needs parseAsync.
+   */
+  parse(source: string, filePath: string, language?: SupportedLanguage): ParseResult {
+    return this.fallback.parse(source, filePath, language);
+  }
+
+  /**
+   * Parses with tree-sitter if the language's grammar is available,
+   * otherwise with the fallback parser.
+   */
+  async parseAsync(
+    source: string,
+    filePath: string,
+    language?: SupportedLanguage
+  ): Promise<ParseResult> {
+    const lang = language ?? getLanguageForFile(filePath);
+
+    if (lang && (await this.hasGrammar(lang))) {
+      return this.treeSitter.parseAsync(source, filePath, lang);
+    }
+
+    return this.fallback.parseAsync
+      ? this.fallback.parseAsync(source, filePath, language)
+      : this.fallback.parse(source, filePath, language);
+  }
+
+  /**
+   * Languages found so far to have no usable grammar.
+   */
+  async getFallbackLanguages(): Promise<SupportedLanguage[]> {
+    const languages: SupportedLanguage[] = [];
+    for (const [language, available] of this.availability) {
+      if (!(await available)) {
+        languages.push(language);
+      }
+    }
+    return languages;
+  }
+
+  /**
+   * Checks (once per language) whether tree-sitter can parse a language.
+   */
+  private hasGrammar(language: SupportedLanguage): Promise<boolean> {
+    let available = this.availability.get(language);
+    if (!available) {
+      available = this.treeSitter.isLanguageAvailable(language);
+      this.availability.set(language, available);
+    }
+    return available;
+  }
+}
+
+/**
+ * Creates the parser selected by a `parser.engine` setting.
+ *
+ * @param engine - Parser engine (default: 'simple')
+ * @param grammars - Grammar locations for tree-sitter (default: shared grammar loader)
+ * @returns A new code parser
+ */
+export function createCodeParser(
+  engine: ParserEngine = 'simple',
+  grammars?: GrammarSourceConfig
+): CodeParser {
+  const grammarLoader = createGrammarLoader(grammars);
+
+  switch (engine) {
+    case 'tree-sitter':
+      return new TreeSitterParser({ grammarLoader });
+    case 'auto':
+      return new AutoParser(new TreeSitterParser({ grammarLoader }));
+    case 'simple':
+    default:
+      return new SimpleCodeParser();
+  }
+}
+
+/**
+ * Creates the grammar loader for a `parser.grammars` setting.
+ *
+ * @param grammars - Grammar locations (default: shared grammar loader)
+ * @returns A new grammar loader, or the shared one when no locations are set
+ */
+export function createGrammarLoader(grammars?: GrammarSourceConfig): GrammarLoader {
+  return grammars
+    ? new GrammarLoader({
+        grammarDir: grammars.dir,
+        nodeModules: grammars.nodeModules,
+        baseUrl: grammars.baseUrl,
+      })
+    : defaultGrammarLoader;
+}
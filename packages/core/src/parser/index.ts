@@ -6,6 +6,9 @@
  * AST parsing (accurate).
  */
 
+// Tree-sitter with per-language regex fallback
+export { AutoParser, createCodeParser, createGrammarLoader } from './auto-parser.js';
+
 // Tree-sitter AST parser
 export {
   TreeSitterParser,
@@ -16,7 +19,10 @@ export {
   GrammarLoadError,
   GrammarLoader,
   defaultGrammarLoader,
+  type FetchedGrammar,
   type GrammarConfig,
+  type GrammarLoadAttempt,
+  type GrammarLoaderOptions,
 } from './tree-sitter/grammar-loader.js';
 
 export {
@@ -5,6 +5,10 @@
  * in standard Node.js test environments.
  */
 
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Language } from 'web-tree-sitter';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { defaultGrammarLoader, GrammarLoader, GrammarLoadError } from '../grammar-loader.js';
 
@@ -42,6 +46,12 @@ vi.mock('web-tree-sitter', () => {
   };
 });
 
+// Grammar downloads return placeholder bytes (the mocked Language.load ignores them)
+vi.stubGlobal(
+  'fetch',
+  vi.fn().mockImplementation(() => Promise.resolve(new Response(new Uint8Array([0]))))
+);
+
 describe('GrammarLoader', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -268,6 +278,148 @@ describe('GrammarLoader', () => {
       expect(loader.getLanguageForExtension('.xyz')).toBeUndefined();
     });
   });
+
+  describe('grammar resolution', () => {
+    let tempDir: string;
+
+    /** Writes a fake grammar file and returns its bytes. */
+    async function writeGrammar(...segments: string[]): Promise<Buffer> {
+      const bytes = Buffer.from(segments.join('/'));
+      await mkdir(join(tempDir, ...segments.slice(0, -1)), { recursive: true });
+      await writeFile(join(tempDir, ...segments), bytes);
+      return bytes;
+    }
+
+    beforeEach(async () => {
+      tempDir = await mkdtemp(join(tmpdir(), 'nlci-grammars-'));
+      // Search node_modules from the temp directory only
+      vi.spyOn(process, 'cwd').mockReturnValue(tempDir);
+    });
+
+    afterEach(async () => {
+      vi.mocked(process.cwd).mockRestore();
+      await rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should load from the grammar directory first', async () => {
+      const bytes = await writeGrammar('grammars', 'tree-sitter-typescript.wasm');
+      await writeGrammar('node_modules', 'tree-sitter-wasms', 'out', 'tree-sitter-typescript.wasm');
+      const loader = new GrammarLoader({ grammarDir: join(tempDir, 'grammars') });
+
+      await loader.getParser('typescript');
+
+      expect(Language.load).toHaveBeenCalledWith(bytes);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should load from tree-sitter-wasms in node_modules', async () => {
+      const bytes = await writeGrammar(
+        'node_modules',
+        'tree-sitter-wasms',
+        'out',
+        'tree-sitter-python.wasm'
+      );
+      const loader = new GrammarLoader();
+
+      await loader.getParser('python');
+
+      expect(Language.load).toHaveBeenCalledWith(bytes);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should load from per-language packages in node_modules', async () => {
+      const bytes = await writeGrammar(
+        'node_modules',
+        'tree-sitter-c-sharp',
+        'tree-sitter-c_sharp.wasm'
+      );
+      const loader = new GrammarLoader();
+
+      await loader.getParser('csharp');
+
+      expect(Language.load).toHaveBeenCalledWith(bytes);
+    });
+
+    it('should download from the base URL when not found locally', async () => {
+      const loader = new GrammarLoader({ baseUrl: 'https://grammars.example/' });
+
+      await loader.getParser('go');
+
+      expect(fetch).toHaveBeenCalledWith('https://grammars.example/tree-sitter-go.wasm');
+    });
+
+    it('should list every location tried when the grammar is missing', async () => {
+      await mkdir(join(tempDir, 'node_modules'));
+      const loader = new GrammarLoader({ grammarDir: join(tempDir, 'grammars'), baseUrl: false });
+
+      const error = await loader.getParser('rust').catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(GrammarLoadError);
+      const locations = (error as GrammarLoadError).attempts.map((a) => a.location);
+      expect(locations.slice(0, 3)).toEqual([
+        join(tempDir, 'grammars', 'tree-sitter-rust.wasm'),
+        join(tempDir, 'node_modules', 'tree-sitter-rust', 'tree-sitter-rust.wasm'),
+        join(tempDir, 'node_modules', 'tree-sitter-wasms', 'out', 'tree-sitter-rust.wasm'),
+      ]);
+      expect((error as Error).message).toContain(
+        `${join(tempDir, 'grammars', 'tree-sitter-rust.wasm')} (not found)`
+      );
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should report failed downloads', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(new Response('missing', { status: 404 }));
+      const loader = new GrammarLoader({ baseUrl: 'https://grammars.example/' });
+
+      const error = (await loader.getParser('ruby').catch((e: unknown) => e)) as GrammarLoadError;
+
+      expect(error.attempts.at(-1)).toEqual({
+        location: 'https://grammars.example/tree-sitter-ruby.wasm',
+        reason: 'HTTP 404',
+      });
+    });
+
+    it('should copy grammars into a directory with fetchGrammars()', async () => {
+      const bytes = await writeGrammar(
+        'node_modules',
+        'tree-sitter-wasms',
+        'out',
+        'tree-sitter-java.wasm'
+      );
+      const loader = new GrammarLoader({ baseUrl: false });
+      const outDir = join(tempDir, 'vendor');
+
+      const fetched = await loader.fetchGrammars(outDir, ['java']);
+
+      expect(fetched).toEqual([
+        {
+          language: 'java',
+          path: join(outDir, 'tree-sitter-java.wasm'),
+          source: join(
+            tempDir,
+            'node_modules',
+            'tree-sitter-wasms',
+            'out',
+            'tree-sitter-java.wasm'
+          ),
+        },
+      ]);
+      expect(await readFile(fetched[0]!.path)).toEqual(bytes);
+
+      // The vendored directory is enough on its own
+      vi.mocked(process.cwd).mockReturnValue(outDir);
+      const offline = new GrammarLoader({ grammarDir: outDir, nodeModules: false, baseUrl: false });
+      await expect(offline.getParser('java')).resolves.toBeDefined();
+    });
+
+    it('should fail fetchGrammars() for grammars that are not found', async () => {
+      const loader = new GrammarLoader({ baseUrl: false });
+
+      await expect(loader.fetchGrammars(join(tempDir, 'vendor'), ['kotlin'])).rejects.toThrow(
+        GrammarLoadError
+      );
+    });
+  });
 });
 
 describe('GrammarLoadError', () => {
@@ -298,4 +450,17 @@ describe('GrammarLoadError', () => {
     const error = new GrammarLoadError('typescript', 'test message', cause);
     expect(error.cause).toBe(cause);
   });
+
+  it('should list the locations tried in its message', () => {
+    const error = new GrammarLoadError('typescript', 'grammar not found', undefined, [
+      { location: '/grammars/tree-sitter-typescript.wasm', reason: 'not found' },
+      { location: 'https://cdn.example/tree-sitter-typescript.wasm', reason: 'HTTP 404' },
+    ]);
+    expect(error.message).toBe(
+      'Failed to load grammar for typescript: grammar not found. Tried:\n' +
+        '  - /grammars/tree-sitter-typescript.wasm (not found)\n' +
+        '  - https://cdn.example/tree-sitter-typescript.wasm (HTTP 404)'
+    );
+    expect(error.attempts).toHaveLength(2);
+  });
 });
@@ -239,6 +239,12 @@ vi.mock('web-tree-sitter', () => {
   return { Parser, Language };
 });
 
+// Grammar downloads return placeholder bytes (the mocked Language.load ignores them)
+vi.stubGlobal(
+  'fetch',
+  vi.fn().mockImplementation(() => Promise.resolve(new Response(new Uint8Array([0]))))
+);
+
 import type { SupportedLanguage } from '../../../types/code-block.js';
 import { TreeSitterParser } from '../tree-sitter-parser.js';
 
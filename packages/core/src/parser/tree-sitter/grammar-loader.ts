@@ -3,11 +3,22 @@
  *
  * Manages loading and caching of tree-sitter WASM grammars.
  * Supports lazy loading to minimize startup time.
+ *
+ * Grammars are resolved, in order, from a local grammar directory, from
+ * the per-language `tree-sitter-*` packages or `tree-sitter-wasms` in
+ * node_modules, and finally from a remote base URL.
  */
 
+import { existsSync } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
 import { Language, Parser } from 'web-tree-sitter';
 import type { SupportedLanguage } from '../../types/code-block.js';
 
+/** Default remote location of the `tree-sitter-wasms` grammars */
+const DEFAULT_BASE_URL = 'https://cdn.jsdelivr.net/npm/tree-sitter-wasms@latest/out/';
+
 /**
  * Configuration for a language grammar.
  */
@@ -25,6 +36,31 @@ export interface GrammarConfig {
   loaded: boolean;
 }
 
+/**
+ * Grammar loader options.
+ */
+export interface GrammarLoaderOptions {
+  /** Base URL for grammar WASM files, or false to never download (default: jsdelivr CDN) */
+  baseUrl?: string | false;
+
+  /** Local directory of `.wasm` grammars, searched first */
+  grammarDir?: string;
+
+  /** Search node_modules for `tree-sitter-<language>` and `tree-sitter-wasms` (default: true) */
+  nodeModules?: boolean;
+}
+
+/**
+ * A location a grammar was looked for, and why it wasn't used.
+ */
+export interface GrammarLoadAttempt {
+  /** File path or URL */
+  location: string;
+
+  /** Why the location was rejected */
+  reason: string;
+}
+
 /**
  * Grammar loading error.
  */
@@ -32,13 +68,32 @@ export class GrammarLoadError extends Error {
   constructor(
     public readonly language: SupportedLanguage,
     message: string,
-    public readonly cause?: Error
+    public readonly cause?: Error,
+    public readonly attempts: readonly GrammarLoadAttempt[] = []
   ) {
-    super(`Failed to load grammar for ${language}: ${message}`);
+    super(
+      `Failed to load grammar for ${language}: ${message}` +
+        (attempts.length > 0
+          ? '. Tried:' + attempts.map((a) => `\n  - ${a.location} (${a.reason})`).join('')
+          : '')
+    );
     this.name = 'GrammarLoadError';
   }
 }
 
+/**
+ * A grammar copied into a vendoring directory.
+ */
+export interface FetchedGrammar {
+  language: SupportedLanguage;
+
+  /** Where the grammar was copied to */
+  path: string;
+
+  /** Where the grammar was found */
+  source: string;
+}
+
 /**
  * Manages tree-sitter grammar loading and caching.
  *
@@ -59,8 +114,14 @@ export class GrammarLoader {
   private parsers = new Map<SupportedLanguage, Parser>();
   private loadingPromises = new Map<SupportedLanguage, Promise<Parser>>();
 
-  /** Base URL for downloading grammar WASM files */
-  private readonly baseUrl: string;
+  /** Base URL for downloading grammar WASM files (false disables downloads) */
+  private readonly baseUrl: string | false;
+
+  /** Local grammar directory, searched first */
+  private readonly grammarDir?: string;
+
+  /** Whether to search node_modules for grammar packages */
+  private readonly nodeModules: boolean;
 
   /** Grammar configurations by language */
   private readonly grammars: Map<SupportedLanguage, GrammarConfig>;
@@ -69,11 +130,12 @@ export class GrammarLoader {
    * Creates a new grammar loader.
    *
    * @param options - Configuration options
-   * @param options.baseUrl - Base URL for grammar WASM files (default: jsdelivr CDN)
    */
-  constructor(options: { baseUrl?: string } = {}) {
+  constructor(options: GrammarLoaderOptions = {}) {
     // Default to jsdelivr CDN for tree-sitter WASM grammars
-    this.baseUrl = options.baseUrl ?? 'https://cdn.jsdelivr.net/npm/tree-sitter-wasms@latest/out/';
+    this.baseUrl = options.baseUrl ?? DEFAULT_BASE_URL;
+    this.grammarDir = options.grammarDir && path.resolve(options.grammarDir);
+    this.nodeModules = options.nodeModules ?? true;
 
     this.grammars = new Map([
       [
@@ -306,6 +368,39 @@ export class GrammarLoader {
     this.parsers.clear();
   }
 
+  /**
+   * Copies grammars into a directory for offline use.
+   *
+   * Each grammar is taken from the first location that has it, so grammars
+   * installed in node_modules are copied without downloading.
+   *
+   * @param outDir - Directory to write `.wasm` files to
+   * @param languages - Languages to fetch (default: all supported)
+   * @returns The fetched grammars
+   * @throws {GrammarLoadError} If a grammar can't be found anywhere
+   */
+  async fetchGrammars(
+    outDir: string,
+    languages: readonly SupportedLanguage[] = this.supportedLanguages
+  ): Promise<FetchedGrammar[]> {
+    const fetched: FetchedGrammar[] = [];
+    await fs.mkdir(outDir, { recursive: true });
+
+    for (const language of languages) {
+      const config = this.grammars.get(language);
+      if (!config) {
+        throw new GrammarLoadError(language, 'Language not supported');
+      }
+
+      const { bytes, location } = await this.readGrammar(config);
+      const target = path.join(outDir, config.wasmPath);
+      await fs.writeFile(target, bytes);
+      fetched.push({ language, path: target, source: location });
+    }
+
+    return fetched;
+  }
+
   /**
    * Loads a parser for the specified language.
    */
@@ -315,22 +410,107 @@ export class GrammarLoader {
       throw new GrammarLoadError(language, 'Language not supported');
     }
 
-    const wasmUrl = this.baseUrl + config.wasmPath;
+    const { bytes, location } = await this.readGrammar(config);
 
     try {
       const parser = new Parser();
-      const lang = await Language.load(wasmUrl);
+      const lang = await Language.load(bytes);
       parser.setLanguage(lang);
       config.loaded = true;
       return parser;
     } catch (error) {
       throw new GrammarLoadError(
         language,
-        `Failed to load from ${wasmUrl}`,
+        `Failed to load from ${location}`,
         error instanceof Error ? error : undefined
       );
     }
   }
+
+  /**
+   * Reads a grammar's WASM bytes from the first location that has them.
+   *
+   * @throws {GrammarLoadError} Listing every location tried
+   */
+  private async readGrammar(
+    config: GrammarConfig
+  ): Promise<{ bytes: Uint8Array; location: string }> {
+    const attempts: GrammarLoadAttempt[] = [];
+    let lastError: Error | undefined;
+
+    for (const file of this.localCandidates(config)) {
+      try {
+        return { bytes: await fs.readFile(file), location: file };
+      } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        attempts.push({ location: file, reason: code === 'ENOENT' ? 'not found' : String(error) });
+        if (code !== 'ENOENT' && error instanceof Error) lastError = error;
+      }
+    }
+
+    if (this.baseUrl !== false) {
+      const url = this.baseUrl + config.wasmPath;
+      try {
+        const response = await fetch(url);
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        return { bytes: new Uint8Array(await response.arrayBuffer()), location: url };
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        attempts.push({ location: url, reason: lastError.message });
+      }
+    }
+
+    throw new GrammarLoadError(config.language, 'grammar not found', lastError, attempts);
+  }
+
+  /**
+   * Lists the local files a grammar may be read from, in search order.
+   *
+   * Per-language packages are named after the grammar file, e.g.
+   * `tree-sitter-c_sharp.wasm` comes from `tree-sitter-c-sharp`.
+   */
+  private localCandidates(config: GrammarConfig): string[] {
+    const candidates: string[] = [];
+
+    if (this.grammarDir) {
+      candidates.push(path.join(this.grammarDir, config.wasmPath));
+    }
+
+    if (this.nodeModules) {
+      const packageName = config.wasmPath.replace(/\.wasm$/, '').replace(/_/g, '-');
+      for (const dir of findNodeModules()) {
+        candidates.push(path.join(dir, packageName, config.wasmPath));
+        candidates.push(path.join(dir, 'tree-sitter-wasms', 'out', config.wasmPath));
+      }
+    }
+
+    return candidates;
+  }
+}
+
+/**
+ * Lists the existing node_modules directories above the working directory
+ * and this module, nearest first.
+ */
+function findNodeModules(): string[] {
+  const dirs = new Set<string>();
+
+  for (const start of [process.cwd(), path.dirname(fileURLToPath(import.meta.url))]) {
+    let dir = start;
+    for (;;) {
+      const candidate = path.join(dir, 'node_modules');
+      if (path.basename(dir) !== 'node_modules' && existsSync(candidate)) {
+        dirs.add(candidate);
+      }
+      const parent = path.dirname(dir);
+      if (parent === dir) break;
+      dir = parent;
+    }
+  }
+
+  return [...dirs];
 }
 
 /** Default grammar loader instance */
@@ -10,7 +10,10 @@ export {
   GrammarLoadError,
   GrammarLoader,
   defaultGrammarLoader,
+  type FetchedGrammar,
   type GrammarConfig,
+  type GrammarLoadAttempt,
+  type GrammarLoaderOptions,
 } from './grammar-loader.js';
 export { NodeExtractor, type ExtractedNode, type ExtractionRule } from './node-extractor.js';
 export { TreeSitterParser, type TreeSitterParserOptions } from './tree-sitter-parser.js';
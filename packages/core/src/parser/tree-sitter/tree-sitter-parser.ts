@@ -297,6 +297,24 @@ export class TreeSitterParser implements CodeParser {
     }
   }
 
+  /**
+   * Checks whether a language's grammar can be loaded.
+   *
+   * @param language - Language to check
+   * @returns false if the language is unsupported or its grammar fails to load
+   */
+  async isLanguageAvailable(language: SupportedLanguage): Promise<boolean> {
+    if (!this.loader.isSupported(language)) return false;
+
+    try {
+      await this.initialize();
+      await this.loader.getParser(language);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Gets or creates a node extractor for a language.
    */
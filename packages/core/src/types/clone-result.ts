@@ -22,15 +22,29 @@ export interface CloneResult {
   /** Type of clone detected */
   readonly cloneType: CloneType;
 
+  /** Check that decided the clone type */
+  readonly cloneTypeReason: CloneTypeReason;
+
   /** Comparison metrics */
-  readonly metrics: {
-    /** Number of shared tokens */
-    readonly sharedTokens: number;
-    /** Total tokens compared */
-    readonly totalTokens: number;
-    /** Edit distance between blocks */
-    readonly editDistance: number;
-  };
+  readonly metrics: CloneMetrics;
+}
+
+/**
+ * Token-level comparison of a clone's source and target.
+ */
+export interface CloneMetrics {
+  /** Tokens the blocks have in common (multiset intersection) */
+  readonly sharedTokens: number;
+
+  /** Tokens in either block (multiset union) */
+  readonly totalTokens: number;
+
+  /**
+   * Token edit distance normalized by the longer block (0 = identical, 1 = nothing aligned).
+   * Blocks whose lengths alone differ by more than the type-3 limit are not
+   * aligned; their distance is then the normalized length difference.
+   */
+  readonly editDistance: number;
 }
 
 /**
@@ -42,6 +56,15 @@ export type CloneType =
   | 'type-3' // Near-miss (statements added/removed)
   | 'type-4'; // Semantic (different syntax, same functionality)
 
+/**
+ * Checks that can decide a clone type, from most to least specific.
+ */
+export type CloneTypeReason =
+  | 'normalized-text' // Normalized text is identical (type-1)
+  | 'abstracted-tokens' // Tokens match once identifiers and literals are abstracted (type-2)
+  | 'token-alignment' // Abstracted tokens align with few gaps or substitutions (type-3)
+  | 'embedding-similarity'; // Only the embeddings are similar (type-4)
+
 /**
  * Result of a clone detection query.
  */
@@ -57,15 +80,24 @@ export interface QueryResult {
 
   /** Total query time in milliseconds */
   readonly duration: number;
+
+  /** Whether `timeoutMs` elapsed and the clones are only those found before it */
+  readonly truncated: boolean;
 }
 
 /**
  * Summary statistics for a codebase scan.
  */
 export interface ScanSummary {
-  /** Total files scanned */
+  /** Files parsed and indexed by the scan; unchanged files are not counted */
   readonly filesScanned: number;
 
+  /** Files skipped by an incremental scan because their content was unchanged */
+  readonly filesUnchanged: number;
+
+  /** Previously scanned files that no longer exist and had their blocks removed */
+  readonly filesRemoved: number;
+
   /** Total code blocks indexed */
   readonly blocksIndexed: number;
 
@@ -101,14 +133,23 @@ export interface CloneCluster {
   /** Clone type of this cluster */
   readonly cloneType: CloneType;
 
-  /** Average similarity within the cluster */
+  /** Average similarity over every pair of blocks in the cluster */
   readonly avgSimilarity: number;
 
-  /** Representative block for the cluster (optional) */
-  readonly representative?: CodeBlock;
+  /** Lowest similarity between any two blocks in the cluster */
+  readonly cohesion: number;
 
-  /** Total lines of duplicated code (optional) */
-  readonly duplicatedLines?: number;
+  /** Block most similar to the rest of the cluster (its medoid) */
+  readonly representative: CodeBlock;
+
+  /** Lines that consolidating the cluster to its representative would remove */
+  readonly duplicatedLines: number;
+
+  /** Number of distinct files the cluster spans */
+  readonly fileCount: number;
+
+  /** Total tokens across all blocks in the cluster */
+  readonly totalTokens: number;
 }
 
 /**
@@ -127,19 +168,74 @@ export interface QueryOptions {
   /** Languages to include, default all */
   languages?: SupportedLanguage[];
 
+  /**
+   * Language of the query code, used to normalize and embed it. When
+   * 'unknown' (the default), the only entry of `languages` is used if there
+   * is exactly one.
+   */
+  language?: SupportedLanguage;
+
   /** File patterns to include (glob) */
   includePatterns?: string[];
 
   /** File patterns to exclude (glob) */
   excludePatterns?: string[];
 
+  /**
+   * Directory that include and exclude patterns are relative to, default '.'
+   * (the current working directory). Directories above it are never matched.
+   */
+  rootDir?: string;
+
   /** Whether to include the query block in results */
   includeSelf?: boolean;
 
-  /** Timeout in milliseconds, default 30000 */
+  /**
+   * Timeout in milliseconds after which partial results are returned, default
+   * 30000 for queries. Whole-index operations (`findAllClones`,
+   * `findClonePairs`, `iterateClonePairs`) only time out when it is set.
+   */
   timeoutMs?: number;
+
+  /** How `findAllClones` groups clone pairs into clusters, default 'single-linkage' */
+  clustering?: ClusteringStrategy;
+
+  /** Most links between two members of a 'diameter-limited' cluster, default 2 */
+  maxClusterDiameter?: number;
+
+  /** LSH tables two blocks must share a bucket in to be compared as a pair, default 1 */
+  minCollisions?: number;
+
+  /** Most candidate pairs held in memory while searching for pairs, default 1,000,000 */
+  maxCandidatePairs?: number;
+
+  /** Called as the pair search scans the LSH tables */
+  onProgress?: (progress: PairSearchProgress) => void;
 }
 
+/**
+ * Progress of a search for clone pairs across the LSH tables.
+ */
+export interface PairSearchProgress {
+  /** Tables scanned so far, over all passes */
+  readonly tablesScanned: number;
+
+  /** Tables to scan (tables times passes) */
+  readonly totalTables: number;
+
+  /** Pairs found so far */
+  readonly pairsFound: number;
+}
+
+/**
+ * Strategies for grouping clone pairs into clusters.
+ */
+export type ClusteringStrategy =
+  | 'single-linkage' // Connected components; chains of pairs join unrelated blocks
+  | 'complete-linkage' // Every pair in a cluster reaches minSimilarity
+  | 'average-linkage' // Pairs across merged clusters reach minSimilarity on average
+  | 'diameter-limited'; // Connected, with members at most maxClusterDiameter links apart
+
 /**
  * Default query options.
  */
@@ -148,10 +244,17 @@ export const DEFAULT_QUERY_OPTIONS: Required<QueryOptions> = {
   maxResults: 100,
   cloneTypes: ['type-1', 'type-2', 'type-3', 'type-4'],
   languages: [],
+  language: 'unknown',
   includePatterns: [],
   excludePatterns: [],
+  rootDir: '.',
   includeSelf: false,
   timeoutMs: 30000,
+  clustering: 'single-linkage',
+  maxClusterDiameter: 2,
+  minCollisions: 1,
+  maxCandidatePairs: 1_000_000,
+  onProgress: () => {},
 };
 
 /**
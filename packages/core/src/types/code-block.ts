@@ -4,13 +4,24 @@
  * Core type definitions for the NLCI code similarity detection system.
  */
 
+import { createHash } from 'crypto';
+
+import { normalizeCode } from '../embeddings/normalizer.js';
+
 /**
  * Represents a block of code that can be indexed and queried.
  */
 export interface CodeBlock {
-  /** Unique identifier for this code block */
+  /** Unique identifier for this code block (its file and line range) */
   readonly id: string;
 
+  /**
+   * Identity that survives line shifts: file, block kind, name and a
+   * fingerprint of the normalized content. Absent from blocks indexed before
+   * it existed; stableIdOf() derives it for any block.
+   */
+  readonly stableId?: string;
+
   /** Source file path (relative to project root) */
   readonly filePath: string;
 
@@ -130,9 +141,11 @@ export function createCodeBlock(options: CodeBlockOptions): CodeBlock {
   const normalizedContent = normalizeCode(options.content, options.language);
   const contentHash = computeHash(normalizedContent);
   const tokenCount = countTokens(normalizedContent);
+  const blockType = options.blockType ?? options.type ?? 'unknown';
 
   return {
     id: generateBlockId(options.filePath, options.startLine, options.endLine),
+    stableId: generateStableId(options.filePath, blockType, options.name, contentHash),
     filePath: options.filePath,
     startLine: options.startLine,
     endLine: options.endLine,
@@ -141,7 +154,7 @@ export function createCodeBlock(options: CodeBlockOptions): CodeBlock {
     content: options.content,
     normalizedContent,
     language: options.language,
-    blockType: options.blockType ?? options.type ?? 'unknown',
+    blockType,
     name: options.name,
     contentHash,
     tokenCount,
@@ -159,30 +172,26 @@ function generateBlockId(filePath: string, startLine: number, endLine: number):
 }
 
 /**
- * Normalizes code for comparison by removing non-semantic elements.
+ * Generates a block identity from its file, kind, name and content hash.
+ *
+ * Line numbers are left out, so the identity is unchanged when code above the
+ * block is edited.
  */
-function normalizeCode(content: string, _language: SupportedLanguage): string {
-  // Basic normalization: trim, normalize whitespace, lowercase identifiers
-  return content
-    .trim()
-    .replace(/\/\/.*$/gm, '') // Remove single-line comments
-    .replace(/\/\*[\s\S]*?\*\//g, '') // Remove multi-line comments
-    .replace(/\s+/g, ' ') // Normalize whitespace
-    .trim();
+export function generateStableId(
+  filePath: string,
+  blockType: CodeBlockType,
+  name: string | undefined,
+  contentHash: string
+): string {
+  const normalized = filePath.replace(/\\/g, '/');
+  return `${normalized}#${blockType}:${name ?? ''}@${contentHash.slice(0, 16)}`;
 }
 
 /**
  * Computes a SHA-256 hash of the content.
  */
 function computeHash(content: string): string {
-  // Use a simple hash for now; in production, use crypto
-  let hash = 0;
-  for (let i = 0; i < content.length; i++) {
-    const char = content.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-  return Math.abs(hash).toString(16).padStart(8, '0');
+  return createHash('sha256').update(content).digest('hex');
 }
 
 /**
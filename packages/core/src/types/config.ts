@@ -4,6 +4,7 @@
  * Configuration options for the NLCI engine.
  */
 
+import type { TokenizerMode } from '../embeddings/tokenizer.js';
 import type { SupportedLanguage } from './code-block.js';
 
 /**
@@ -122,9 +123,73 @@ export interface MultiProbeConfig {
  * Embedding model type.
  * - 'tfidf': TF-IDF based embeddings (fast, no external dependencies)
  * - 'onnx': ONNX neural model (requires model file)
+ * - 'ast': Syntax-tree structure, independent of naming (uses parser.grammars)
+ * - 'composite': A blend of other models (see `embedding.composite`)
  * - 'mock': Mock embeddings for testing
  */
-export type EmbeddingModelType = 'tfidf' | 'onnx' | 'mock';
+export type EmbeddingModelType = 'tfidf' | 'onnx' | 'ast' | 'composite' | 'mock';
+
+/**
+ * Name of an embedding model: a built-in type, or a name registered with
+ * `registerEmbedder()` (for example by a plugin in `embedding.plugins`).
+ */
+export type EmbeddingModelName = EmbeddingModelType | (string & Record<never, never>);
+
+/**
+ * How a composite model combines the embeddings of its models.
+ * - 'weighted-sum': adds the weighted embeddings; every model outputs lsh.dimension
+ * - 'concatenate': concatenates the weighted embeddings and randomly projects them to lsh.dimension
+ */
+export type CompositeCombination = 'weighted-sum' | 'concatenate';
+
+/**
+ * A model blended into a composite embedding model.
+ * Other settings (modelPath, embeddingSpace, ...) come from the embedding config.
+ */
+export interface CompositeModelConfig {
+  /** Type or registered name of the model; composites cannot be nested */
+  modelType: EmbeddingModelName;
+
+  /**
+   * Relative weight of the model's embeddings.
+   * @default 1
+   */
+  weight?: number;
+
+  /**
+   * Whether to scale the model's embeddings to unit length before weighting.
+   * @default true
+   */
+  normalize?: boolean;
+
+  /**
+   * Dimension the model outputs (e.g. an ONNX model's hidden size).
+   * Only used with 'concatenate'.
+   * @default lsh.dimension
+   */
+  dimension?: number;
+}
+
+/**
+ * Composite embedding model configuration.
+ */
+export interface CompositeConfig {
+  /** Models to blend, each listed once */
+  models: CompositeModelConfig[];
+
+  /**
+   * How the models' embeddings are combined.
+   * @default 'concatenate'
+   */
+  combination?: CompositeCombination;
+}
+
+/**
+ * How embedding spaces are shared between languages.
+ * - 'shared': one model embeds every language, tokenizing each with its own syntax
+ * - 'per-language': each language has its own model and embedding space
+ */
+export type EmbeddingSpace = 'shared' | 'per-language';
 
 /**
  * Embedding model configuration.
@@ -134,10 +199,43 @@ export interface EmbeddingConfig {
    * Type of embedding model to use.
    * - 'tfidf': Fast TF-IDF based embeddings (recommended for getting started)
    * - 'onnx': Neural ONNX model (requires model file)
+   * - 'ast': Structural embeddings from tree-sitter syntax trees
+   * - 'composite': A weighted blend of the models listed in `composite`
    * - 'mock': Mock embeddings for testing
+   * - any name registered with `registerEmbedder()`
    * @default 'tfidf'
    */
-  modelType?: EmbeddingModelType;
+  modelType?: EmbeddingModelName;
+
+  /**
+   * Modules that register custom embedding models, loaded with
+   * `loadEmbedderPlugins()` before the engine is created. Relative paths are
+   * resolved from the config file's directory.
+   */
+  plugins?: string[];
+
+  /**
+   * Whether languages share one embedding model or each have their own.
+   * Only used for TF-IDF models (on their own or in a composite).
+   * @default 'shared'
+   */
+  embeddingSpace?: EmbeddingSpace;
+
+  /**
+   * How TF-IDF models tokenize code.
+   * - 'split': identifiers are split into sub-words, for semantic search
+   * - 'abstract': identifiers become positional placeholders and literals
+   *   type tags, so renamed copies (type-2 clones) embed alike
+   * Only used for TF-IDF models (on their own or in a composite).
+   * @default 'split'
+   */
+  tokenizerMode?: TokenizerMode;
+
+  /**
+   * Models blended by a composite model.
+   * Required when modelType is 'composite'.
+   */
+  composite?: CompositeConfig;
 
   /**
    * Path to the ONNX model file.
@@ -146,6 +244,13 @@ export interface EmbeddingConfig {
    */
   modelPath?: string;
 
+  /**
+   * Path to the ONNX model's WordPiece vocabulary (`vocab.txt`).
+   * Only used when modelType is 'onnx'.
+   * @default 'vocab.txt' next to modelPath
+   */
+  vocabPath?: string;
+
   /**
    * Output embedding dimension.
    * Must match LSH dimension.
@@ -169,6 +274,7 @@ export interface EmbeddingConfig {
 
   /**
    * Whether to use GPU acceleration if available.
+   * The ONNX embedder currently runs on the CPU only.
    * @default true
    */
   useGPU?: boolean;
@@ -181,10 +287,49 @@ export interface EmbeddingConfig {
   normalize?: boolean;
 }
 
+/**
+ * Code parser implementations selectable through `parser.engine`.
+ */
+export type ParserEngine = 'simple' | 'tree-sitter' | 'auto';
+
+/**
+ * Tree-sitter grammar locations, searched in the order listed.
+ */
+export interface GrammarSourceConfig {
+  /** Directory of vendored `.wasm` grammars (e.g. written by `nlci grammars fetch`) */
+  dir?: string;
+
+  /**
+   * Search node_modules for `tree-sitter-<language>` and `tree-sitter-wasms` packages.
+   * @default true
+   */
+  nodeModules?: boolean;
+
+  /**
+   * Base URL to download grammars from, or false to never download.
+   * @default 'https://cdn.jsdelivr.net/npm/tree-sitter-wasms@latest/out/'
+   */
+  baseUrl?: string | false;
+}
+
 /**
  * Parser configuration.
  */
 export interface ParserConfig {
+  /**
+   * Parser used to extract code blocks.
+   * - 'simple': regex-based parser, no grammars needed
+   * - 'tree-sitter': tree-sitter only; languages without a grammar yield no blocks
+   * - 'auto': tree-sitter where a grammar loads, the regex parser otherwise
+   * @default 'simple'
+   */
+  engine?: ParserEngine;
+
+  /**
+   * Where tree-sitter grammars are loaded from (engines 'tree-sitter' and 'auto').
+   */
+  grammars?: GrammarSourceConfig;
+
   /**
    * Enabled languages for parsing.
    * Empty array means all supported languages.
@@ -293,7 +438,8 @@ export interface StorageConfig {
   compress: boolean;
 
   /**
-   * Maximum cache size in MB.
+   * Maximum size of the embedding cache in MB. Embeddings are cached by
+   * content hash and saved with the index; 0 disables the cache.
    * @default 256
    */
   maxCacheSizeMB: number;
@@ -309,8 +455,8 @@ export interface StorageConfig {
  */
 export interface PerformanceConfig {
   /**
-   * Number of worker threads for parallel processing.
-   * 0 means use all available cores.
+   * Number of worker threads that parse and embed files during scans.
+   * 0 means use all available cores; 1 indexes on the main thread.
    * @default 0
    */
   numWorkers: number;
@@ -322,13 +468,15 @@ export interface PerformanceConfig {
   streaming: boolean;
 
   /**
-   * Chunk size for streaming in KB.
+   * Chunk size for streaming in KB. Also the amount of source handed to an
+   * indexing worker per batch.
    * @default 64
    */
   chunkSizeKB: number;
 
   /**
-   * Maximum concurrent file operations.
+   * Maximum concurrent file operations. Scans read and prepare at most this
+   * many files before merging them into the index.
    * @default 10
    */
   maxConcurrentFiles: number;
@@ -380,6 +528,8 @@ export const DEFAULT_CONFIG: NLCIConfig = {
   },
   embedding: {
     modelType: 'tfidf',
+    embeddingSpace: 'shared',
+    tokenizerMode: 'split',
     modelPath: './models/code-embedder-small/model.onnx',
     dimension: 384,
     maxSequenceLength: 512,
@@ -388,6 +538,7 @@ export const DEFAULT_CONFIG: NLCIConfig = {
     normalize: true,
   },
   parser: {
+    engine: 'simple',
     languages: [],
     minBlockSize: 10,
     maxBlockSize: 500,
@@ -439,5 +590,8 @@ export function mergeConfig(userConfig?: DeepPartial<NLCIConfig>): NLCIConfig {
       ...(userConfig.performance ?? {}),
     } as PerformanceConfig,
     logging: { ...DEFAULT_CONFIG.logging, ...(userConfig.logging ?? {}) } as LoggingConfig,
+    ...(userConfig.memory && {
+      memory: { ...userConfig.memory, enabled: userConfig.memory.enabled ?? false } as MemoryConfig,
+    }),
   };
 }
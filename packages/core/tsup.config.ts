@@ -5,6 +5,7 @@ export default defineConfig({
     index: 'src/index.ts',
     'lsh/index': 'src/lsh/index.ts',
     'engine/index': 'src/engine/index.ts',
+    'engine/indexing-worker': 'src/engine/indexing-worker.ts',
   },
   format: ['cjs', 'esm'],
   dts: {
@@ -15,6 +16,8 @@ export default defineConfig({
     },
   },
   clean: true,
+  // import.meta.url is used to locate the indexing worker from the CJS build too
+  shims: true,
   sourcemap: true,
   splitting: false,
   treeshake: true,